@@ -0,0 +1,108 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
+import { findCollectionCalendar, findCollections, findProperties, QueryParameters } from "./PropertyRoutes";
+import { getDefaultLookupDependencies, LookupDependencies } from "../handlers/business-logic/LookupDependencies";
+import { InvalidRequestError } from "../errors/InvalidRequestError";
+import { UnsupportedAreaError } from "../errors/UnsupportedAreaError";
+import { AddressNotFoundError } from "../errors/AddressNotFoundError";
+import { IncompleteAddressError } from "../errors/IncompleteAddressError";
+import { CouncilUnreachableError } from "../errors/CouncilUnreachableError";
+import { CouncilFormatChangedError } from "../errors/CouncilFormatChangedError";
+import { StorageError } from "../errors/StorageError";
+
+const PROPERTIES_PATH: RegExp = /^\/properties\/?$/;
+
+const COLLECTIONS_PATH: RegExp = /^\/properties\/([^\/]+)\/collections\/?$/;
+
+const CALENDAR_PATH: RegExp = /^\/properties\/([^\/]+)\/collections\.ics$/;
+
+interface ErrorMapping {
+    errorType: Function;
+    statusCode: number;
+    code: string;
+    message: string;
+}
+
+/**
+ * How each of the skill's error types is reported over HTTP, most specific first. Only
+ * InvalidRequestError messages are returned as-is; the others may carry internal detail.
+ */
+const ERROR_MAPPINGS: ErrorMapping[] = [
+    { errorType: InvalidRequestError, statusCode: 400, code: "INVALID_REQUEST", message: null },
+    { errorType: IncompleteAddressError, statusCode: 400, code: "INCOMPLETE_ADDRESS", message: "The address needs a first line and postcode" },
+    { errorType: UnsupportedAreaError, statusCode: 404, code: "UNSUPPORTED_AREA", message: "Bin collections can't be looked up for this area yet" },
+    { errorType: AddressNotFoundError, statusCode: 404, code: "NOT_FOUND", message: "The council has no collections for this property" },
+    { errorType: CouncilUnreachableError, statusCode: 503, code: "COUNCIL_UNAVAILABLE", message: "The council website can't be reached just now" },
+    { errorType: CouncilFormatChangedError, statusCode: 502, code: "COUNCIL_FORMAT_CHANGED", message: "The council website has changed and can't be read" },
+    { errorType: StorageError, statusCode: 503, code: "STORAGE_UNAVAILABLE", message: "Stored collections can't be read just now" }
+];
+
+/**
+ * Entry point for API Gateway (REST proxy integration), serving the skill's collection data as JSON and iCalendar.
+ */
+export async function handleApiRequest(event: APIGatewayProxyEvent,
+                                       dependencies: LookupDependencies = getDefaultLookupDependencies()): Promise<APIGatewayProxyResult> {
+    const query: QueryParameters = event.queryStringParameters || {};
+    console.log("API request: " + event.httpMethod + " " + event.path + " " + JSON.stringify(query));
+
+    try {
+        if (PROPERTIES_PATH.test(event.path)) {
+            return event.httpMethod === "GET" ? jsonResponse(200, await findProperties(dependencies, query)) : methodNotAllowed();
+        }
+
+        const collectionsMatch: RegExpExecArray = COLLECTIONS_PATH.exec(event.path);
+        if (collectionsMatch) {
+            return event.httpMethod === "GET"
+                ? jsonResponse(200, await findCollections(dependencies, decodeURIComponent(collectionsMatch[1]), query))
+                : methodNotAllowed();
+        }
+
+        const calendarMatch: RegExpExecArray = CALENDAR_PATH.exec(event.path);
+        if (calendarMatch) {
+            return event.httpMethod === "GET"
+                ? calendarResponse(await findCollectionCalendar(dependencies, decodeURIComponent(calendarMatch[1]), query))
+                : methodNotAllowed();
+        }
+
+        return errorResponse(404, "NOT_FOUND", "No route for " + event.path);
+    } catch (err) {
+        return mapError(err);
+    }
+}
+
+function mapError(err: Error): APIGatewayProxyResult {
+    for (const mapping of ERROR_MAPPINGS) {
+        if (err instanceof mapping.errorType) {
+            console.log(`API error handled: ${err.name}: ${err.message}`);
+            return errorResponse(mapping.statusCode, mapping.code, mapping.message || err.message);
+        }
+    }
+
+    console.error("Unexpected API error", err);
+    return errorResponse(500, "INTERNAL_ERROR", "Something went wrong finding bin collections");
+}
+
+function methodNotAllowed(): APIGatewayProxyResult {
+    const response: APIGatewayProxyResult = errorResponse(405, "METHOD_NOT_ALLOWED", "Only GET is supported");
+    response.headers.Allow = "GET";
+    return response;
+}
+
+function errorResponse(statusCode: number, code: string, message: string): APIGatewayProxyResult {
+    return jsonResponse(statusCode, { error: { code, message } });
+}
+
+function calendarResponse(ics: string): APIGatewayProxyResult {
+    return {
+        statusCode: 200,
+        headers: { "Content-Type": "text/calendar; charset=utf-8" },
+        body: ics
+    };
+}
+
+function jsonResponse(statusCode: number, body: object): APIGatewayProxyResult {
+    return {
+        statusCode,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body)
+    };
+}
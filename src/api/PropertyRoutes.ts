@@ -0,0 +1,171 @@
+import * as moment from 'moment';
+import { PropertyData } from '../models/PropertyData';
+import { PropertyCandidate } from '../models/PropertyCandidate';
+import { BinCollectionGroup } from '../models/BinCollectionGroup';
+import { BinType } from '../models/BinType';
+import { ShortAddress } from "../models/ShortAddress";
+import { findPropertyCandidates, obtainPropertyDataForProperty } from "../handlers/business-logic/PropertyLookup";
+import { findMatchingCandidates } from "../handlers/business-logic/AddressMatcher";
+import { findCollectionsBetween, parseCollectionDate } from "../handlers/business-logic/BinCollectionFinder";
+import { DEFAULT_TIME_ZONE, localToday } from "../handlers/business-logic/LocalDates";
+import { buildCalendarFeed } from "../handlers/business-logic/CalendarFeed";
+import { translatorFor } from "../i18n/Translator";
+import { parsePostcode } from "../handlers/SetMyAddressIntentHandler";
+import { LookupDependencies } from "../handlers/business-logic/LookupDependencies";
+import { InvalidRequestError } from "../errors/InvalidRequestError";
+
+const API_DATE_FORMAT = "YYYY-MM-DD";
+
+const ALARM_TIME_FORMAT = "HH:mm";
+
+const DEFAULT_WINDOW_DAYS = 28;
+
+const MAX_WINDOW_DAYS = 366;
+
+const MAX_ADDRESS_LENGTH = 100;
+
+const PROPERTY_ID_PATTERN: RegExp = /^[A-Za-z0-9-]{1,32}$/;
+
+export interface QueryParameters {
+    [name: string]: string | undefined;
+}
+
+export interface PropertiesResponse {
+    properties: Array<{ uprn: string, address: string }>;
+}
+
+export interface CollectionBin {
+    id: string;
+    name: string;
+    colour: string;
+    materialStream: string;
+}
+
+export interface CollectionsResponse {
+    uprn: string;
+    from: string;
+    to: string;
+    collections: Array<{
+        date: string,
+        bins: CollectionBin[],
+        /** Only given for collections that have moved from the property's usual day. */
+        usualDate?: string,
+        /** Only given, as true, for collections predicted while the council couldn't be reached. */
+        predicted?: boolean
+    }>;
+}
+
+/**
+ * GET /properties?postcode=&address= lists the council's properties at the postcode, narrowed to
+ * those matching the address when one is given.
+ */
+export async function findProperties(dependencies: LookupDependencies, query: QueryParameters): Promise<PropertiesResponse> {
+    const postCode: string = requirePostcode(query);
+    const addressLine1: string = query.address ? parseAddress(query.address) : "";
+
+    const address = new ShortAddress(addressLine1, postCode);
+    const candidates: PropertyCandidate[] = await findPropertyCandidates(dependencies, address);
+    const matches: PropertyCandidate[] = addressLine1 ? findMatchingCandidates(address, candidates) : candidates;
+
+    return {
+        properties: matches.map(candidate => ({ uprn: candidate.propertyId, address: candidate.displayAddress }))
+    };
+}
+
+/**
+ * GET /properties/{uprn}/collections?postcode=&address=&from=&to= lists the property's collections
+ * between the dates, grouped by date, with the usual date of any that have moved. The postcode and address
+ * pick the council and the stored data.
+ */
+export async function findCollections(dependencies: LookupDependencies, propertyId: string,
+                                      query: QueryParameters): Promise<CollectionsResponse> {
+    requirePropertyId(propertyId);
+
+    const address = new ShortAddress(parseAddress(query.address), requirePostcode(query));
+
+    const today: moment.Moment = localToday(DEFAULT_TIME_ZONE);
+    const from: moment.Moment = query.from ? parseApiDate("from", query.from) : today;
+    const to: moment.Moment = query.to ? parseApiDate("to", query.to) : from.clone().add(DEFAULT_WINDOW_DAYS, 'day');
+
+    if (to.isBefore(from)) {
+        throw new InvalidRequestError("to must not be before from");
+    }
+
+    if (to.diff(from, 'day') > MAX_WINDOW_DAYS) {
+        throw new InvalidRequestError("from and to must be no more than " + MAX_WINDOW_DAYS + " days apart");
+    }
+
+    const propertyData: PropertyData = await obtainPropertyDataForProperty(dependencies, address, propertyId);
+    const groups: BinCollectionGroup[] = findCollectionsBetween(propertyData, from, to);
+
+    return {
+        uprn: propertyId,
+        from: from.format(API_DATE_FORMAT),
+        to: to.format(API_DATE_FORMAT),
+        collections: groups.map(group => ({
+            date: parseCollectionDate(group.collectionDate).format(API_DATE_FORMAT),
+            bins: group.binTypes.map(binType => describeBinType(binType)),
+            ...(group.rescheduling !== null ? { usualDate: parseCollectionDate(group.rescheduling.usualDate).format(API_DATE_FORMAT) } : {}),
+            ...(group.predicted ? { predicted: true } : {})
+        }))
+    };
+}
+
+/**
+ * GET /properties/{uprn}/collections.ics?postcode=&address=&alarm=&locale= renders every stored collection as
+ * an iCalendar feed, with an alarm at the alarm time (HH:mm) the evening before each if one is given.
+ */
+export async function findCollectionCalendar(dependencies: LookupDependencies, propertyId: string, query: QueryParameters): Promise<string> {
+    requirePropertyId(propertyId);
+
+    const address = new ShortAddress(parseAddress(query.address), requirePostcode(query));
+
+    if (query.alarm && !moment.utc(query.alarm, ALARM_TIME_FORMAT, true).isValid()) {
+        throw new InvalidRequestError("alarm must be a time in " + ALARM_TIME_FORMAT + " format");
+    }
+
+    const propertyData: PropertyData = await obtainPropertyDataForProperty(dependencies, address, propertyId);
+
+    return buildCalendarFeed(propertyData, translatorFor(query.locale), moment.utc(), query.alarm || null);
+}
+
+function requirePropertyId(propertyId: string): void {
+    if (!PROPERTY_ID_PATTERN.test(propertyId || "")) {
+        throw new InvalidRequestError("uprn must be up to 32 letters, digits or dashes");
+    }
+}
+
+function requirePostcode(query: QueryParameters): string {
+    if (!query.postcode) {
+        throw new InvalidRequestError("postcode is required");
+    }
+
+    const postCode: string = parsePostcode(query.postcode);
+    if (postCode === null) {
+        throw new InvalidRequestError("postcode is not a valid UK postcode");
+    }
+
+    return postCode;
+}
+
+function parseAddress(address: string): string {
+    const addressLine1: string = (address || "").trim().toUpperCase();
+    if (addressLine1.length === 0 || addressLine1.length > MAX_ADDRESS_LENGTH) {
+        throw new InvalidRequestError("address must be between 1 and " + MAX_ADDRESS_LENGTH + " characters");
+    }
+
+    return addressLine1;
+}
+
+function parseApiDate(name: string, value: string): moment.Moment {
+    const date: moment.Moment = moment.utc(value, API_DATE_FORMAT, true);
+    if (!date.isValid()) {
+        throw new InvalidRequestError(name + " must be a date in " + API_DATE_FORMAT + " format");
+    }
+
+    return date;
+}
+
+function describeBinType(binType: BinType): CollectionBin {
+    return { id: binType.id, name: binType.spokenName, colour: binType.colour, materialStream: binType.materialStream };
+}
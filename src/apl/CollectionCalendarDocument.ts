@@ -0,0 +1,85 @@
+/**
+ * APL document for the collection calendar. It expects the datasource built by
+ * CollectionCalendar.buildCollectionCalendarDatasource under the name "calendar".
+ */
+export const COLLECTION_CALENDAR_DOCUMENT = {
+    type: "APL",
+    version: "1.6",
+    theme: "dark",
+    graphics: {
+        binIcon: {
+            type: "AVG",
+            version: "1.2",
+            width: 48,
+            height: 64,
+            parameters: [
+                { name: "binColour", type: "color", default: "#9E9E9E" }
+            ],
+            items: [
+                { type: "path", pathData: "M2,6 L46,6 L46,13 L2,13 Z", fill: "${binColour}", stroke: "#FFFFFF", strokeWidth: 1 },
+                { type: "path", pathData: "M6,13 L42,13 L38,62 L10,62 Z", fill: "${binColour}", stroke: "#FFFFFF", strokeWidth: 1 }
+            ]
+        }
+    },
+    mainTemplate: {
+        parameters: ["calendar"],
+        items: [{
+            type: "Container",
+            width: "100vw",
+            height: "100vh",
+            paddingLeft: "@marginHorizontal",
+            paddingRight: "@marginHorizontal",
+            paddingTop: 32,
+            items: [
+                {
+                    type: "Text",
+                    text: "${calendar.title}",
+                    style: "textStyleDisplay4",
+                    paddingBottom: 16
+                },
+                {
+                    type: "Sequence",
+                    grow: 1,
+                    data: "${calendar.days}",
+                    items: [{
+                        type: "Frame",
+                        backgroundColor: "${data.highlighted ? '#1F4E79' : 'transparent'}",
+                        borderRadius: 8,
+                        paddingTop: 8,
+                        paddingBottom: 8,
+                        paddingLeft: 16,
+                        item: {
+                            type: "Container",
+                            direction: "row",
+                            alignItems: "center",
+                            items: [
+                                {
+                                    type: "Text",
+                                    text: "${data.label}",
+                                    style: "textStyleBody",
+                                    fontWeight: "${data.highlighted ? 'bold' : 'normal'}",
+                                    width: "35vw"
+                                },
+                                {
+                                    type: "Container",
+                                    direction: "row",
+                                    data: "${data.bins}",
+                                    items: [{
+                                        type: "Container",
+                                        direction: "row",
+                                        alignItems: "center",
+                                        paddingRight: 24,
+                                        items: [
+                                            { type: "VectorGraphic", source: "binIcon", binColour: "${data.colour}", width: 36, height: 48 },
+                                            { type: "Text", text: "${data.name}", style: "textStyleCallout", paddingLeft: 8 }
+                                        ]
+                                    }]
+                                }
+                            ]
+                        }
+                    }]
+                }
+            ]
+        }]
+    }
+};
@@ -0,0 +1,240 @@
+#!/usr/bin/env node
+import * as moment from 'moment';
+import { PropertyData } from '../models/PropertyData';
+import { BinCollectionData } from '../models/BinCollectionData';
+import { ShortAddress } from "../models/ShortAddress";
+import { CouncilProvider } from "../handlers/business-logic/CouncilProvider";
+import { buildCouncilProviderRegistry } from "../handlers/business-logic/CouncilProviderRegistry";
+import { HttpClient } from "../handlers/business-logic/http/HttpClient";
+import { getDefaultHttpClient } from "../handlers/business-logic/http/ResilientHttpClient";
+import { buildBinString } from "../handlers/business-logic/BinCollectionFinder";
+import { DEFAULT_TIME_ZONE, localToday } from "../handlers/business-logic/LocalDates";
+import { parsePostcode } from "../handlers/SetMyAddressIntentHandler";
+import { PropertyRepository } from "../handlers/dao/PropertyRepository";
+import { buildPropertyRepository } from "../handlers/dao/PropertyRepositoryFactory";
+import { assessCachedData, CacheState, loadCachePolicy } from "../handlers/business-logic/CachePolicy";
+import { translatorFor } from "../i18n/Translator";
+import { AmbiguousAddressError } from "../errors/AmbiguousAddressError";
+import { BinCollectionError } from "../errors/BinCollectionError";
+import { UnsupportedAreaError } from "../errors/UnsupportedAreaError";
+
+const USAGE = "Usage: bin-day <postcode> <address line> [--no-cache] [--date YYYY-MM-DD] [--json]";
+
+const CLI_DATE_FORMAT = "YYYY-MM-DD";
+
+
+export interface BinDayOptions {
+    postCode: string;
+    addressLine1: string;
+    noCache: boolean;
+    date: moment.Moment;
+    json: boolean;
+}
+
+export interface RawResponse {
+    uri: string;
+    body: string;
+}
+
+/**
+ * Everything the skill would work out for an address, for support to compare with what a user heard.
+ */
+export interface BinDayReport {
+    postCode: string;
+    addressLine1: string;
+    council: string;
+    uprn: string;
+    cache: CacheState | "miss" | "unavailable" | "skipped";
+    fetchedAt: string;
+    rawResponses: RawResponse[];
+    collections: BinCollectionData[];
+    date: string;
+    speech: string;
+    error: string;
+}
+
+/**
+ * Keeps a copy of every council response so the report can show what the parser was given.
+ */
+class RecordingHttpClient implements HttpClient {
+    readonly responses: RawResponse[] = [];
+    private httpClient: HttpClient;
+
+    constructor(httpClient: HttpClient) {
+        this.httpClient = httpClient;
+    }
+
+    async get(uri: string): Promise<string> {
+        const body: string = await this.httpClient.get(uri);
+        this.responses.push({ uri, body });
+        return body;
+    }
+}
+
+/**
+ * Parses the command line, returning null when it isn't usable.
+ */
+export function parseBinDayArgs(args: string[]): BinDayOptions {
+    const positional: string[] = [];
+    let noCache: boolean = false;
+    let json: boolean = false;
+    let date: moment.Moment = localToday(DEFAULT_TIME_ZONE);
+
+    for (let i = 0; i < args.length; i++) {
+        if (args[i] === "--no-cache") {
+            noCache = true;
+        } else if (args[i] === "--json") {
+            json = true;
+        } else if (args[i] === "--date") {
+            date = moment.utc(args[++i], CLI_DATE_FORMAT, true);
+            if (!date.isValid()) {
+                return null;
+            }
+        } else if (args[i].indexOf("--") === 0) {
+            return null;
+        } else {
+            positional.push(args[i]);
+        }
+    }
+
+    const postCode: string = parsePostcode(positional[0]);
+    const addressLine1: string = positional.slice(1).join(" ").trim().toUpperCase();
+    if (postCode === null || addressLine1.length === 0) {
+        return null;
+    }
+
+    return { postCode, addressLine1, noCache, date, json };
+}
+
+/**
+ * Runs the skill's lookup for the address without storing what it fetches: the stored data if it is
+ * fresh, otherwise the council, reusing the stored property id as the skill does. Reading a legacy item
+ * upgrades it, as for the skill.
+ */
+export async function buildBinDayReport(options: BinDayOptions, httpClient: HttpClient = getDefaultHttpClient(),
+                                        repository: PropertyRepository = buildPropertyRepository()): Promise<BinDayReport> {
+    const address = new ShortAddress(options.addressLine1, options.postCode);
+    const recordingHttpClient = new RecordingHttpClient(httpClient);
+    const report: BinDayReport = {
+        postCode: address.postCode,
+        addressLine1: address.addressLine1,
+        council: null,
+        uprn: null,
+        cache: "skipped",
+        fetchedAt: null,
+        rawResponses: recordingHttpClient.responses,
+        collections: [],
+        date: options.date.format(CLI_DATE_FORMAT),
+        speech: null,
+        error: null
+    };
+
+    try {
+        const councilProvider: CouncilProvider = buildCouncilProviderRegistry(recordingHttpClient).getProviderForAddress(address);
+        if (councilProvider === null) {
+            throw new UnsupportedAreaError(address.postCode);
+        }
+        report.council = councilProvider.name;
+
+        let storedPropertyData: PropertyData = null;
+        if (!options.noCache) {
+            try {
+                storedPropertyData = await repository.getPropertyDataFromDatabase(encodeURIComponent(address.addressLine1), address.postCode, true);
+                report.cache = storedPropertyData === null ? "miss" : assessCachedData(storedPropertyData, loadCachePolicy());
+            } catch (err) {
+                console.error("Unable to read the database", err);
+                report.cache = "unavailable";
+            }
+        }
+
+        let propertyData: PropertyData = storedPropertyData;
+        if (report.cache !== "fresh") {
+            const propertyId: string = storedPropertyData !== null
+                ? storedPropertyData.propertyId
+                : await councilProvider.getPropertyIdFromWebservice(address);
+            propertyData = new PropertyData(encodeURIComponent(address.addressLine1) + ":" + address.postCode, propertyId,
+                await councilProvider.getBinDataFromWebService(propertyId));
+            propertyData.fetchedAt = moment().toISOString();
+        }
+        propertyData.collectionRules = councilProvider.collectionRules || {};
+
+        report.uprn = propertyData.propertyId;
+        report.fetchedAt = propertyData.fetchedAt;
+        report.collections = propertyData.binCollectionData;
+        report.speech = buildBinString(propertyData, options.date, translatorFor("en-GB"));
+    } catch (err) {
+        if (!(err instanceof BinCollectionError)) {
+            throw err;
+        }
+        report.error = describeError(err);
+    }
+
+    return report;
+}
+
+export function formatBinDayReport(report: BinDayReport): string {
+    const lines: string[] = [
+        "Address:     " + report.addressLine1 + ", " + report.postCode,
+        "Council:     " + (report.council || "none"),
+        "UPRN:        " + (report.uprn || "not resolved"),
+        "Cache:       " + report.cache,
+        "Fetched:     " + (report.fetchedAt || "unknown"),
+        "Date:        " + report.date,
+        "Speech:      " + (report.speech || "none"),
+    ];
+
+    if (report.error !== null) {
+        lines.push("Error:       " + report.error);
+    }
+
+    lines.push("", "Parsed collections:");
+    for (const item of report.collections) {
+        lines.push("  " + item.collectionDate + "  " + item.collectionDay + "  " + item.binType
+            + (item.councilLabel ? " (" + item.councilLabel + ")" : ""));
+    }
+
+    lines.push("", "Raw council responses:");
+    if (report.rawResponses.length === 0) {
+        lines.push("  none, answered from the database");
+    }
+    for (const response of report.rawResponses) {
+        lines.push("--- " + response.uri, response.body);
+    }
+
+    return lines.join("\n") + "\n";
+}
+
+/**
+ * Entry point for the bin-day command. Returns the exit status.
+ */
+export async function runBinDay(args: string[], write: (text: string) => void = text => process.stdout.write(text),
+                                httpClient: HttpClient = getDefaultHttpClient(),
+                                repository: PropertyRepository = buildPropertyRepository()): Promise<number> {
+    const options: BinDayOptions = parseBinDayArgs(args);
+    if (options === null) {
+        write(USAGE + "\n");
+        return 2;
+    }
+
+    const report: BinDayReport = await buildBinDayReport(options, httpClient, repository);
+    write(options.json ? JSON.stringify(report, null, 2) + "\n" : formatBinDayReport(report));
+
+    return report.error === null ? 0 : 1;
+}
+
+function describeError(err: BinCollectionError): string {
+    if (err instanceof AmbiguousAddressError) {
+        return err.message + ": " + err.candidates.map(candidate => candidate.propertyId + " " + candidate.displayAddress).join("; ");
+    }
+
+    return err.name + ": " + err.message;
+}
+
+if (require.main === module) {
+    runBinDay(process.argv.slice(2))
+        .then(status => process.exitCode = status)
+        .catch(err => {
+            console.error(err);
+            process.exitCode = 1;
+        });
+}
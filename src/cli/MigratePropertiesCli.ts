@@ -0,0 +1,24 @@
+#!/usr/bin/env node
+import { MigrationSummary, PropertyRepository } from "../handlers/dao/PropertyRepository";
+import { buildPropertyRepository } from "../handlers/dao/PropertyRepositoryFactory";
+
+/**
+ * Entry point for the migrate-properties command, which upgrades every stored item to the current schema
+ * version in one go rather than as each is read. Returns the exit status: 1 if any item couldn't be upgraded.
+ */
+export async function runMigrateProperties(write: (text: string) => void = text => process.stdout.write(text),
+                                           repository: PropertyRepository = buildPropertyRepository()): Promise<number> {
+    const summary: MigrationSummary = await repository.migrateLegacyItems();
+    write(JSON.stringify(summary, null, 2) + "\n");
+
+    return summary.failed === 0 ? 0 : 1;
+}
+
+if (require.main === module) {
+    runMigrateProperties()
+        .then(status => process.exitCode = status)
+        .catch(err => {
+            console.error(err);
+            process.exitCode = 1;
+        });
+}
@@ -0,0 +1,13 @@
+import { BinCollectionError } from "./BinCollectionError";
+
+/**
+ * Thrown when the council has no property or no collections for the address.
+ */
+export class AddressNotFoundError extends BinCollectionError {
+    councilName: string;
+
+    constructor(councilName: string, message: string) {
+        super(message);
+        this.councilName = councilName;
+    }
+}
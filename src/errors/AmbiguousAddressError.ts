@@ -0,0 +1,18 @@
+import { BinCollectionError } from "./BinCollectionError";
+import { PropertyCandidate } from "../models/PropertyCandidate";
+import { ShortAddress } from "../models/ShortAddress";
+
+/**
+ * Thrown when the council has several properties that could be the device address,
+ * so the user needs to choose one.
+ */
+export class AmbiguousAddressError extends BinCollectionError {
+    address: ShortAddress;
+    candidates: PropertyCandidate[];
+
+    constructor(address: ShortAddress, candidates: PropertyCandidate[]) {
+        super(candidates.length + " properties match " + address.addressLine1 + ", " + address.postCode);
+        this.address = address;
+        this.candidates = candidates;
+    }
+}
@@ -0,0 +1,11 @@
+/**
+ * Base class for failures we know how to explain to the user. The message is for the logs only;
+ * each subclass has its own error handler that decides what is spoken.
+ */
+export class BinCollectionError extends Error {
+    constructor(message: string) {
+        super(message);
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = new.target.name;
+    }
+}
@@ -0,0 +1,16 @@
+import { BinCollectionError } from "./BinCollectionError";
+
+/**
+ * Thrown when a council response no longer has the structure we parse, usually because the
+ * council has changed its website. The diagnostics describe what was expected and what was found.
+ */
+export class CouncilFormatChangedError extends BinCollectionError {
+    councilName: string;
+    diagnostics: string[];
+
+    constructor(councilName: string, diagnostics: string[]) {
+        super(councilName + " response format has changed: " + diagnostics.join("; "));
+        this.councilName = councilName;
+        this.diagnostics = diagnostics;
+    }
+}
@@ -0,0 +1,15 @@
+import { BinCollectionError } from "./BinCollectionError";
+
+/**
+ * Thrown when a council website can't be reached or returns an error status.
+ */
+export class CouncilUnreachableError extends BinCollectionError {
+    councilName: string;
+    cause: Error;
+
+    constructor(councilName: string, cause: Error) {
+        super("Unable to reach " + councilName + ": " + (cause ? cause.message : "unknown error"));
+        this.councilName = councilName;
+        this.cause = cause;
+    }
+}
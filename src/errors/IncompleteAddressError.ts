@@ -0,0 +1,10 @@
+import { BinCollectionError } from "./BinCollectionError";
+
+/**
+ * Thrown when the device address is missing the first line or postcode.
+ */
+export class IncompleteAddressError extends BinCollectionError {
+    constructor(addressLine1: string, postCode: string) {
+        super("Address is not complete. Line 1: " + addressLine1 + " Postcode: " + postCode);
+    }
+}
@@ -0,0 +1,10 @@
+import { BinCollectionError } from "./BinCollectionError";
+
+/**
+ * Thrown when an API request's parameters are missing or malformed. The message is safe to return to the caller.
+ */
+export class InvalidRequestError extends BinCollectionError {
+    constructor(message: string) {
+        super(message);
+    }
+}
@@ -0,0 +1,13 @@
+import { BinCollectionError } from "./BinCollectionError";
+
+/**
+ * Thrown when the user hasn't granted a permission the request needs.
+ */
+export class MissingPermissionError extends BinCollectionError {
+    permissions: string[];
+
+    constructor(permissions: string[]) {
+        super("Missing permissions: " + permissions.join(", "));
+        this.permissions = permissions;
+    }
+}
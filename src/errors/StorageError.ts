@@ -0,0 +1,13 @@
+import { BinCollectionError } from "./BinCollectionError";
+
+/**
+ * Thrown when bin data can't be read from or written to the database.
+ */
+export class StorageError extends BinCollectionError {
+    cause: Error;
+
+    constructor(message: string, cause: Error) {
+        super(message + ": " + (cause ? cause.message : "unknown error"));
+        this.cause = cause;
+    }
+}
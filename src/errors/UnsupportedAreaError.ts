@@ -0,0 +1,10 @@
+import { AddressNotFoundError } from "./AddressNotFoundError";
+
+/**
+ * Thrown when no council provider covers the address's postcode.
+ */
+export class UnsupportedAreaError extends AddressNotFoundError {
+    constructor(postCode: string) {
+        super(null, "No council provider registered for postcode " + postCode);
+    }
+}
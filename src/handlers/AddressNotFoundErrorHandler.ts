@@ -0,0 +1,32 @@
+import { HandlerInput, ErrorHandler } from "ask-sdk";
+import { Response } from "ask-sdk-model";
+import { AddressNotFoundError } from "../errors/AddressNotFoundError";
+import { UnsupportedAreaError } from "../errors/UnsupportedAreaError";
+import { getTranslator, Translator } from "../i18n/Translator";
+
+export class AddressNotFoundErrorHandler implements ErrorHandler {
+    canHandle(handlerInput: HandlerInput, error: Error): boolean {
+        return error instanceof AddressNotFoundError;
+    }
+
+    handle(handlerInput: HandlerInput, error: AddressNotFoundError): Response {
+        console.log(`Address not found handled: ${error.message}`);
+
+        const translator: Translator = getTranslator(handlerInput);
+
+        let speechString: string;
+        if (error instanceof UnsupportedAreaError) {
+            speechString = translator.t("errors.unsupportedArea");
+        } else if (error.councilName) {
+            speechString = translator.t("errors.addressNotFoundAtCouncil", { council: error.councilName });
+        } else {
+            speechString = translator.t("errors.addressNotFound");
+        }
+
+        return handlerInput.responseBuilder
+            .speak(speechString)
+            .withSimpleCard(translator.t("cards.addressNotFound"), speechString)
+            .withShouldEndSession(true)
+            .getResponse();
+    }
+}
@@ -0,0 +1,27 @@
+import { HandlerInput, ErrorHandler } from "ask-sdk";
+import { Response } from "ask-sdk-model";
+import { AmbiguousAddressError } from "../errors/AmbiguousAddressError";
+import { askForPropertyChoice, MAX_PROPERTY_CHOICES } from "./ChoosePropertyIntentHandler";
+import { getTranslator, Translator } from "../i18n/Translator";
+
+export class AmbiguousAddressErrorHandler implements ErrorHandler {
+    canHandle(handlerInput: HandlerInput, error: Error): boolean {
+        return error instanceof AmbiguousAddressError;
+    }
+
+    handle(handlerInput: HandlerInput, error: AmbiguousAddressError): Response {
+        console.log(`Ambiguous address handled: ${error.message}`);
+
+        if (error.candidates.length > MAX_PROPERTY_CHOICES) {
+            const translator: Translator = getTranslator(handlerInput);
+            const speechString: string = translator.t("errors.tooManyAddresses");
+            return handlerInput.responseBuilder
+                .speak(speechString)
+                .withSimpleCard(translator.t("cards.addressNotFound"), speechString)
+                .withShouldEndSession(true)
+                .getResponse();
+        }
+
+        return askForPropertyChoice(handlerInput, { address: error.address, candidates: error.candidates });
+    }
+}
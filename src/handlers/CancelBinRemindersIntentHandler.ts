@@ -0,0 +1,30 @@
+import { HandlerInput, RequestHandler } from "ask-sdk";
+import { IntentRequest, Response } from "ask-sdk-model";
+import { cancelBinReminders, requireReminderPermission } from "./business-logic/BinReminders";
+import { getTranslator, Translator } from "../i18n/Translator";
+
+export class CancelBinRemindersIntentHandler implements RequestHandler {
+    canHandle(handlerInput: HandlerInput): boolean {
+        const request = handlerInput.requestEnvelope.request;
+        return request.type === 'IntentRequest'
+            && (request as IntentRequest).intent.name === 'CancelBinRemindersIntent';
+    }
+
+    async handle(handlerInput: HandlerInput): Promise<Response> {
+        requireReminderPermission(handlerInput);
+
+        const reminderClient = handlerInput.serviceClientFactory.getReminderManagementServiceClient();
+        const cancelled: number = await cancelBinReminders(reminderClient);
+
+        const translator: Translator = getTranslator(handlerInput);
+        const speechString: string = cancelled === 0
+            ? translator.t("reminders.noneToCancel")
+            : translator.plural("reminders.cancelled", cancelled);
+        console.info("Responding with:" + speechString);
+
+        return handlerInput.responseBuilder
+            .speak(speechString)
+            .withShouldEndSession(true)
+            .getResponse();
+    }
+}
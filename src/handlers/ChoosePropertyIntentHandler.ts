@@ -0,0 +1,119 @@
+import { HandlerInput, RequestHandler, getSlotValue } from "ask-sdk";
+import { IntentRequest, Response } from "ask-sdk-model";
+import { PropertyData } from '../models/PropertyData';
+import { PropertyCandidate } from '../models/PropertyCandidate';
+import { ShortAddress } from "../models/ShortAddress";
+import { storeChosenProperty, storeUserAddress } from "./business-logic/PropertyLookup";
+import { LookupDependencies } from "./business-logic/LookupDependencies";
+import { refreshBinReminders } from "./business-logic/BinReminders";
+import { buildBinString } from "./business-logic/BinCollectionFinder";
+import { findDeviceTimeZone } from "./business-logic/DeviceSettings";
+import { localToday } from "./business-logic/LocalDates";
+import { getTranslator, Translator } from "../i18n/Translator";
+
+const CHOICE_SLOT = "choice";
+
+/** Session attribute holding the properties offered to the user, set by AmbiguousAddressErrorHandler. */
+export const PENDING_PROPERTY_CHOICE = "pendingPropertyChoice";
+
+export const MAX_PROPERTY_CHOICES = 5;
+
+export interface PendingPropertyChoice {
+    address: ShortAddress;
+    candidates: PropertyCandidate[];
+    /** Set when the user is setting up their address by voice, so the choice is stored against them. */
+    userId?: string;
+}
+
+export class ChoosePropertyIntentHandler implements RequestHandler {
+    private dependencies: LookupDependencies;
+
+    constructor(dependencies: LookupDependencies) {
+        this.dependencies = dependencies;
+    }
+
+    canHandle(handlerInput: HandlerInput): boolean {
+        const request = handlerInput.requestEnvelope.request;
+        return request.type === 'IntentRequest'
+            && (request as IntentRequest).intent.name === 'ChoosePropertyIntent';
+    }
+
+    async handle(handlerInput: HandlerInput): Promise<Response> {
+        const translator: Translator = getTranslator(handlerInput);
+        const pendingChoice: PendingPropertyChoice = handlerInput.attributesManager.getSessionAttributes()[PENDING_PROPERTY_CHOICE];
+
+        if (!pendingChoice) {
+            const speechString: string = translator.t("address.unexpectedChoice");
+            return handlerInput.responseBuilder
+                .speak(speechString)
+                .withShouldEndSession(true)
+                .getResponse();
+        }
+
+        const choice: number = parseInt(getSlotValue(handlerInput.requestEnvelope, CHOICE_SLOT), 10);
+
+        if (!(choice >= 1 && choice <= pendingChoice.candidates.length)) {
+            const repromptString: string = buildPropertyChoiceString(pendingChoice.candidates, translator);
+            return handlerInput.responseBuilder
+                .speak(translator.t("address.invalidChoice", { reprompt: repromptString }))
+                .reprompt(repromptString)
+                .getResponse();
+        }
+
+        const chosenCandidate: PropertyCandidate = pendingChoice.candidates[choice - 1];
+        console.log("User chose property " + chosenCandidate.propertyId + ": " + chosenCandidate.displayAddress);
+
+        const address = new ShortAddress(pendingChoice.address.addressLine1, pendingChoice.address.postCode);
+        const onRefresh = (refreshedData: PropertyData) => refreshBinReminders(handlerInput, refreshedData);
+        const propertyData: PropertyData = pendingChoice.userId
+            ? await storeUserAddress(this.dependencies, pendingChoice.userId, address, chosenCandidate.propertyId, onRefresh)
+            : await storeChosenProperty(this.dependencies, address, chosenCandidate.propertyId, onRefresh);
+
+        handlerInput.attributesManager.setSessionAttributes({});
+
+        const speechString: string = translator.t("address.choiceRemembered",
+            { collection: buildBinString(propertyData, localToday(await findDeviceTimeZone(handlerInput)), translator) });
+
+        return handlerInput.responseBuilder
+            .speak(speechString)
+            .withSimpleCard(translator.t("cards.nextCollection"), speechString)
+            .withShouldEndSession(true)
+            .getResponse();
+    }
+}
+
+/**
+ * Reads out the candidates and keeps the session open for a ChoosePropertyIntent.
+ */
+export function askForPropertyChoice(handlerInput: HandlerInput, pendingChoice: PendingPropertyChoice): Response {
+    handlerInput.attributesManager.setSessionAttributes({ [PENDING_PROPERTY_CHOICE]: pendingChoice });
+
+    const translator: Translator = getTranslator(handlerInput);
+    const repromptString: string = buildPropertyChoiceString(pendingChoice.candidates, translator);
+
+    return handlerInput.responseBuilder
+        .speak(translator.plural("address.foundSeveral", pendingChoice.candidates.length, { reprompt: repromptString }))
+        .reprompt(repromptString)
+        .getResponse();
+}
+
+export function buildPropertyChoiceString(candidates: PropertyCandidate[], translator: Translator): string {
+    const options: string[] = candidates.map((candidate, index) =>
+        translator.t("address.propertyOption", { number: index + 1, address: formatCandidateAddress(candidate) }));
+
+    return translator.plural("address.whichProperty", candidates.length,
+        { options: options.join(translator.t("address.propertyOptionSeparator")) });
+}
+
+/**
+ * Speaks the part of the council's address that tells the candidates apart, leaving off the postcode
+ * and reading words rather than capitals.
+ */
+export function formatCandidateAddress(candidate: PropertyCandidate): string {
+    const parts: string[] = candidate.displayAddress.split(",").map(part => part.trim()).filter(part => part.length > 0);
+    const withoutPostCode: string[] = parts.length > 1 && /\d[A-Z]{2}$/i.test(parts[parts.length - 1])
+        ? parts.slice(0, -1)
+        : parts;
+
+    return withoutPostCode.join(", ").toLowerCase().replace(/\b[a-z]/g, letter => letter.toUpperCase());
+}
@@ -0,0 +1,32 @@
+import { HandlerInput, RequestHandler } from "ask-sdk";
+import { IntentRequest, Response } from "ask-sdk-model";
+import { clearUserAddress } from "./business-logic/PropertyLookup";
+import { LookupDependencies } from "./business-logic/LookupDependencies";
+import { getTranslator, Translator } from "../i18n/Translator";
+
+export class ClearMyAddressIntentHandler implements RequestHandler {
+    private dependencies: LookupDependencies;
+
+    constructor(dependencies: LookupDependencies) {
+        this.dependencies = dependencies;
+    }
+
+    canHandle(handlerInput: HandlerInput): boolean {
+        const request = handlerInput.requestEnvelope.request;
+        return request.type === 'IntentRequest'
+            && (request as IntentRequest).intent.name === 'ClearMyAddressIntent';
+    }
+
+    async handle(handlerInput: HandlerInput): Promise<Response> {
+        await clearUserAddress(this.dependencies, handlerInput.requestEnvelope.context.System.user.userId);
+
+        const translator: Translator = getTranslator(handlerInput);
+        const speechString: string = translator.t("address.cleared");
+
+        return handlerInput.responseBuilder
+            .speak(speechString)
+            .withSimpleCard(translator.t("cards.addressCleared"), speechString)
+            .withShouldEndSession(true)
+            .getResponse();
+    }
+}
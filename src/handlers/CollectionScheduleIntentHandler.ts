@@ -0,0 +1,152 @@
+import { HandlerInput, RequestHandler, getSlotValue } from "ask-sdk";
+import { IntentRequest, Response } from "ask-sdk-model";
+import * as moment from 'moment';
+import { PropertyData } from '../models/PropertyData';
+import { BinCollectionGroup } from '../models/BinCollectionGroup';
+import { ShortAddress } from "../models/ShortAddress";
+import { findAddress, obtainPropertyData } from "./business-logic/PropertyLookup";
+import { LookupDependencies } from "./business-logic/LookupDependencies";
+import { refreshBinReminders } from "./business-logic/BinReminders";
+import { findCollectionsBetween, parseCollectionDate } from "./business-logic/BinCollectionFinder";
+import { findDeviceTimeZone } from "./business-logic/DeviceSettings";
+import { localToday } from "./business-logic/LocalDates";
+import { addCollectionDisplay } from "./business-logic/CollectionCalendar";
+import { addCalendarFeedLink } from "./business-logic/CalendarFeed";
+import { getTranslator, Translator } from "../i18n/Translator";
+
+const DURATION_SLOT = "duration";
+
+const PERIOD_SLOT = "period";
+
+const DEFAULT_WINDOW_DAYS = 14;
+
+const MAX_WINDOW_DAYS = 62;
+
+export class CollectionWindow {
+    from: moment.Moment;
+    to: moment.Moment;
+
+    constructor(from: moment.Moment, to: moment.Moment) {
+        this.from = from;
+        this.to = to;
+    }
+}
+
+export class CollectionScheduleIntentHandler implements RequestHandler {
+    private dependencies: LookupDependencies;
+
+    constructor(dependencies: LookupDependencies) {
+        this.dependencies = dependencies;
+    }
+
+    canHandle(handlerInput: HandlerInput): boolean {
+        const request = handlerInput.requestEnvelope.request;
+        return request.type === 'IntentRequest'
+            && (request as IntentRequest).intent.name === 'CollectionScheduleIntent';
+    }
+
+    async handle(handlerInput: HandlerInput): Promise<Response> {
+        const address: ShortAddress = await findAddress(this.dependencies, handlerInput);
+
+        const propertyData: PropertyData = await obtainPropertyData(this.dependencies, address,
+            refreshedData => refreshBinReminders(handlerInput, refreshedData));
+
+        const translator: Translator = getTranslator(handlerInput);
+        const today: moment.Moment = localToday(await findDeviceTimeZone(handlerInput));
+        const collectionWindow: CollectionWindow = parseCollectionWindow(
+            getSlotValue(handlerInput.requestEnvelope, DURATION_SLOT),
+            getSlotValue(handlerInput.requestEnvelope, PERIOD_SLOT),
+            today);
+
+        const groups: BinCollectionGroup[] = findCollectionsBetween(propertyData, collectionWindow.from, collectionWindow.to);
+
+        const speechString: string = buildScheduleString(groups, translator);
+
+        return addCollectionDisplay(handlerInput, propertyData, today, translator.t("cards.upcomingCollections"),
+            addCalendarFeedLink(buildScheduleCard(groups, translator), address, propertyData, translator))
+            .speak(speechString)
+            .withShouldEndSession(true)
+            .getResponse();
+    }
+}
+
+/**
+ * Works out the dates to report on from either an AMAZON.DURATION ("next three weeks") or an
+ * AMAZON.DATE ("this week", "next month") slot value. Windows never start before today and are
+ * capped so we don't read out months of collections. today is a calendar date from LocalDates.
+ */
+export function parseCollectionWindow(duration: string, period: string, today: moment.Moment): CollectionWindow {
+    let from: moment.Moment = today.clone();
+    let to: moment.Moment = today.clone().add(DEFAULT_WINDOW_DAYS, 'day');
+
+    if (duration && moment.duration(duration).asDays() > 0) {
+        to = today.clone().add(moment.duration(duration));
+    } else if (period) {
+        const week = moment.utc(period, "GGGG-[W]WW", true);
+        const weekend = moment.utc(period, "GGGG-[W]WW-[WE]", true);
+        const month = moment.utc(period, "YYYY-MM", true);
+        const day = moment.utc(period, "YYYY-MM-DD", true);
+
+        if (weekend.isValid()) {
+            from = weekend.clone().add(5, 'day');
+            to = from.clone().add(1, 'day');
+        } else if (week.isValid()) {
+            from = week;
+            to = week.clone().endOf('isoWeek');
+        } else if (month.isValid()) {
+            from = month;
+            to = month.clone().endOf('month');
+        } else if (day.isValid()) {
+            from = day;
+            to = day.clone();
+        } else {
+            console.log("Unsupported period slot value: " + period + ", using default window");
+        }
+    }
+
+    if (from.isBefore(today)) {
+        from = today.clone();
+    }
+
+    if (to.diff(from, 'day') > MAX_WINDOW_DAYS) {
+        to = from.clone().add(MAX_WINDOW_DAYS, 'day');
+    }
+
+    return new CollectionWindow(from, to);
+}
+
+export function buildScheduleString(groups: BinCollectionGroup[], translator: Translator): string {
+    let returnString: string;
+
+    if (groups.length === 0) {
+        returnString = translator.t("schedule.none");
+    } else {
+        const parts: string[] = groups.map(group => translator.t(group.predicted ? "schedule.probableItem" : "schedule.item", {
+            bins: translator.list(group.binTypes.map(binType => translator.binName(binType))),
+            date: formatGroupDate(group, translator)
+        }) + (group.collectedAlone.length > 0
+            ? translator.t("schedule.separately", { bins: translator.describeBins(group.collectedAlone) })
+            : ""));
+        returnString = translator.t("schedule.summary", { collections: parts.join(translator.t("schedule.then")) });
+    }
+
+    console.info("Responding with:" + returnString);
+
+    return returnString;
+}
+
+export function buildScheduleCard(groups: BinCollectionGroup[], translator: Translator): string {
+    if (groups.length === 0) {
+        return translator.t("schedule.cardNone");
+    }
+
+    return groups.map(group => translator.t(group.predicted ? "schedule.cardProbableItem" : "schedule.cardItem", {
+        date: formatGroupDate(group, translator),
+        bins: group.binTypes.map(binType => translator.binName(binType)
+            + (group.collectedAlone.indexOf(binType) !== -1 ? translator.t("schedule.cardSeparately") : "")).join(", ")
+    })).join("\n");
+}
+
+function formatGroupDate(group: BinCollectionGroup, translator: Translator): string {
+    return translator.formatDate(parseCollectionDate(group.collectionDate), "dayOfMonth");
+}
@@ -0,0 +1,26 @@
+import { HandlerInput, ErrorHandler } from "ask-sdk";
+import { Response } from "ask-sdk-model";
+import { CouncilFormatChangedError } from "../errors/CouncilFormatChangedError";
+import { getTranslator, Translator } from "../i18n/Translator";
+
+export class CouncilFormatChangedErrorHandler implements ErrorHandler {
+    canHandle(handlerInput: HandlerInput, error: Error): boolean {
+        return error instanceof CouncilFormatChangedError;
+    }
+
+    handle(handlerInput: HandlerInput, error: CouncilFormatChangedError): Response {
+        console.error(`Council format changed handled: ${error.councilName}`);
+        for (const diagnostic of error.diagnostics) {
+            console.error(`Format diagnostic: ${diagnostic}`);
+        }
+
+        const translator: Translator = getTranslator(handlerInput);
+        const speechString: string = translator.t("errors.councilFormatChanged", { council: error.councilName });
+
+        return handlerInput.responseBuilder
+            .speak(speechString)
+            .withSimpleCard(translator.t("cards.temporarilyUnavailable"), speechString)
+            .withShouldEndSession(true)
+            .getResponse();
+    }
+}
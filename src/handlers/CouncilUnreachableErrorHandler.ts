@@ -0,0 +1,23 @@
+import { HandlerInput, ErrorHandler } from "ask-sdk";
+import { Response } from "ask-sdk-model";
+import { CouncilUnreachableError } from "../errors/CouncilUnreachableError";
+import { getTranslator, Translator } from "../i18n/Translator";
+
+export class CouncilUnreachableErrorHandler implements ErrorHandler {
+    canHandle(handlerInput: HandlerInput, error: Error): boolean {
+        return error instanceof CouncilUnreachableError;
+    }
+
+    handle(handlerInput: HandlerInput, error: CouncilUnreachableError): Response {
+        console.error(`Council unreachable handled: ${error.message}`, error.cause);
+
+        const translator: Translator = getTranslator(handlerInput);
+        const speechString: string = translator.t("errors.councilUnreachable", { council: error.councilName });
+
+        return handlerInput.responseBuilder
+            .speak(speechString)
+            .withSimpleCard(translator.t("cards.councilUnavailable"), speechString)
+            .withShouldEndSession(true)
+            .getResponse();
+    }
+}
@@ -1,5 +1,6 @@
 import { HandlerInput, ErrorHandler } from "ask-sdk";
 import { Response } from "ask-sdk-model";
+import { getTranslator, Translator } from "../i18n/Translator";
 
 export class GenericErrorHandler implements ErrorHandler {
     canHandle(handlerInput: HandlerInput): boolean {
@@ -12,10 +13,14 @@ export class GenericErrorHandler implements ErrorHandler {
         console.log(`Error handled: ${error.message}`);
         console.log(`Original Request was: ${JSON.stringify(request, null, 2)}`);
 
+        // Never speak error.message: it may be a raw SDK or network message.
+        const translator: Translator = getTranslator(handlerInput);
+        const speechString: string = translator.t("errors.generic");
+
         return handlerInput.responseBuilder
-            .speak('Something went wrong. ' + error.message)
-            .withSimpleCard('Bin Collection Cheshire East', error.message)
+            .speak(speechString)
+            .withSimpleCard(translator.t("cards.generic"), speechString)
             .withShouldEndSession(true)
             .getResponse();
-    }   
-}
\ No newline at end of file
+    }
+}
@@ -0,0 +1,23 @@
+import { HandlerInput, ErrorHandler } from "ask-sdk";
+import { Response } from "ask-sdk-model";
+import { IncompleteAddressError } from "../errors/IncompleteAddressError";
+import { getTranslator, Translator } from "../i18n/Translator";
+
+export class IncompleteAddressErrorHandler implements ErrorHandler {
+    canHandle(handlerInput: HandlerInput, error: Error): boolean {
+        return error instanceof IncompleteAddressError;
+    }
+
+    handle(handlerInput: HandlerInput, error: IncompleteAddressError): Response {
+        console.log(`Incomplete address handled: ${error.message}`);
+
+        const translator: Translator = getTranslator(handlerInput);
+        const speechString: string = translator.t("errors.incompleteAddress");
+
+        return handlerInput.responseBuilder
+            .speak(speechString)
+            .withSimpleCard(translator.t("cards.addressNeeded"), speechString)
+            .withShouldEndSession(true)
+            .getResponse();
+    }
+}
@@ -0,0 +1,47 @@
+import { HandlerInput, RequestHandler } from "ask-sdk";
+import { IntentRequest, Response, services } from "ask-sdk-model";
+import * as moment from 'moment';
+import { findBinReminders, requireReminderPermission } from "./business-logic/BinReminders";
+import { getTranslator, Translator } from "../i18n/Translator";
+
+export class ListBinRemindersIntentHandler implements RequestHandler {
+    canHandle(handlerInput: HandlerInput): boolean {
+        const request = handlerInput.requestEnvelope.request;
+        return request.type === 'IntentRequest'
+            && (request as IntentRequest).intent.name === 'ListBinRemindersIntent';
+    }
+
+    async handle(handlerInput: HandlerInput): Promise<Response> {
+        requireReminderPermission(handlerInput);
+
+        const reminderClient = handlerInput.serviceClientFactory.getReminderManagementServiceClient();
+        const reminders: services.reminderManagement.Reminder[] = await findBinReminders(reminderClient);
+        const translator: Translator = getTranslator(handlerInput);
+
+        if (reminders.length === 0) {
+            return handlerInput.responseBuilder
+                .speak(translator.t("reminders.noneSet"))
+                .withShouldEndSession(true)
+                .getResponse();
+        }
+
+        const speechString: string = translator.plural("reminders.summary", reminders.length,
+            { time: formatReminderTime(reminders[0], translator) });
+        console.info("Responding with:" + speechString);
+
+        const cardString: string = reminders
+            .map(reminder => translator.t("reminders.cardItem",
+                { time: formatReminderTime(reminder, translator), text: reminder.alertInfo.spokenInfo.content[0].text }))
+            .join("\n");
+
+        return handlerInput.responseBuilder
+            .speak(speechString)
+            .withSimpleCard(translator.t("cards.reminders"), cardString)
+            .withShouldEndSession(true)
+            .getResponse();
+    }
+}
+
+function formatReminderTime(reminder: services.reminderManagement.Reminder, translator: Translator): string {
+    return translator.formatDate(moment(reminder.trigger.scheduledTime), "dateTime");
+}
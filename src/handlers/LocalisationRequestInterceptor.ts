@@ -0,0 +1,13 @@
+import { HandlerInput, RequestInterceptor } from "ask-sdk";
+import { TRANSLATOR_ATTRIBUTE, translatorFor } from "../i18n/Translator";
+
+/**
+ * Picks the wording for the request's locale before any handler runs, so error handlers speak it too.
+ */
+export class LocalisationRequestInterceptor implements RequestInterceptor {
+    process(handlerInput: HandlerInput): void {
+        const requestAttributes = handlerInput.attributesManager.getRequestAttributes();
+        requestAttributes[TRANSLATOR_ATTRIBUTE] = translatorFor(handlerInput.requestEnvelope.request.locale);
+        handlerInput.attributesManager.setRequestAttributes(requestAttributes);
+    }
+}
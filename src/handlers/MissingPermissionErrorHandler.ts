@@ -0,0 +1,25 @@
+import { HandlerInput, ErrorHandler } from "ask-sdk";
+import { Response } from "ask-sdk-model";
+import { MissingPermissionError } from "../errors/MissingPermissionError";
+import { REMINDER_PERMISSIONS } from "./business-logic/BinReminders";
+import { getTranslator } from "../i18n/Translator";
+
+export class MissingPermissionErrorHandler implements ErrorHandler {
+    canHandle(handlerInput: HandlerInput, error: Error): boolean {
+        return error instanceof MissingPermissionError;
+    }
+
+    handle(handlerInput: HandlerInput, error: MissingPermissionError): Response {
+        console.log(`Missing permission handled: ${error.message}`);
+
+        const speechString: string = getTranslator(handlerInput).t(error.permissions.indexOf(REMINDER_PERMISSIONS[0]) !== -1
+            ? "errors.reminderPermission"
+            : "errors.addressPermission");
+
+        return handlerInput.responseBuilder
+            .speak(speechString)
+            .withAskForPermissionsConsentCard(error.permissions)
+            .withShouldEndSession(true)
+            .getResponse();
+    }
+}
@@ -0,0 +1,127 @@
+import { HandlerInput, RequestHandler, getSlot } from "ask-sdk";
+import { IntentRequest, Response, Slot } from "ask-sdk-model";
+import * as moment from 'moment';
+import { PropertyData } from '../models/PropertyData';
+import { BinCollectionData } from '../models/BinCollectionData';
+import { BinType } from '../models/BinType';
+import { ShortAddress } from "../models/ShortAddress";
+import { findAddress, obtainPropertyData } from "./business-logic/PropertyLookup";
+import { LookupDependencies } from "./business-logic/LookupDependencies";
+import { refreshBinReminders } from "./business-logic/BinReminders";
+import { buildCollectionDueString, findNextCollectionOfType } from "./business-logic/BinCollectionFinder";
+import { findRescheduling } from "./business-logic/CollectionPattern";
+import { findBinType } from "./business-logic/BinTypeCatalogue";
+import { findDeviceTimeZone } from "./business-logic/DeviceSettings";
+import { localToday } from "./business-logic/LocalDates";
+import { getTranslator, Translator } from "../i18n/Translator";
+
+const BIN_TYPE_SLOT = "binType";
+
+const BIN_TYPE_SYNONYMS: { [spoken: string]: string } = {
+    "black": "Black",
+    "general": "Black",
+    "general waste": "Black",
+    "rubbish": "Black",
+    "silver": "Silver",
+    "recycling": "Silver",
+    "mixed recycling": "Silver",
+    "green": "Green",
+    "garden": "Green",
+    "garden waste": "Green",
+    "food": "Food",
+    "food waste": "Food",
+    "caddy": "Food",
+    "food caddy": "Food",
+    "glass": "Glass",
+    "bottles": "Glass",
+    "bulky": "Bulky",
+    "bulky waste": "Bulky"
+};
+
+export class NextBinOfTypeIntentHandler implements RequestHandler {
+    private dependencies: LookupDependencies;
+
+    constructor(dependencies: LookupDependencies) {
+        this.dependencies = dependencies;
+    }
+
+    canHandle(handlerInput: HandlerInput): boolean {
+        const request = handlerInput.requestEnvelope.request;
+        return request.type === 'IntentRequest'
+            && (request as IntentRequest).intent.name === 'NextBinOfTypeIntent';
+    }
+
+    async handle(handlerInput: HandlerInput): Promise<Response> {
+        const translator: Translator = getTranslator(handlerInput);
+        const binType: BinType = parseBinTypeSlot(getSlot(handlerInput.requestEnvelope, BIN_TYPE_SLOT));
+
+        if (binType === null) {
+            const repromptString: string = translator.t("collection.whichBin");
+            return handlerInput.responseBuilder
+                .speak(translator.t("collection.binNotUnderstood", { reprompt: repromptString }))
+                .reprompt(repromptString)
+                .getResponse();
+        }
+
+        const address: ShortAddress = await findAddress(this.dependencies, handlerInput);
+
+        const propertyData: PropertyData = await obtainPropertyData(this.dependencies, address,
+            refreshedData => refreshBinReminders(handlerInput, refreshedData));
+
+        const speechString: string = buildBinOfTypeString(propertyData, binType,
+            localToday(await findDeviceTimeZone(handlerInput)), translator);
+
+        return handlerInput.responseBuilder
+            .speak(speechString)
+            .withSimpleCard(translator.t("cards.nextCollectionOfType", { bin: translator.binName(binType) }), speechString)
+            .withShouldEndSession(true)
+            .getResponse();
+    }
+}
+
+/**
+ * Resolves the bin type slot to a BinTypeCatalogue entry, preferring the entity resolution match
+ * and falling back to the raw spoken value.
+ */
+export function parseBinTypeSlot(slot: Slot): BinType {
+    if (!slot) {
+        return null;
+    }
+
+    const resolutions = slot.resolutions && slot.resolutions.resolutionsPerAuthority;
+    if (resolutions) {
+        for (const resolution of resolutions) {
+            if (resolution.status.code === 'ER_SUCCESS_MATCH' && resolution.values.length > 0) {
+                const resolved = BIN_TYPE_SYNONYMS[resolution.values[0].value.name.toLowerCase()];
+                if (resolved) {
+                    return findBinType(resolved);
+                }
+            }
+        }
+    }
+
+    if (slot.value) {
+        const spokenValue: string = slot.value.toLowerCase().replace(/ bin$/, "");
+        return BIN_TYPE_SYNONYMS[spokenValue] ? findBinType(BIN_TYPE_SYNONYMS[spokenValue]) : null;
+    }
+
+    return null;
+}
+
+export function buildBinOfTypeString(propertyData: PropertyData, binType: BinType, today: moment.Moment, translator: Translator): string {
+    const binCollectionData: BinCollectionData = findNextCollectionOfType(propertyData, binType.id, today);
+
+    let returnString: string;
+    if (binCollectionData !== null) {
+        returnString = buildCollectionDueString([binType], binCollectionData,
+            findRescheduling(binCollectionData.collectionDate, propertyData, binType), today, translator);
+    } else if (binType.materialStream === "garden") {
+        returnString = translator.t("collection.gardenSuspended", { bin: translator.binName(binType) });
+    } else {
+        returnString = translator.t("collection.notFound", { bin: translator.binName(binType) });
+    }
+
+    console.info("Responding with:" + returnString);
+
+    return returnString;
+}
@@ -1,5 +1,6 @@
 import { HandlerInput, RequestHandler } from "ask-sdk";
 import { Response } from "ask-sdk-model";
+import { getTranslator } from "../i18n/Translator";
 
 export class SessionEndedHandler implements RequestHandler {
     canHandle(handlerInput: HandlerInput): boolean {
@@ -10,7 +11,7 @@ export class SessionEndedHandler implements RequestHandler {
     handle(handlerInput: HandlerInput): Response {
         const responseBuilder = handlerInput.responseBuilder;
 
-        return responseBuilder.speak("Unknown bin collection command. Chow.")
+        return responseBuilder.speak(getTranslator(handlerInput).t("errors.unknownCommand"))
             .withShouldEndSession(true)
             .getResponse();
     }   
@@ -0,0 +1,70 @@
+import { HandlerInput, RequestHandler, getSlotValue } from "ask-sdk";
+import { IntentRequest, Response } from "ask-sdk-model";
+import * as moment from 'moment';
+import { PropertyData } from '../models/PropertyData';
+import { ShortAddress } from "../models/ShortAddress";
+import { findAddress, obtainPropertyData } from "./business-logic/PropertyLookup";
+import { LookupDependencies } from "./business-logic/LookupDependencies";
+import { findDeviceTimeZone } from "./business-logic/DeviceSettings";
+import { localNow } from "./business-logic/LocalDates";
+import { parseReminderTime, requireReminderPermission, ReminderSyncResult, syncBinReminders } from "./business-logic/BinReminders";
+import { getTranslator, Translator } from "../i18n/Translator";
+
+const TIME_SLOT = "time";
+
+export class SetBinRemindersIntentHandler implements RequestHandler {
+    private dependencies: LookupDependencies;
+
+    constructor(dependencies: LookupDependencies) {
+        this.dependencies = dependencies;
+    }
+
+    canHandle(handlerInput: HandlerInput): boolean {
+        const request = handlerInput.requestEnvelope.request;
+        return request.type === 'IntentRequest'
+            && (request as IntentRequest).intent.name === 'SetBinRemindersIntent';
+    }
+
+    async handle(handlerInput: HandlerInput): Promise<Response> {
+        requireReminderPermission(handlerInput);
+
+        const translator: Translator = getTranslator(handlerInput);
+        const time: string = parseReminderTime(getSlotValue(handlerInput.requestEnvelope, TIME_SLOT));
+
+        if (time === null) {
+            const repromptString: string = translator.t("reminders.whatTime");
+            return handlerInput.responseBuilder
+                .speak(repromptString)
+                .reprompt(repromptString)
+                .addElicitSlotDirective(TIME_SLOT)
+                .getResponse();
+        }
+
+        const address: ShortAddress = await findAddress(this.dependencies, handlerInput);
+
+        const propertyData: PropertyData = await obtainPropertyData(this.dependencies, address);
+
+        const reminderClient = handlerInput.serviceClientFactory.getReminderManagementServiceClient();
+        const timeZone: string = await findDeviceTimeZone(handlerInput);
+        const result: ReminderSyncResult = await syncBinReminders(reminderClient, propertyData, time,
+            translator, localNow(timeZone), timeZone);
+
+        let speechString: string;
+        if (result.total === 0 && propertyData.binCollectionData.some(binCollectionData => binCollectionData.predicted)) {
+            speechString = translator.t("reminders.onlyPredicted");
+        } else if (result.total === 0) {
+            speechString = translator.t("reminders.noneToSet");
+        } else {
+            speechString = translator.plural("reminders.set", result.total,
+                { time: translator.formatDate(moment.utc(time, "HH:mm"), "time") });
+        }
+
+        console.info("Responding with:" + speechString);
+
+        return handlerInput.responseBuilder
+            .speak(speechString)
+            .withSimpleCard(translator.t("cards.reminders"), speechString)
+            .withShouldEndSession(true)
+            .getResponse();
+    }
+}
@@ -0,0 +1,136 @@
+import { HandlerInput, RequestHandler, getSlotValue } from "ask-sdk";
+import { Intent, IntentRequest, Response } from "ask-sdk-model";
+import { PropertyData } from '../models/PropertyData';
+import { PropertyCandidate } from '../models/PropertyCandidate';
+import { ShortAddress } from "../models/ShortAddress";
+import { findPropertyCandidates, storeUserAddress } from "./business-logic/PropertyLookup";
+import { LookupDependencies } from "./business-logic/LookupDependencies";
+import { findMatchingCandidates, matchesAddress } from "./business-logic/AddressMatcher";
+import { refreshBinReminders } from "./business-logic/BinReminders";
+import { buildBinString } from "./business-logic/BinCollectionFinder";
+import { findDeviceTimeZone } from "./business-logic/DeviceSettings";
+import { localToday } from "./business-logic/LocalDates";
+import { askForPropertyChoice, formatCandidateAddress, MAX_PROPERTY_CHOICES } from "./ChoosePropertyIntentHandler";
+import { AddressNotFoundError } from "../errors/AddressNotFoundError";
+import { UnsupportedAreaError } from "../errors/UnsupportedAreaError";
+import { getTranslator, Translator } from "../i18n/Translator";
+
+const POSTCODE_SLOT = "postcode";
+
+const HOUSE_SLOT = "houseNameOrNumber";
+
+const POSTCODE_PATTERN: RegExp = /^([A-Z]{1,2}\d[A-Z\d]?)(\d[A-Z]{2})$/;
+
+/**
+ * Lets users who won't share their device address tell us it instead. The postcode and house name or
+ * number are checked against the council's records before the property is stored against their userId.
+ */
+export class SetMyAddressIntentHandler implements RequestHandler {
+    private dependencies: LookupDependencies;
+
+    constructor(dependencies: LookupDependencies) {
+        this.dependencies = dependencies;
+    }
+
+    canHandle(handlerInput: HandlerInput): boolean {
+        const request = handlerInput.requestEnvelope.request;
+        return request.type === 'IntentRequest'
+            && (request as IntentRequest).intent.name === 'SetMyAddressIntent';
+    }
+
+    async handle(handlerInput: HandlerInput): Promise<Response> {
+        const translator: Translator = getTranslator(handlerInput);
+        const spokenPostCode: string = getSlotValue(handlerInput.requestEnvelope, POSTCODE_SLOT);
+        const postCode: string = parsePostcode(spokenPostCode);
+
+        if (postCode === null) {
+            const repromptString: string = translator.t("address.whatPostcode");
+            return handlerInput.responseBuilder
+                .speak(spokenPostCode ? translator.t("address.postcodeNotRecognised", { reprompt: repromptString }) : repromptString)
+                .reprompt(repromptString)
+                .addElicitSlotDirective(POSTCODE_SLOT)
+                .getResponse();
+        }
+
+        const houseNameOrNumber: string = getSlotValue(handlerInput.requestEnvelope, HOUSE_SLOT);
+
+        if (!houseNameOrNumber) {
+            const repromptString: string = translator.t("address.whatHouse");
+            return handlerInput.responseBuilder
+                .speak(repromptString)
+                .reprompt(repromptString)
+                .addElicitSlotDirective(HOUSE_SLOT)
+                .getResponse();
+        }
+
+        const address = new ShortAddress(houseNameOrNumber.trim().toUpperCase(), postCode);
+
+        let candidates: PropertyCandidate[];
+        try {
+            candidates = findMatchingCandidates(address, await findPropertyCandidates(this.dependencies, address));
+        } catch (err) {
+            if (err instanceof AddressNotFoundError && !(err instanceof UnsupportedAreaError)) {
+                const repromptString: string = translator.t("address.whatPostcode");
+                return handlerInput.responseBuilder
+                    .speak(translator.t("address.houseNotFound", { house: houseNameOrNumber, reprompt: repromptString }))
+                    .reprompt(repromptString)
+                    .addElicitSlotDirective(POSTCODE_SLOT, clearSlots(handlerInput))
+                    .getResponse();
+            }
+            throw err;
+        }
+
+        if (candidates.length > MAX_PROPERTY_CHOICES) {
+            const repromptString: string = translator.t("address.whatFullHouse");
+            return handlerInput.responseBuilder
+                .speak(translator.t("address.tooManyToRead", { reprompt: repromptString }))
+                .reprompt(repromptString)
+                .addElicitSlotDirective(HOUSE_SLOT)
+                .getResponse();
+        }
+
+        const userId: string = handlerInput.requestEnvelope.context.System.user.userId;
+
+        // A property that doesn't match what the user said may be someone else's, so they confirm it first.
+        if (candidates.length > 1 || !matchesAddress(address, candidates[0])) {
+            return askForPropertyChoice(handlerInput, { address, candidates, userId });
+        }
+
+        const propertyData: PropertyData = await storeUserAddress(this.dependencies, userId, address, candidates[0].propertyId,
+            refreshedData => refreshBinReminders(handlerInput, refreshedData));
+
+        const speechString: string = translator.t("address.saved", {
+            address: formatCandidateAddress(candidates[0]),
+            collection: buildBinString(propertyData, localToday(await findDeviceTimeZone(handlerInput)), translator)
+        });
+
+        return handlerInput.responseBuilder
+            .speak(speechString)
+            .withSimpleCard(translator.t("cards.addressSaved"), speechString)
+            .withShouldEndSession(true)
+            .getResponse();
+    }
+}
+
+/**
+ * Normalises a spoken postcode ("s k 11 3 a b.") to "SK11 3AB", or returns null if it isn't a UK postcode.
+ */
+export function parsePostcode(spokenPostCode: string): string {
+    if (!spokenPostCode) {
+        return null;
+    }
+
+    const match = POSTCODE_PATTERN.exec(spokenPostCode.toUpperCase().replace(/[^A-Z0-9]/g, ""));
+
+    return match ? match[1] + " " + match[2] : null;
+}
+
+function clearSlots(handlerInput: HandlerInput): Intent {
+    const intent: Intent = (handlerInput.requestEnvelope.request as IntentRequest).intent;
+    const slots = {};
+    for (const slotName of Object.keys(intent.slots || {})) {
+        slots[slotName] = { name: slotName, confirmationStatus: "NONE" };
+    }
+
+    return { name: intent.name, confirmationStatus: "NONE", slots };
+}
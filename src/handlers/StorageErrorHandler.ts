@@ -0,0 +1,23 @@
+import { HandlerInput, ErrorHandler } from "ask-sdk";
+import { Response } from "ask-sdk-model";
+import { StorageError } from "../errors/StorageError";
+import { getTranslator, Translator } from "../i18n/Translator";
+
+export class StorageErrorHandler implements ErrorHandler {
+    canHandle(handlerInput: HandlerInput, error: Error): boolean {
+        return error instanceof StorageError;
+    }
+
+    handle(handlerInput: HandlerInput, error: StorageError): Response {
+        console.error(`Storage error handled: ${error.message}`, error.cause);
+
+        const translator: Translator = getTranslator(handlerInput);
+        const speechString: string = translator.t("errors.storage");
+
+        return handlerInput.responseBuilder
+            .speak(speechString)
+            .withSimpleCard(translator.t("cards.temporarilyUnavailable"), speechString)
+            .withShouldEndSession(true)
+            .getResponse();
+    }
+}
@@ -0,0 +1,69 @@
+import { PropertyCandidate } from "../../models/PropertyCandidate";
+import { ShortAddress } from "../../models/ShortAddress";
+import { AmbiguousAddressError } from "../../errors/AmbiguousAddressError";
+import { AddressNotFoundError } from "../../errors/AddressNotFoundError";
+
+/**
+ * Narrows the council's search results down to the properties that could be the address.
+ * Candidates whose address starts with the first line win over those that merely contain it,
+ * so "12 ACACIA AVENUE" doesn't match "FLAT 1, 12 ACACIA AVENUE" when 12 itself is listed.
+ * When none match, every candidate is returned for the user to choose from; check matchesAddress
+ * before using one without asking.
+ */
+export function findMatchingCandidates(address: ShortAddress, candidates: PropertyCandidate[]): PropertyCandidate[] {
+    const addressTokens: string[] = tokenise(address.addressLine1);
+
+    const prefixMatches: PropertyCandidate[] = candidates.filter(candidate =>
+        indexOfTokens(tokenise(candidate.displayAddress), addressTokens) === 0);
+    if (prefixMatches.length > 0) {
+        return prefixMatches;
+    }
+
+    const containingMatches: PropertyCandidate[] = candidates.filter(candidate =>
+        indexOfTokens(tokenise(candidate.displayAddress), addressTokens) !== -1);
+    if (containingMatches.length > 0) {
+        return containingMatches;
+    }
+
+    return candidates;
+}
+
+/**
+ * Whether the candidate's address contains the first line of the address.
+ */
+export function matchesAddress(address: ShortAddress, candidate: PropertyCandidate): boolean {
+    return indexOfTokens(tokenise(candidate.displayAddress), tokenise(address.addressLine1)) !== -1;
+}
+
+/**
+ * Picks the property for the address, throwing AmbiguousAddressError when the user has to choose or confirm
+ * a property that doesn't match, and AddressNotFoundError when the council listed none.
+ */
+export function selectPropertyCandidate(address: ShortAddress, candidates: PropertyCandidate[]): PropertyCandidate {
+    const matches: PropertyCandidate[] = findMatchingCandidates(address, candidates);
+
+    if (matches.length === 0) {
+        throw new AddressNotFoundError(null, "No properties listed for " + address.addressLine1 + ", " + address.postCode);
+    }
+
+    if (matches.length > 1 || !matchesAddress(address, matches[0])) {
+        throw new AmbiguousAddressError(address, matches);
+    }
+
+    console.log("Matched " + address.addressLine1 + " to " + matches[0].displayAddress);
+    return matches[0];
+}
+
+function tokenise(addressLine: string): string[] {
+    return addressLine.toUpperCase().replace(/[^A-Z0-9 ]/g, " ").split(" ").filter(token => token.length > 0);
+}
+
+function indexOfTokens(tokens: string[], wanted: string[]): number {
+    for (let i = 0; i + wanted.length <= tokens.length; i++) {
+        if (wanted.every((token, offset) => tokens[i + offset] === token)) {
+            return i;
+        }
+    }
+
+    return -1;
+}
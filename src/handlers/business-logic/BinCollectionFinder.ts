@@ -0,0 +1,159 @@
+import * as moment from 'moment';
+import { PropertyData } from '../../models/PropertyData';
+import { BinCollectionData } from '../../models/BinCollectionData';
+import { BinCollectionGroup } from '../../models/BinCollectionGroup';
+import { BinType } from '../../models/BinType';
+import { CollectionRules } from '../../models/CollectionRules';
+import { Rescheduling } from '../../models/Rescheduling';
+import { isSameBinType, resolveBinType } from "./BinTypeCatalogue";
+import { flagRescheduledCollections } from "./CollectionPattern";
+import { AddressNotFoundError } from "../../errors/AddressNotFoundError";
+import { Translator } from "../../i18n/Translator";
+
+export const BIN_DATE_FORMAT = "DD/MM/YYYY";
+
+/**
+ * Collection dates are calendar dates, so they are parsed as UTC to compare with LocalDates.localToday.
+ */
+export function parseCollectionDate(collectionDate: string): moment.Moment {
+    return moment.utc(collectionDate, BIN_DATE_FORMAT);
+}
+
+export function buildBinString(propertyData: PropertyData, today: moment.Moment, translator: Translator): string {
+    const nextCollection: BinCollectionGroup = findNextCollectionGroup(propertyData, today);
+
+    let returnString: string = buildCollectionDueString(nextCollection.binTypes, nextCollection,
+        nextCollection.rescheduling, today, translator);
+    if (nextCollection.collectedAlone.length > 0) {
+        returnString += " " + translator.t("collection.putOutSeparately", { bins: translator.describeBins(nextCollection.collectedAlone) });
+    }
+    console.info("Responding with:" + returnString);
+
+    return returnString;
+}
+
+/**
+ * Says when the bins are due, and how far the collection has moved from the usual day if it has. Predicted
+ * collections are only ever said to be probable.
+ */
+export function buildCollectionDueString(binTypes: BinType[], collection: { collectionDate: string, predicted?: boolean },
+                                         rescheduling: Rescheduling, today: moment.Moment, translator: Translator): string {
+    const params = { bins: translator.describeBins(binTypes), day: findCollectionDay(collection, today, translator) };
+
+    if (collection.predicted) {
+        return translator.plural("collection.probablyDue", binTypes.length, params);
+    }
+
+    if (rescheduling === null) {
+        return translator.plural("collection.due", binTypes.length, params);
+    }
+
+    return translator.plural(rescheduling.daysMoved > 0 ? "collection.late" : "collection.early", binTypes.length, {
+        ...params,
+        days: translator.plural("collection.daysMoved", Math.abs(rescheduling.daysMoved)),
+        reason: rescheduling.bankHoliday !== null ? translator.t("collection.becauseOfBankHoliday") : ""
+    });
+}
+
+export function findCollectionDay(collection: { collectionDate: string }, today: moment.Moment, translator: Translator): string {
+    const date = parseCollectionDate(collection.collectionDate);
+
+    if (today.isSame(date, 'day')) {
+        return translator.t("collection.today");
+    }
+
+    if (today.clone().add(1, 'day').isSame(date, 'day')) {
+        return translator.t("collection.tomorrow");
+    }
+
+    return translator.t("collection.onDay", { weekday: translator.weekday(date) });
+}
+
+/**
+ * Finds every bin collected on the next collection date, however many there are, flagged if it has moved
+ * from the usual day.
+ */
+export function findNextCollectionGroup(propertyData: PropertyData, today: moment.Moment): BinCollectionGroup {
+    console.log("Finding next bin collection date");
+
+    const upcomingCollectionData: BinCollectionData[] = propertyData.binCollectionData
+        .filter(item => parseCollectionDate(item.collectionDate).isSameOrAfter(today, 'day'));
+
+    const groups: BinCollectionGroup[] = groupCollectionsByDate(upcomingCollectionData, propertyData.collectionRules);
+
+    if (groups.length === 0) {
+        throw new AddressNotFoundError(null, "No valid stored bin collection data found for property " + propertyData.propertyId);
+    }
+
+    return flagRescheduledCollections([groups[0]], propertyData)[0];
+}
+
+/**
+ * Finds the next collection of a single bin type, ignoring any other bins collected before it.
+ * Returns null when there is no future entry for the bin, e.g. Green bins over the winter.
+ */
+export function findNextCollectionOfType(propertyData: PropertyData, binType: string, today: moment.Moment): BinCollectionData {
+    console.log("Finding next collection date for " + binType + " bin");
+
+    for (const item of propertyData.binCollectionData) {
+        if (item.binType === binType && parseCollectionDate(item.collectionDate).isSameOrAfter(today, 'day')) {
+            return item;
+        }
+    }
+
+    console.log("No future collection found for " + binType + " bin");
+    return null;
+}
+
+/**
+ * Groups every collection between the two dates (inclusive) by collection date, in date order, flagging
+ * any that have moved from the usual day. The dates should be calendar dates from LocalDates.
+ */
+export function findCollectionsBetween(propertyData: PropertyData, from: moment.Moment, to: moment.Moment): BinCollectionGroup[] {
+    console.log("Finding bin collections between " + from.format(BIN_DATE_FORMAT) + " and " + to.format(BIN_DATE_FORMAT));
+
+    const collectionData: BinCollectionData[] = propertyData.binCollectionData
+        .filter(item => parseCollectionDate(item.collectionDate).isBetween(from, to, 'day', '[]'));
+
+    return flagRescheduledCollections(groupCollectionsByDate(collectionData, propertyData.collectionRules), propertyData);
+}
+
+/**
+ * Groups collections by date, in date order, with each bin type listed once per date. Bin types the council
+ * collects alone are noted on a group that has other bins too.
+ */
+export function groupCollectionsByDate(binCollectionData: BinCollectionData[], collectionRules: CollectionRules = {}): BinCollectionGroup[] {
+    const groups: BinCollectionGroup[] = [];
+
+    const sortedCollectionData: BinCollectionData[] = binCollectionData.slice()
+        .sort((a, b) => parseCollectionDate(a.collectionDate).diff(parseCollectionDate(b.collectionDate)));
+
+    for (const item of sortedCollectionData) {
+        const binType: BinType = resolveBinType(item);
+        const lastGroup: BinCollectionGroup = groups[groups.length - 1];
+        if (lastGroup && matchesExistingDate(lastGroup.collectionDate, item.collectionDate)) {
+            if (!lastGroup.binTypes.some(existing => isSameBinType(existing, binType))) {
+                lastGroup.binTypes.push(binType);
+            }
+            lastGroup.predicted = lastGroup.predicted || !!item.predicted;
+        } else {
+            const group = new BinCollectionGroup(item.collectionDay, item.collectionDate, [binType]);
+            group.predicted = !!item.predicted;
+            groups.push(group);
+        }
+    }
+
+    const collectedAlone: string[] = collectionRules.collectedAlone || [];
+    for (const group of groups) {
+        const alone: BinType[] = group.binTypes.filter(binType => collectedAlone.indexOf(binType.id) !== -1);
+        if (alone.length < group.binTypes.length) {
+            group.collectedAlone = alone;
+        }
+    }
+
+    return groups;
+}
+
+function matchesExistingDate(existingDate: string, newDate: string): boolean {
+    return parseCollectionDate(existingDate).isSame(parseCollectionDate(newDate));
+}
@@ -0,0 +1,195 @@
+import { HandlerInput } from "ask-sdk";
+import { services } from "ask-sdk-model";
+import * as moment from 'moment';
+import { PropertyData } from '../../models/PropertyData';
+import { BinCollectionGroup } from '../../models/BinCollectionGroup';
+import { BIN_DATE_FORMAT, findCollectionsBetween } from "./BinCollectionFinder";
+import { findDeviceTimeZone } from "./DeviceSettings";
+import { DEFAULT_TIME_ZONE, localNow, toCalendarDate } from "./LocalDates";
+import { MissingPermissionError } from "../../errors/MissingPermissionError";
+import { getTranslator, Translator } from "../../i18n/Translator";
+
+export const REMINDER_PERMISSIONS = ['alexa::alerts:reminders:skill:readwrite'];
+
+export const DEFAULT_REMINDER_TIME = "19:00";
+
+const REMINDER_SCHEDULED_TIME_FORMAT = "YYYY-MM-DDTHH:mm:ss";
+
+const MAX_REMINDERS = 8;
+
+const REMINDER_LOOKAHEAD_WEEKS = 12;
+
+export class ReminderSyncResult {
+    created: number;
+    deleted: number;
+    total: number;
+
+    constructor(created: number, deleted: number, total: number) {
+        this.created = created;
+        this.deleted = deleted;
+        this.total = total;
+    }
+}
+
+export function hasReminderPermission(handlerInput: HandlerInput): boolean {
+    const permissions = handlerInput.requestEnvelope.context.System.user.permissions;
+    const scope = permissions && permissions.scopes && permissions.scopes[REMINDER_PERMISSIONS[0]];
+
+    return !!scope && scope.status === 'GRANTED';
+}
+
+export function requireReminderPermission(handlerInput: HandlerInput): void {
+    if (!hasReminderPermission(handlerInput)) {
+        throw new MissingPermissionError(REMINDER_PERMISSIONS);
+    }
+}
+
+/**
+ * Turns an AMAZON.TIME slot value into HH:mm, accepting the "evening" and "night" shortcuts.
+ * Returns null for anything that isn't a usable evening-before time.
+ */
+export function parseReminderTime(timeSlotValue: string): string {
+    if (!timeSlotValue) {
+        return null;
+    }
+
+    switch (timeSlotValue) {
+        case "EV":
+            return DEFAULT_REMINDER_TIME;
+        case "NI":
+            return "21:00";
+    }
+
+    const time = moment(timeSlotValue, "HH:mm", true);
+    return time.isValid() ? time.format("HH:mm") : null;
+}
+
+export function buildReminderText(group: BinCollectionGroup, translator: Translator): string {
+    return translator.t("reminders.text", { bins: translator.describeBins(group.binTypes) });
+}
+
+/**
+ * Builds the reminders we want to exist: one at the given time on the evening before each
+ * upcoming collection date. Predicted collections are left out, as the council hasn't confirmed them.
+ * now is the device's wall clock time from LocalDates.localNow.
+ */
+export function buildReminderRequests(propertyData: PropertyData, time: string, translator: Translator, now: moment.Moment,
+                                      timeZone: string = DEFAULT_TIME_ZONE): services.reminderManagement.ReminderRequest[] {
+    const today: moment.Moment = toCalendarDate(now);
+    const confirmedPropertyData: PropertyData = {
+        ...propertyData,
+        binCollectionData: propertyData.binCollectionData.filter(binCollectionData => !binCollectionData.predicted)
+    };
+    const groups: BinCollectionGroup[] = findCollectionsBetween(confirmedPropertyData, today,
+        today.clone().add(REMINDER_LOOKAHEAD_WEEKS, 'week'));
+
+    // Scheduled times are wall clock times in the reminder's time zone, so compare them as such.
+    const wallClockNow: moment.Moment = moment.utc(now.format(REMINDER_SCHEDULED_TIME_FORMAT), REMINDER_SCHEDULED_TIME_FORMAT);
+
+    const reminderRequests: services.reminderManagement.ReminderRequest[] = [];
+
+    for (const group of groups) {
+        const scheduledTime: moment.Moment = moment.utc(group.collectionDate + " " + time, BIN_DATE_FORMAT + " HH:mm").subtract(1, 'day');
+        if (scheduledTime.isAfter(wallClockNow) && reminderRequests.length < MAX_REMINDERS) {
+            reminderRequests.push({
+                requestTime: now.format(REMINDER_SCHEDULED_TIME_FORMAT),
+                trigger: {
+                    type: 'SCHEDULED_ABSOLUTE',
+                    scheduledTime: scheduledTime.format(REMINDER_SCHEDULED_TIME_FORMAT),
+                    timeZoneId: timeZone
+                },
+                alertInfo: {
+                    spokenInfo: {
+                        content: [{ locale: translator.locale, text: buildReminderText(group, translator) }]
+                    }
+                },
+                pushNotification: {
+                    status: 'ENABLED'
+                }
+            });
+        }
+    }
+
+    return reminderRequests;
+}
+
+/**
+ * Finds the reminders this skill has already created that are still due to go off.
+ * The Reminders API only ever returns reminders belonging to the calling skill.
+ */
+export async function findBinReminders(reminderClient: services.reminderManagement.ReminderManagementServiceClient): Promise<services.reminderManagement.Reminder[]> {
+    const remindersResponse: services.reminderManagement.GetRemindersResponse = await reminderClient.getReminders();
+
+    return (remindersResponse.alerts || [])
+        .filter(reminder => reminder.status === 'ON')
+        .sort((a, b) => a.trigger.scheduledTime.localeCompare(b.trigger.scheduledTime));
+}
+
+/**
+ * Makes the skill's reminders match the collection schedule: reminders for collections that
+ * have moved or disappeared are deleted and reminders for new collections are created.
+ */
+export async function syncBinReminders(reminderClient: services.reminderManagement.ReminderManagementServiceClient,
+                                       propertyData: PropertyData, time: string, translator: Translator, now: moment.Moment,
+                                       timeZone: string = DEFAULT_TIME_ZONE): Promise<ReminderSyncResult> {
+    const existingReminders: services.reminderManagement.Reminder[] = await findBinReminders(reminderClient);
+    const wantedReminders: services.reminderManagement.ReminderRequest[] = buildReminderRequests(propertyData, time, translator, now, timeZone);
+
+    let deleted = 0;
+    for (const existing of existingReminders) {
+        if (!wantedReminders.some(wanted => isSameReminder(existing, wanted))) {
+            await reminderClient.deleteReminder(existing.alertToken);
+            deleted++;
+        }
+    }
+
+    let created = 0;
+    for (const wanted of wantedReminders) {
+        if (!existingReminders.some(existing => isSameReminder(existing, wanted))) {
+            await reminderClient.createReminder(wanted);
+            created++;
+        }
+    }
+
+    console.log("Bin reminders synced. Created: " + created + " Deleted: " + deleted);
+    return new ReminderSyncResult(created, deleted, wantedReminders.length);
+}
+
+export async function cancelBinReminders(reminderClient: services.reminderManagement.ReminderManagementServiceClient): Promise<number> {
+    const existingReminders: services.reminderManagement.Reminder[] = await findBinReminders(reminderClient);
+
+    for (const existing of existingReminders) {
+        await reminderClient.deleteReminder(existing.alertToken);
+    }
+
+    console.log("Cancelled " + existingReminders.length + " bin reminders");
+    return existingReminders.length;
+}
+
+/**
+ * Re-syncs any existing reminders after the schedule has been refreshed from the council, keeping
+ * the time the user originally chose. Failures are logged rather than failing the request.
+ */
+export async function refreshBinReminders(handlerInput: HandlerInput, propertyData: PropertyData): Promise<void> {
+    if (!hasReminderPermission(handlerInput)) {
+        return;
+    }
+
+    try {
+        const reminderClient = handlerInput.serviceClientFactory.getReminderManagementServiceClient();
+        const existingReminders: services.reminderManagement.Reminder[] = await findBinReminders(reminderClient);
+
+        if (existingReminders.length > 0) {
+            const time: string = existingReminders[0].trigger.scheduledTime.substring(11, 16);
+            const timeZone: string = await findDeviceTimeZone(handlerInput);
+            await syncBinReminders(reminderClient, propertyData, time, getTranslator(handlerInput), localNow(timeZone), timeZone);
+        }
+    } catch (err) {
+        console.error("Unable to refresh bin reminders", err);
+    }
+}
+
+function isSameReminder(existing: services.reminderManagement.Reminder, wanted: services.reminderManagement.ReminderRequest): boolean {
+    return moment(existing.trigger.scheduledTime).isSame(moment(wanted.trigger.scheduledTime))
+        && existing.alertInfo.spokenInfo.content[0].text === wanted.alertInfo.spokenInfo.content[0].text;
+}
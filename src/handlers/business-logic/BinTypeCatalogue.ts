@@ -0,0 +1,46 @@
+import { BinType } from "../../models/BinType";
+import { BinCollectionData } from "../../models/BinCollectionData";
+
+export const UNKNOWN_BIN_TYPE = "Unknown";
+
+/**
+ * Every bin type the skill knows how to talk about. Council providers map their own labels onto these ids.
+ */
+const BIN_TYPES: BinType[] = [
+    new BinType("Black", "black", "general", "Black"),
+    new BinType("Silver", "silver", "recycling", "Silver"),
+    new BinType("Green", "green", "garden", "Green"),
+    new BinType("Food", "grey", "food", "Food"),
+    new BinType("Glass", "blue", "glass", "Glass"),
+    new BinType("Bulky", null, "bulky", "Bulky Waste")
+];
+
+/**
+ * Returns the catalogue entry for the id, or null if there isn't one.
+ */
+export function findBinType(id: string): BinType {
+    for (const binType of BIN_TYPES) {
+        if (binType.id === id) {
+            return binType;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Finds the bin type for a collection. Collections the council labelled with something we don't
+ * recognise are described by that label rather than being treated as any of our bins.
+ */
+export function resolveBinType(binCollectionData: BinCollectionData): BinType {
+    const binType: BinType = findBinType(binCollectionData.binType);
+    if (binType !== null) {
+        return binType;
+    }
+
+    return new BinType(UNKNOWN_BIN_TYPE, null, "unknown", binCollectionData.councilLabel || binCollectionData.binType);
+}
+
+export function isSameBinType(a: BinType, b: BinType): boolean {
+    return a.id === b.id && a.spokenName === b.spokenName;
+}
@@ -0,0 +1,119 @@
+import * as moment from 'moment';
+import { PropertyData } from '../../models/PropertyData';
+import { BinCollectionData } from '../../models/BinCollectionData';
+import { parseCollectionDate } from "./BinCollectionFinder";
+import { Clock, DEFAULT_TIME_ZONE, localToday, systemClock } from "./LocalDates";
+
+/**
+ * How long stored bin data is trusted. Each setting can be overridden with the environment variable
+ * named in loadCachePolicy.
+ */
+export interface CachePolicy {
+    /** Hours after fetching that stored data is answered from without asking the council again. */
+    freshForHours: number;
+    /** Stored data with fewer upcoming collections than this is stale however recently it was fetched. */
+    minUpcomingCollections: number;
+    /** Answer from stale data straight away and refresh it in the background, rather than waiting for the council. */
+    staleWhileRevalidate: boolean;
+    /** Days after fetching that stale data stops being answered from while it is refreshed. */
+    maxStaleDays: number;
+    /** Days after a lookup last asked for stored data that DynamoDB's TTL deletes the item. */
+    ttlDays: number;
+    /** Seconds a warm Lambda container keeps lookups in memory. 0 turns the memory cache off. */
+    memoryCacheSeconds: number;
+    /**
+     * Milliseconds a response waits for background refreshes to finish, as Lambda freezes the container once it
+     * has responded. Stale data still refreshing then is left for the scheduled refresh.
+     */
+    revalidateWaitMs: number;
+}
+
+/**
+ * fresh: answer from it. stale: answer from it if refreshing in the background, otherwise refresh first.
+ * expired: refresh first; it is only answered from if the council can't be reached.
+ */
+export type CacheState = "fresh" | "stale" | "expired";
+
+export const DEFAULT_CACHE_POLICY: CachePolicy = {
+    freshForHours: 24,
+    minUpcomingCollections: 4,
+    staleWhileRevalidate: true,
+    maxStaleDays: 14,
+    ttlDays: 90,
+    memoryCacheSeconds: 300,
+    revalidateWaitMs: 2000
+};
+
+export function loadCachePolicy(env: { [name: string]: string } = process.env): CachePolicy {
+    return {
+        freshForHours: readNumber(env, "CACHE_FRESH_FOR_HOURS", DEFAULT_CACHE_POLICY.freshForHours),
+        minUpcomingCollections: readNumber(env, "CACHE_MIN_UPCOMING_COLLECTIONS", DEFAULT_CACHE_POLICY.minUpcomingCollections),
+        staleWhileRevalidate: env.CACHE_STALE_WHILE_REVALIDATE
+            ? env.CACHE_STALE_WHILE_REVALIDATE.toLowerCase() !== "false"
+            : DEFAULT_CACHE_POLICY.staleWhileRevalidate,
+        maxStaleDays: readNumber(env, "CACHE_MAX_STALE_DAYS", DEFAULT_CACHE_POLICY.maxStaleDays),
+        ttlDays: readNumber(env, "CACHE_TTL_DAYS", DEFAULT_CACHE_POLICY.ttlDays),
+        memoryCacheSeconds: readNumber(env, "CACHE_MEMORY_SECONDS", DEFAULT_CACHE_POLICY.memoryCacheSeconds),
+        revalidateWaitMs: readNumber(env, "CACHE_REVALIDATE_WAIT_MS", DEFAULT_CACHE_POLICY.revalidateWaitMs)
+    };
+}
+
+/**
+ * Judges stored data by its age and how many upcoming collections it has left. Data stored before fetch
+ * times were recorded is judged by its upcoming collections alone.
+ */
+export function assessCachedData(propertyData: PropertyData, policy: CachePolicy, clock: Clock = systemClock): CacheState {
+    const upcomingCollections: number = countUpcomingCollections(propertyData.binCollectionData, localToday(DEFAULT_TIME_ZONE, clock));
+    if (upcomingCollections === 0) {
+        return "expired";
+    }
+
+    if (!propertyData.fetchedAt) {
+        return upcomingCollections >= policy.minUpcomingCollections ? "fresh" : "stale";
+    }
+
+    const ageHours: number = moment(clock()).diff(moment(propertyData.fetchedAt), 'hours', true);
+    if (ageHours > policy.maxStaleDays * 24) {
+        return "expired";
+    }
+
+    return ageHours < policy.freshForHours && upcomingCollections >= policy.minUpcomingCollections ? "fresh" : "stale";
+}
+
+/**
+ * When DynamoDB's TTL should delete data last fetched or asked for at the given time, in epoch seconds.
+ */
+export function findExpiryTime(requestedAt: string, policy: CachePolicy): number {
+    return moment(requestedAt).add(policy.ttlDays, 'days').unix();
+}
+
+export function countUpcomingCollections(binCollectionData: BinCollectionData[], today: moment.Moment): number {
+    return binCollectionData.filter(item => parseCollectionDate(item.collectionDate).isSameOrAfter(today, 'day')).length;
+}
+
+/**
+ * Whether the council's collections are the same as those stored, so nothing that depends on them needs redoing.
+ */
+export function hasSameCollections(stored: BinCollectionData[], fetched: BinCollectionData[]): boolean {
+    const describe = (collection: BinCollectionData): string =>
+        [collection.collectionDate, collection.binType, collection.councilLabel || null].join("|");
+
+    return stored.map(describe).join("\n") === fetched.map(describe).join("\n");
+}
+
+/**
+ * Reads a number of zero or more from the environment, warning and using the default for anything else.
+ */
+export function readNumber(env: { [name: string]: string }, name: string, defaultValue: number): number {
+    if (!env[name]) {
+        return defaultValue;
+    }
+
+    const value: number = Number(env[name]);
+    if (isNaN(value) || value < 0) {
+        console.warn(name + " should be a number of zero or more, using " + defaultValue + " instead of " + env[name]);
+        return defaultValue;
+    }
+
+    return value;
+}
@@ -0,0 +1,127 @@
+import * as moment from 'moment';
+import { PropertyData } from '../../models/PropertyData';
+import { BinCollectionGroup } from '../../models/BinCollectionGroup';
+import { ShortAddress } from "../../models/ShortAddress";
+import { groupCollectionsByDate, parseCollectionDate } from "./BinCollectionFinder";
+import { Translator } from "../../i18n/Translator";
+
+const ICS_DATE_FORMAT = "YYYYMMDD";
+
+const ICS_TIMESTAMP_FORMAT = "YYYYMMDD[T]HHmmss[Z]";
+
+const UID_DOMAIN = "bincollectionday";
+
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Renders every stored collection for the property as an RFC 5545 calendar with one all-day event per
+ * collection date. UIDs are built from the property and date, so a subscribed calendar replaces an event
+ * when the bins collected that day change rather than adding another. Predicted collections are tentative.
+ * alarmTime (HH:mm) adds a reminder at that time on the evening before.
+ */
+export function buildCalendarFeed(propertyData: PropertyData, translator: Translator, now: moment.Moment,
+                                  alarmTime: string = null): string {
+    const groups: BinCollectionGroup[] = groupCollectionsByDate(propertyData.binCollectionData, propertyData.collectionRules);
+
+    const lines: string[] = [
+        "BEGIN:VCALENDAR",
+        "VERSION:2.0",
+        "PRODID:-//Bin Collection Day//Collection Calendar//EN",
+        "CALSCALE:GREGORIAN",
+        "METHOD:PUBLISH",
+        "X-WR-CALNAME:" + escapeText(translator.t("cards.upcomingCollections"))
+    ];
+
+    for (const group of groups) {
+        const date: moment.Moment = parseCollectionDate(group.collectionDate);
+        const summary: string = translator.describeBins(group.binTypes);
+
+        lines.push(
+            "BEGIN:VEVENT",
+            "UID:" + propertyData.propertyId + "-" + date.format(ICS_DATE_FORMAT) + "@" + UID_DOMAIN,
+            "DTSTAMP:" + now.clone().utc().format(ICS_TIMESTAMP_FORMAT),
+            "DTSTART;VALUE=DATE:" + date.format(ICS_DATE_FORMAT),
+            "DTEND;VALUE=DATE:" + date.clone().add(1, 'day').format(ICS_DATE_FORMAT),
+            "SUMMARY:" + escapeText(summary),
+            "STATUS:" + (group.predicted ? "TENTATIVE" : "CONFIRMED"),
+            "TRANSP:TRANSPARENT");
+
+        if (alarmTime !== null) {
+            lines.push(
+                "BEGIN:VALARM",
+                "ACTION:DISPLAY",
+                "DESCRIPTION:" + escapeText(translator.t("reminders.text", { bins: summary })),
+                "TRIGGER:" + buildEveningBeforeTrigger(alarmTime),
+                "END:VALARM");
+        }
+
+        lines.push("END:VEVENT");
+    }
+
+    lines.push("END:VCALENDAR");
+
+    return lines.map(line => foldLine(line)).join("\r\n") + "\r\n";
+}
+
+/**
+ * Builds the link to the property's calendar feed on the JSON API, or returns null when the API's
+ * address isn't configured in API_BASE_URL.
+ */
+export function buildCalendarFeedUrl(address: ShortAddress, propertyId: string): string {
+    const apiBaseUrl: string = process.env.API_BASE_URL;
+    if (!apiBaseUrl) {
+        return null;
+    }
+
+    return apiBaseUrl.replace(/\/$/, "") + "/properties/" + encodeURIComponent(propertyId) + "/collections.ics"
+        + "?postcode=" + encodeURIComponent(address.postCode)
+        + "&address=" + encodeURIComponent(address.addressLine1);
+}
+
+/**
+ * Adds the calendar feed link to a card, when there is one.
+ */
+export function addCalendarFeedLink(cardText: string, address: ShortAddress, propertyData: PropertyData, translator: Translator): string {
+    const feedUrl: string = buildCalendarFeedUrl(address, propertyData.propertyId);
+
+    return feedUrl === null ? cardText : cardText + "\n\n" + translator.t("cards.calendarFeed", { url: feedUrl });
+}
+
+/**
+ * All-day events start at midnight, so the evening before is a negative offset from the start.
+ */
+function buildEveningBeforeTrigger(alarmTime: string): string {
+    const time: moment.Moment = moment.utc(alarmTime, "HH:mm", true);
+    const minutesBeforeMidnight: number = 24 * 60 - (time.hours() * 60 + time.minutes());
+
+    return "-PT" + Math.floor(minutesBeforeMidnight / 60) + "H" + (minutesBeforeMidnight % 60 > 0 ? minutesBeforeMidnight % 60 + "M" : "");
+}
+
+function escapeText(text: string): string {
+    return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Folds lines longer than 75 octets onto continuation lines starting with a space, without splitting characters.
+ */
+function foldLine(line: string): string {
+    const parts: string[] = [];
+    let current: string = "";
+    let currentOctets: number = 0;
+
+    // Match whole characters, keeping surrogate pairs together, as the ES5 target iterates strings by code unit.
+    for (const character of line.match(/[\uD800-\uDBFF][\uDC00-\uDFFF]|[\s\S]/g) || []) {
+        const octets: number = Buffer.byteLength(character, "utf8");
+        const limit: number = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+        if (currentOctets + octets > limit) {
+            parts.push(current);
+            current = "";
+            currentOctets = 0;
+        }
+        current += character;
+        currentOctets += octets;
+    }
+    parts.push(current);
+
+    return parts.join("\r\n ");
+}
@@ -1,13 +1,59 @@
-import * as requestPromise from 'request-promise-native';
+import * as moment from 'moment';
+import { HTMLElement, parse } from 'node-html-parser';
 import { BinCollectionData } from "../../models/BinCollectionData";
 import { PropertyData } from "../../models/PropertyData";
+import { PropertyCandidate } from "../../models/PropertyCandidate";
 import { ShortAddress } from "../../models/ShortAddress";
+import { CollectionRules } from "../../models/CollectionRules";
+import { CouncilProvider } from "./CouncilProvider";
+import { UNKNOWN_BIN_TYPE } from "./BinTypeCatalogue";
+import { ENGLAND_AND_WALES_BANK_HOLIDAYS } from "./BankHolidays";
+import { selectPropertyCandidate } from "./AddressMatcher";
+import { HttpClient } from "./http/HttpClient";
+import { getDefaultHttpClient } from "./http/ResilientHttpClient";
+import { CouncilFormatChangedError } from "../../errors/CouncilFormatChangedError";
+import { CouncilUnreachableError } from "../../errors/CouncilUnreachableError";
+import { AddressNotFoundError } from "../../errors/AddressNotFoundError";
 
-const PROPERTY_ID_PATTERN: RegExp = new RegExp("data-uprn=\"(\\d+)");
+const PROPERTY_ID_PATTERN: RegExp = /^\d+$/;
 
-const BIN_COLLECTION_DETAIL_PATTERN: RegExp = new RegExp("label for=\"\\w*\">(.+?)<","g");
+const BIN_DATE_FORMAT = "DD/MM/YYYY";
 
-export class CheshireEastClient {
+const JOB_TABLE_SELECTOR = "table.job-details";
+
+const JOB_ROW_SELECTOR = "tr.data-row";
+
+const JOB_CELL_SELECTOR = "td.visible-cell label";
+
+const RESPONSE_SUMMARY_LENGTH = 200;
+
+const DEFAULT_BASE_URL = "https://online.cheshireeast.gov.uk/MyCollectionDay";
+
+export class CheshireEastClient implements CouncilProvider {
+    readonly name: string = "Cheshire East";
+
+    readonly postcodeAreas: string[] = [
+        "CW1", "CW2", "CW3", "CW4", "CW5", "CW10", "CW11", "CW12",
+        "SK9", "SK10", "SK11", "SK12", "ST7", "WA16"
+    ];
+
+    /**
+     * General waste goes out on alternate weeks to recycling and garden waste, on a round of its own.
+     * Collections move back a day after bank holidays.
+     */
+    readonly collectionRules: CollectionRules = { collectedAlone: ["Black"], bankHolidays: ENGLAND_AND_WALES_BANK_HOLIDAYS };
+
+    private httpClient: HttpClient;
+    private baseUrl: string;
+
+    /**
+     * The base URL can be overridden with CHESHIRE_EAST_BASE_URL to point at a local stand-in.
+     */
+    constructor(httpClient: HttpClient = getDefaultHttpClient(),
+                baseUrl: string = process.env.CHESHIRE_EAST_BASE_URL || DEFAULT_BASE_URL) {
+        this.httpClient = httpClient;
+        this.baseUrl = baseUrl;
+    }
 
     async getPropertyDataFromWebservice(address: ShortAddress): Promise<PropertyData> {
         const propertyId: string = await this.getPropertyIdFromWebservice(address);
@@ -18,63 +64,58 @@ export class CheshireEastClient {
     }
     
     async getPropertyIdFromWebservice(address: ShortAddress): Promise<string> {
+        const candidates: PropertyCandidate[] = await this.findPropertyCandidates(address);
+
+        const propertyId: string = selectPropertyCandidate(address, candidates).propertyId;
+        console.log("Property ID is :" + propertyId);
+        return propertyId;
+    }
+
+    async findPropertyCandidates(address: ShortAddress): Promise<PropertyCandidate[]> {
         const options = {
-            uri: 'https://online.cheshireeast.gov.uk/MyCollectionDay/SearchByAjax/Search?postcode=' + encodeURIComponent(address.postCode) + '&propertyname=' + address.addressLine1.split(" ")[0]
+            uri: this.baseUrl + '/SearchByAjax/Search?postcode=' + encodeURIComponent(address.postCode) + '&propertyname=' + address.addressLine1.split(" ")[0]
         };
         console.log("Calling cheshire east for property id: " + options.uri);
     
-        const serviceResponse = await requestPromise.get(options, (error, response) => {
-            if (error) {
-                console.error(error.getMessage(), error);
-                createBinCollectionException();
-            } else {
-                if (response.statusCode !== 200) {
-                    console.error("Http error: " + response.statusMessage);
-                    createBinCollectionException();
-                } else {
-                    return response.body;
-                }
-            }
-        });
+        const serviceResponse: string = await this.getFromWebservice(options);
     
         // console.log("Response from cheshire east: " + serviceResponse);
-    
-        let propertyId: string = null;
-        
+
         console.log("Got propertyId response from cheshire east, parsing it");
-        if (PROPERTY_ID_PATTERN.test(serviceResponse)) {
-            const match = PROPERTY_ID_PATTERN.exec(serviceResponse);
-            console.log("Property ID is :" + match[1]);
-            propertyId = match[1];
-        } else {
-            console.error("Unable to parse response from Cheshire east.");
-            throw createBinCollectionException();
+        return this.parsePropertyCandidatesResponse(serviceResponse);
+    }
+
+    parsePropertyCandidatesResponse(response: string): PropertyCandidate[] {
+        const document: HTMLElement = parse(response);
+        const candidates: PropertyCandidate[] = document.querySelectorAll("[data-uprn]")
+            .map(element => new PropertyCandidate(element.getAttribute("data-uprn").trim(), findDisplayAddress(element)));
+
+        if (candidates.length === 0) {
+            throw new AddressNotFoundError(this.name, "No properties found in response from Cheshire east.");
         }
-    
-        return propertyId;
+
+        const invalidPropertyIds: string[] = candidates.map(candidate => candidate.propertyId)
+            .filter(propertyId => !PROPERTY_ID_PATTERN.test(propertyId));
+        if (invalidPropertyIds.length > 0) {
+            throw new CouncilFormatChangedError(this.name, [
+                "Expected numeric data-uprn attributes but found: " + invalidPropertyIds.join(", "),
+                "Response starts: " + summariseResponse(response)
+            ]);
+        }
+
+        console.log("Found " + candidates.length + " properties in search response");
+        return candidates;
     }
-    
+
     async getBinDataFromWebService(propertyId: string): Promise<BinCollectionData[]> {
         const options = {
-            uri: 'https://online.cheshireeast.gov.uk/MyCollectionDay/SearchByAjax/GetBartecJobList?uprn=' + propertyId
+            uri: this.baseUrl + '/SearchByAjax/GetBartecJobList?uprn=' + propertyId
         };
     
         console.log("Calling cheshire east for bin collection days with propertyId: " + propertyId);
         let binCollectionData: BinCollectionData[] = [];
     
-        const serviceResponse = await requestPromise.get(options, (error, response) => {
-            if (error) {
-                console.error(error.getMessage(), error);
-                createBinCollectionException();
-            } else {
-                if (response.statusCode !== 200) {
-                    console.error("Http error: " + response.statusMessage);
-                    createBinCollectionException();
-                } else {
-                    return response.body;
-                }
-            }
-        });
+        const serviceResponse: string = await this.getFromWebservice(options);
 
         console.log("Got bin data response from cheshire east, parsing it.");
         binCollectionData = this.parseBinResponse(serviceResponse);
@@ -83,30 +124,43 @@ export class CheshireEastClient {
     }
 
     parseBinResponse(response: string): BinCollectionData[] {
-        // console.log("Parsing bin response from cheshire east: " + response);
-        const matches: string[] = [];
-        let counter = 0;
-        let match = BIN_COLLECTION_DETAIL_PATTERN.exec(response);
-
-        // Stop at 30 - the final 3 matches are duff entries returned by the web service
-        while (match !== null && counter < 30) {
-            matches.push(match[1]);
-            match = BIN_COLLECTION_DETAIL_PATTERN.exec(response);
-            counter++;
+        const document: HTMLElement = parse(response);
+        const table: HTMLElement = document.querySelector(JOB_TABLE_SELECTOR);
+
+        if (table === null) {
+            throw new CouncilFormatChangedError(this.name, [
+                "Expected a " + JOB_TABLE_SELECTOR + " table but none was found",
+                "Response starts: " + summariseResponse(response)
+            ]);
         }
 
-        if (matches.length === 0) {
-            console.error("Unable to parse response from Cheshire east.");
-            throw createBinCollectionException();
+        const rows: HTMLElement[] = table.querySelectorAll(JOB_ROW_SELECTOR);
+        if (rows.length === 0) {
+            throw new AddressNotFoundError(this.name, "No bin collections found in response from Cheshire east.");
         }
 
         const binCollectionData: BinCollectionData[] = [];
+        const diagnostics: string[] = [];
+
+        rows.forEach((row, index) => {
+            const labels: string[] = row.querySelectorAll(JOB_CELL_SELECTOR).map(label => label.text.trim());
+            const rowDiagnostic: string = this.validateJobRow(labels);
+
+            if (rowDiagnostic !== null) {
+                diagnostics.push("Row " + index + ": " + rowDiagnostic + " in [" + labels.join(" | ") + "]");
+                return;
+            }
+
+            const binType: string = this.parseBinType(labels[2]);
+            if (binType === UNKNOWN_BIN_TYPE) {
+                console.warn("Unrecognised Cheshire east service, keeping it as unknown: " + labels[2]);
+            }
 
-        let i = 0;
+            binCollectionData.push(new BinCollectionData(labels[0], labels[1], binType, labels[2]));
+        });
 
-        while (i < (matches.length - 3)) {
-            const binCollection = new BinCollectionData(matches[i++], matches[i++], this.parseBinType(matches[i++]));
-            binCollectionData.push(binCollection);
+        if (diagnostics.length > 0) {
+            throw new CouncilFormatChangedError(this.name, diagnostics);
         }
 
         return binCollectionData;
@@ -119,13 +173,68 @@ export class CheshireEastClient {
                 return "Green";
             case "Mixed Recycling":
                 return "Silver";
-            default:
+            case "General Waste":
                 return "Black";
+            case "Food Waste":
+                return "Food";
+            default:
+                return UNKNOWN_BIN_TYPE;
         }
     }
+
+    private async getFromWebservice(options: { uri: string }): Promise<string> {
+        try {
+            return await this.httpClient.get(options.uri);
+        } catch (err) {
+            throw new CouncilUnreachableError(this.name, err);
+        }
+    }
+
+    /**
+     * Checks a job row holds a weekday, a matching DD/MM/YYYY date and a service name.
+     * Returns a description of the problem, or null when the row is valid.
+     */
+    private validateJobRow(labels: string[]): string {
+        if (labels.length !== 3) {
+            return "expected 3 labels but found " + labels.length;
+        }
+
+        const date = moment(labels[1], BIN_DATE_FORMAT, true);
+        if (!date.isValid()) {
+            return "invalid collection date " + labels[1];
+        }
+
+        if (date.format("dddd") !== labels[0]) {
+            return "collection day " + labels[0] + " does not match date " + labels[1];
+        }
+
+        if (labels[2].length === 0) {
+            return "missing service name";
+        }
+
+        return null;
+    }
+}
+
+function summariseResponse(response: string): string {
+    return response.replace(/\s+/g, " ").trim().substring(0, RESPONSE_SUMMARY_LENGTH);
 }
 
-function createBinCollectionException(): Error {
-    return new Error("Sorry, we were unable to find your bin collection details. " +
-            "Please check the address assigned to your Alexa device is a valid Cheshire East address.");
+/**
+ * The search results carry the address in a data-address attribute, with the first cell of the
+ * result row as a fallback.
+ */
+function findDisplayAddress(element: HTMLElement): string {
+    const dataAddress: string = element.getAttribute("data-address");
+    if (dataAddress && dataAddress.trim()) {
+        return dataAddress.trim();
+    }
+
+    let row: HTMLElement = element;
+    while (row && row.tagName !== "TR") {
+        row = row.parentNode as HTMLElement;
+    }
+
+    const firstCell: HTMLElement = row ? row.querySelector("td") : null;
+    return firstCell ? firstCell.text.replace(/\s+/g, " ").trim() : "";
 }
@@ -0,0 +1,113 @@
+import { HandlerInput, ResponseBuilder, getSupportedInterfaces } from "ask-sdk";
+import * as moment from 'moment';
+import { PropertyData } from '../../models/PropertyData';
+import { BinCollectionGroup } from '../../models/BinCollectionGroup';
+import { BinType } from '../../models/BinType';
+import { findCollectionsBetween, parseCollectionDate } from "./BinCollectionFinder";
+import { COLLECTION_CALENDAR_DOCUMENT } from "../../apl/CollectionCalendarDocument";
+import { getTranslator, Translator } from "../../i18n/Translator";
+
+const APL_INTERFACE = "Alexa.Presentation.APL";
+
+const CALENDAR_TOKEN = "collectionCalendar";
+
+const CALENDAR_DATES = 6;
+
+const CALENDAR_LOOKAHEAD_WEEKS = 8;
+
+const UNKNOWN_BIN_COLOUR = "#9E9E9E";
+
+const BIN_COLOURS: { [colour: string]: string } = {
+    "black": "#212121",
+    "silver": "#B0BEC5",
+    "green": "#2E7D32",
+    "grey": "#757575",
+    "blue": "#1565C0"
+};
+
+export interface CalendarBin {
+    name: string;
+    colour: string;
+}
+
+export interface CalendarDay {
+    date: string;
+    label: string;
+    highlighted: boolean;
+    bins: CalendarBin[];
+}
+
+export interface CollectionCalendarDatasource {
+    calendar: {
+        title: string;
+        days: CalendarDay[];
+    };
+}
+
+export function supportsApl(handlerInput: HandlerInput): boolean {
+    const supportedInterfaces = getSupportedInterfaces(handlerInput.requestEnvelope);
+    return !!supportedInterfaces && !!supportedInterfaces[APL_INTERFACE];
+}
+
+/**
+ * Lays out the next few collection dates for the APL calendar, with today and tomorrow highlighted.
+ */
+export function buildCollectionCalendarDatasource(propertyData: PropertyData, today: moment.Moment,
+                                                  translator: Translator): CollectionCalendarDatasource {
+    const groups: BinCollectionGroup[] = findCollectionsBetween(propertyData, today, today.clone().add(CALENDAR_LOOKAHEAD_WEEKS, 'week'))
+        .slice(0, CALENDAR_DATES);
+
+    return {
+        calendar: {
+            title: translator.t("cards.upcomingCollections"),
+            days: groups.map(group => buildCalendarDay(group, today, translator))
+        }
+    };
+}
+
+/**
+ * Adds a simple card, which reaches the Alexa app as well as the device, and the calendar on screen devices.
+ */
+export function addCollectionDisplay(handlerInput: HandlerInput, propertyData: PropertyData, today: moment.Moment,
+                                     cardTitle: string, cardText: string): ResponseBuilder {
+    const responseBuilder: ResponseBuilder = handlerInput.responseBuilder.withSimpleCard(cardTitle, cardText);
+    if (!supportsApl(handlerInput)) {
+        return responseBuilder;
+    }
+
+    return responseBuilder.addDirective({
+        type: "Alexa.Presentation.APL.RenderDocument",
+        token: CALENDAR_TOKEN,
+        document: COLLECTION_CALENDAR_DOCUMENT,
+        datasources: buildCollectionCalendarDatasource(propertyData, today, getTranslator(handlerInput))
+    });
+}
+
+function buildCalendarDay(group: BinCollectionGroup, today: moment.Moment, translator: Translator): CalendarDay {
+    const date: moment.Moment = parseCollectionDate(group.collectionDate);
+    const isToday: boolean = date.isSame(today, 'day');
+    const isTomorrow: boolean = date.isSame(today.clone().add(1, 'day'), 'day');
+
+    let label: string;
+    if (isToday) {
+        label = translator.t("collection.today");
+    } else if (isTomorrow) {
+        label = translator.t("collection.tomorrow");
+    } else {
+        label = translator.formatDate(date, "fullDate");
+    }
+
+    return {
+        date: group.collectionDate,
+        label,
+        highlighted: isToday || isTomorrow,
+        bins: group.binTypes.map(binType => buildCalendarBin(binType, translator))
+    };
+}
+
+function buildCalendarBin(binType: BinType, translator: Translator): CalendarBin {
+    return {
+        name: translator.binName(binType),
+        colour: BIN_COLOURS[binType.colour] || UNKNOWN_BIN_COLOUR
+    };
+}
@@ -0,0 +1,207 @@
+import * as moment from 'moment';
+import { PropertyData } from '../../models/PropertyData';
+import { BinCollectionData } from '../../models/BinCollectionData';
+import { BinCollectionGroup } from '../../models/BinCollectionGroup';
+import { BinType } from '../../models/BinType';
+import { Rescheduling } from '../../models/Rescheduling';
+import { BIN_DATE_FORMAT, parseCollectionDate } from "./BinCollectionFinder";
+import { BANK_HOLIDAY_DATE_FORMAT } from "./BankHolidays";
+import { isSameBinType, resolveBinType } from "./BinTypeCatalogue";
+
+/** Fewer collection dates than this don't show a pattern. */
+const MIN_COLLECTION_DATES = 3;
+
+/** How many upcoming collections of each bin type are predicted when the council can't be reached. */
+const PREDICTED_COLLECTIONS_PER_BIN = 3;
+
+/**
+ * Works out the weekday (0 for Sunday to 6 for Saturday) collections are usually on, from every date given,
+ * e.g. all of a property's or one bin's. Returns null when there are too few dates, or no weekday has a clear
+ * majority of them, e.g. a property whose bins go out on different days.
+ */
+export function inferUsualWeekday(binCollectionData: BinCollectionData[]): number {
+    const datesByWeekday: { [weekday: string]: { [collectionDate: string]: boolean } } = {};
+    let dateCount: number = 0;
+
+    for (const item of binCollectionData) {
+        const weekday: string = String(parseCollectionDate(item.collectionDate).day());
+        datesByWeekday[weekday] = datesByWeekday[weekday] || {};
+        if (!datesByWeekday[weekday][item.collectionDate]) {
+            datesByWeekday[weekday][item.collectionDate] = true;
+            dateCount++;
+        }
+    }
+
+    if (dateCount < MIN_COLLECTION_DATES) {
+        return null;
+    }
+
+    for (const weekday of Object.keys(datesByWeekday)) {
+        if (Object.keys(datesByWeekday[weekday]).length * 2 > dateCount) {
+            return Number(weekday);
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Compares a collection date with the usual weekday of the bin type, or of the property when no bin type is
+ * given, returning how it has moved or null when it hasn't, or when there is no usual weekday.
+ */
+export function findRescheduling(collectionDate: string, propertyData: PropertyData, binType: BinType = null): Rescheduling {
+    const propertyWeekday: number = inferUsualWeekday(propertyData.binCollectionData);
+    const usualWeekday: number = binType === null ? propertyWeekday
+        : inferBinWeekday(propertyData.binCollectionData.filter(item => isSameBinType(resolveBinType(item), binType)), propertyWeekday);
+
+    return compareWithUsualWeekday(collectionDate, usualWeekday, propertyData.collectionRules.bankHolidays || []);
+}
+
+/**
+ * Sets the rescheduling of every group with a bin that isn't on its usual weekday.
+ */
+export function flagRescheduledCollections(groups: BinCollectionGroup[], propertyData: PropertyData): BinCollectionGroup[] {
+    for (const group of groups) {
+        group.rescheduling = group.binTypes
+            .map(binType => findRescheduling(group.collectionDate, propertyData, binType))
+            .filter(rescheduling => rescheduling !== null)[0] || null;
+    }
+
+    return groups;
+}
+
+/**
+ * Projects the next few collections of each bin type from the stored history, for answering when the council
+ * can't be reached. Each bin type's collections are assumed to recur at the interval most of its stored dates
+ * are apart, counted from its usual day nearest its last stored collection. Predictions are marked as predicted and
+ * only added after the last stored collection of their bin type, so they never replace the council's data.
+ * Bin types without a regular interval get no predictions.
+ */
+export function predictCollections(propertyData: PropertyData, today: moment.Moment): PropertyData {
+    const propertyWeekday: number = inferUsualWeekday(propertyData.binCollectionData);
+    const collectionsByBin: { [bin: string]: BinCollectionData[] } = {};
+    for (const item of propertyData.binCollectionData) {
+        const bin: string = item.binType + ":" + (item.councilLabel || "");
+        collectionsByBin[bin] = (collectionsByBin[bin] || []).concat(item);
+    }
+
+    const predictedCollectionData: BinCollectionData[] = [];
+    for (const bin of Object.keys(collectionsByBin)) {
+        const usualWeekday: number = inferBinWeekday(collectionsByBin[bin], propertyWeekday);
+        const usualDates: moment.Moment[] = collectionsByBin[bin]
+            .map(item => parseCollectionDate(item.collectionDate))
+            .map(date => date.subtract(daysFromUsualWeekday(date, usualWeekday), 'days'))
+            .sort((a, b) => a.diff(b));
+        const intervalDays: number = inferIntervalDays(usualDates);
+        if (intervalDays === null) {
+            console.log("No regular interval found for " + bin + " collections, not predicting them");
+            continue;
+        }
+
+        const template: BinCollectionData = collectionsByBin[bin][0];
+        const next: moment.Moment = usualDates[usualDates.length - 1].clone().add(intervalDays, 'days');
+        let predictedCount: number = 0;
+        while (predictedCount < PREDICTED_COLLECTIONS_PER_BIN) {
+            if (next.isSameOrAfter(today, 'day')) {
+                const predicted = new BinCollectionData(next.format("dddd"), next.format(BIN_DATE_FORMAT), template.binType,
+                    template.councilLabel);
+                predicted.predicted = true;
+                predictedCollectionData.push(predicted);
+                predictedCount++;
+            }
+            next.add(intervalDays, 'days');
+        }
+    }
+
+    console.log("Predicted collections: " + JSON.stringify(predictedCollectionData));
+
+    const predictedPropertyData = new PropertyData(propertyData.addressLine1, propertyData.propertyId,
+        propertyData.binCollectionData.concat(predictedCollectionData));
+    predictedPropertyData.collectionRules = propertyData.collectionRules;
+
+    return predictedPropertyData;
+}
+
+/**
+ * Works out the weekday a bin is usually collected on. A bin with enough dates of its own goes by them, so one on a
+ * round of its own, e.g. garden waste on Mondays at a property whose other bins go out on Thursdays, isn't taken to
+ * have moved every time. One with fewer goes by the property's usual weekday, unless none of its dates are on it
+ * and they are all on another.
+ */
+function inferBinWeekday(binCollectionData: BinCollectionData[], propertyWeekday: number): number {
+    const weekdays: number[] = [];
+    const collectionDates: { [collectionDate: string]: boolean } = {};
+    for (const item of binCollectionData) {
+        collectionDates[item.collectionDate] = true;
+        weekdays.push(parseCollectionDate(item.collectionDate).day());
+    }
+
+    if (Object.keys(collectionDates).length >= MIN_COLLECTION_DATES) {
+        return inferUsualWeekday(binCollectionData);
+    }
+
+    if (weekdays.length > 0 && weekdays.indexOf(propertyWeekday) === -1 && weekdays.every(weekday => weekday === weekdays[0])) {
+        return weekdays[0];
+    }
+
+    return propertyWeekday;
+}
+
+/**
+ * Finds the gap in days shared by most of the consecutive dates, which must be whole weeks and agreed by
+ * at least two gaps. Returns null otherwise.
+ */
+function inferIntervalDays(sortedDates: moment.Moment[]): number {
+    const gapCounts: { [gap: string]: number } = {};
+    let gapCount: number = 0;
+    for (let i = 1; i < sortedDates.length; i++) {
+        const gap: number = sortedDates[i].diff(sortedDates[i - 1], 'days');
+        if (gap > 0) {
+            gapCounts[gap] = (gapCounts[gap] || 0) + 1;
+            gapCount++;
+        }
+    }
+
+    for (const gap of Object.keys(gapCounts)) {
+        if (gapCounts[gap] >= 2 && gapCounts[gap] * 2 > gapCount && Number(gap) % 7 === 0) {
+            return Number(gap);
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Days from the nearest usual weekday, between three days early and three days late.
+ */
+function daysFromUsualWeekday(date: moment.Moment, usualWeekday: number): number {
+    return usualWeekday === null ? 0 : (date.day() - usualWeekday + 10) % 7 - 3;
+}
+
+/**
+ * Takes the usual date to be the nearest usual weekday, so collections can be found up to three days
+ * either side of it. A bank holiday explains the move if it falls in the usual date's week, no later than
+ * the moved collection.
+ */
+function compareWithUsualWeekday(collectionDate: string, usualWeekday: number, bankHolidays: string[]): Rescheduling {
+    if (usualWeekday === null) {
+        return null;
+    }
+
+    const date: moment.Moment = parseCollectionDate(collectionDate);
+    const daysMoved: number = daysFromUsualWeekday(date, usualWeekday);
+    if (daysMoved === 0) {
+        return null;
+    }
+
+    const usualDate: moment.Moment = date.clone().subtract(daysMoved, 'days');
+    const weekStart: moment.Moment = usualDate.clone().startOf('isoWeek');
+    const latest: moment.Moment = moment.max(usualDate, date);
+    const bankHoliday: string = bankHolidays.filter(holiday =>
+        moment.utc(holiday, BANK_HOLIDAY_DATE_FORMAT).isBetween(weekStart, latest, 'day', '[]'))[0] || null;
+
+    console.log("Collection on " + collectionDate + " has moved " + daysMoved + " days from " + usualDate.format(BIN_DATE_FORMAT)
+        + (bankHoliday ? " for the bank holiday on " + bankHoliday : ""));
+
+    return new Rescheduling(usualDate.format(BIN_DATE_FORMAT), daysMoved, bankHoliday);
+}
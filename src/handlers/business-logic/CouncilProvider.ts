@@ -0,0 +1,38 @@
+import { BinCollectionData } from "../../models/BinCollectionData";
+import { PropertyData } from "../../models/PropertyData";
+import { PropertyCandidate } from "../../models/PropertyCandidate";
+import { ShortAddress } from "../../models/ShortAddress";
+import { CollectionRules } from "../../models/CollectionRules";
+
+/**
+ * A council website or feed the skill can look bin collections up from.
+ */
+export interface CouncilProvider {
+    /** Council name, used in logging and spoken responses. */
+    readonly name: string;
+
+    /**
+     * Postcode areas ("CW") or outward codes ("SK11") this council collects from.
+     * An outward code takes precedence over an area registered by another provider.
+     */
+    readonly postcodeAreas: string[];
+
+    /** Council-specific quirks applied when grouping collections. */
+    readonly collectionRules?: CollectionRules;
+
+    getPropertyDataFromWebservice(address: ShortAddress): Promise<PropertyData>;
+
+    /**
+     * Finds the property id for the address, throwing AmbiguousAddressError when several
+     * properties match and the user needs to choose.
+     */
+    getPropertyIdFromWebservice(address: ShortAddress): Promise<string>;
+
+    /** Lists every property the council's search returns for the address. */
+    findPropertyCandidates(address: ShortAddress): Promise<PropertyCandidate[]>;
+
+    getBinDataFromWebService(propertyId: string): Promise<BinCollectionData[]>;
+
+    /** Maps the council's own name for a collection to a BinTypeCatalogue id, or UNKNOWN_BIN_TYPE if unrecognised. */
+    parseBinType(binTypeString: string): string;
+}
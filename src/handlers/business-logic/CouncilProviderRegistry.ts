@@ -0,0 +1,68 @@
+import { ShortAddress } from "../../models/ShortAddress";
+import { CouncilProvider } from "./CouncilProvider";
+import { CheshireEastClient } from "./CheshireEastClient";
+import { IcsFeedClient, IcsFeedConfig, loadIcsFeedConfigs } from "./IcsFeedClient";
+import { HttpClient } from "./http/HttpClient";
+import { getDefaultHttpClient } from "./http/ResilientHttpClient";
+
+const POSTCODE_AREA_PATTERN: RegExp = /^[A-Z]{1,2}/;
+
+export class CouncilProviderRegistry {
+    private providersByPostcodeArea: { [postcodeArea: string]: CouncilProvider } = {};
+
+    register(provider: CouncilProvider): CouncilProviderRegistry {
+        for (const postcodeArea of provider.postcodeAreas) {
+            const key: string = postcodeArea.toUpperCase();
+            const existing: CouncilProvider = this.providersByPostcodeArea[key];
+            if (existing && existing !== provider) {
+                throw new Error("Postcode area " + key + " is already registered to " + existing.name);
+            }
+            this.providersByPostcodeArea[key] = provider;
+        }
+
+        return this;
+    }
+
+    /**
+     * Finds the council for an address, matching the full outward code ("SK11") before
+     * falling back to the postcode area ("SK"). Returns null for unsupported postcodes.
+     */
+    getProviderForAddress(address: ShortAddress): CouncilProvider {
+        const outwardCode: string = findOutwardCode(address.postCode);
+        const postcodeAreaMatch = POSTCODE_AREA_PATTERN.exec(outwardCode);
+
+        const provider: CouncilProvider = this.providersByPostcodeArea[outwardCode]
+            || (postcodeAreaMatch && this.providersByPostcodeArea[postcodeAreaMatch[0]])
+            || null;
+
+        if (provider === null) {
+            console.log("No council provider registered for postcode " + address.postCode);
+        } else {
+            console.log("Using " + provider.name + " council provider for postcode " + address.postCode);
+        }
+
+        return provider;
+    }
+}
+
+/**
+ * Registers Cheshire East and every council with an iCalendar feed in the configuration, see loadIcsFeedConfigs.
+ */
+export function buildCouncilProviderRegistry(httpClient: HttpClient = getDefaultHttpClient(),
+                                             feedConfigs: IcsFeedConfig[] = loadIcsFeedConfigs()): CouncilProviderRegistry {
+    const registry: CouncilProviderRegistry = new CouncilProviderRegistry()
+        .register(new CheshireEastClient(httpClient));
+
+    for (const feedConfig of feedConfigs) {
+        registry.register(new IcsFeedClient(feedConfig, httpClient));
+    }
+
+    return registry;
+}
+
+function findOutwardCode(postCode: string): string {
+    const compactPostCode: string = postCode.toUpperCase().replace(/\s+/g, "");
+
+    // The inward code is always the final three characters.
+    return compactPostCode.length > 3 ? compactPostCode.substring(0, compactPostCode.length - 3) : compactPostCode;
+}
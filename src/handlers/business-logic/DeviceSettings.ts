@@ -0,0 +1,25 @@
+import { HandlerInput } from "ask-sdk";
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from "./LocalDates";
+
+/**
+ * Asks the Alexa settings service for the device's time zone, falling back to Europe/London
+ * when it isn't set or can't be read.
+ */
+export async function findDeviceTimeZone(handlerInput: HandlerInput): Promise<string> {
+    const deviceId: string = handlerInput.requestEnvelope.context.System.device.deviceId;
+
+    try {
+        const upsServiceClient = handlerInput.serviceClientFactory.getUpsServiceClient();
+        const timeZone: string = await upsServiceClient.getSystemTimeZone(deviceId);
+
+        if (isValidTimeZone(timeZone)) {
+            return timeZone;
+        }
+
+        console.log("Device time zone " + timeZone + " isn't recognised, using " + DEFAULT_TIME_ZONE);
+    } catch (err) {
+        console.error("Unable to obtain device time zone, using " + DEFAULT_TIME_ZONE, err);
+    }
+
+    return DEFAULT_TIME_ZONE;
+}
@@ -0,0 +1,178 @@
+import * as moment from 'moment';
+import { readFileSync } from 'fs';
+import { BinCollectionData } from "../../models/BinCollectionData";
+import { PropertyData } from "../../models/PropertyData";
+import { PropertyCandidate } from "../../models/PropertyCandidate";
+import { ShortAddress } from "../../models/ShortAddress";
+import { CollectionRules } from "../../models/CollectionRules";
+import { CouncilProvider } from "./CouncilProvider";
+import { UNKNOWN_BIN_TYPE } from "./BinTypeCatalogue";
+import { HttpClient } from "./http/HttpClient";
+import { getDefaultHttpClient } from "./http/ResilientHttpClient";
+import { CouncilUnreachableError } from "../../errors/CouncilUnreachableError";
+import { AddressNotFoundError } from "../../errors/AddressNotFoundError";
+import { expandIcsEvents, IcsOccurrence, parseIcs } from "./IcsParser";
+
+const BIN_DATE_FORMAT = "DD/MM/YYYY";
+
+const HISTORY_WEEKS = 8;
+
+const LOOKAHEAD_WEEKS = 26;
+
+const REQUIRED_FEED_FIELDS: Array<keyof IcsFeedConfig> = ["name", "postcodeAreas", "feedUrl", "binTypes"];
+
+export interface IcsFeedConfig {
+    name: string;
+    postcodeAreas: string[];
+    /** Feed to download. "{propertyId}" is replaced with the id found for the address. */
+    feedUrl: string;
+    /** Case-insensitive fragments of an event SUMMARY, mapped to the BinTypeCatalogue id they collect. */
+    binTypes: { [summaryFragment: string]: string };
+    /**
+     * Works out the feed's property id from an address. Defaults to the postcode without spaces, for feeds
+     * published per postcode.
+     */
+    findPropertyId?: (address: ShortAddress) => string;
+    collectionRules?: CollectionRules;
+}
+
+/**
+ * Reads the councils with iCalendar feeds from the JSON file named by COUNCIL_FEEDS_FILE, an array of IcsFeedConfig
+ * without findPropertyId. There are none without the file. A file that can't be used throws, so a bad deployment
+ * fails at start-up rather than leaving its councils unsupported.
+ */
+export function loadIcsFeedConfigs(env: { [name: string]: string } = process.env): IcsFeedConfig[] {
+    if (!env.COUNCIL_FEEDS_FILE) {
+        return [];
+    }
+
+    const feedConfigs: IcsFeedConfig[] = JSON.parse(readFileSync(env.COUNCIL_FEEDS_FILE, "utf8"));
+    if (!Array.isArray(feedConfigs)) {
+        throw new Error(env.COUNCIL_FEEDS_FILE + " should hold an array of council feeds");
+    }
+
+    feedConfigs.forEach((feedConfig, index) => {
+        const missing: string[] = REQUIRED_FEED_FIELDS.filter(field => !feedConfig[field]);
+        if (missing.length > 0) {
+            throw new Error("Council feed " + index + " in " + env.COUNCIL_FEEDS_FILE + " is missing " + missing.join(", "));
+        }
+    });
+
+    return feedConfigs;
+}
+
+/**
+ * Council provider for councils that publish collections as an iCalendar feed, so adding one
+ * only needs an IcsFeedConfig rather than a new scraper. Property ids are the feed's own id prefixed with the
+ * council's name, e.g. "example-borough-EX11AA", so they can't collide with another council's UPRNs in the
+ * schedule table.
+ */
+export class IcsFeedClient implements CouncilProvider {
+    readonly name: string;
+    readonly postcodeAreas: string[];
+    readonly collectionRules: CollectionRules;
+    private config: IcsFeedConfig;
+    private httpClient: HttpClient;
+    private propertyIdPrefix: string;
+
+    constructor(config: IcsFeedConfig, httpClient: HttpClient = getDefaultHttpClient()) {
+        this.config = config;
+        this.httpClient = httpClient;
+        this.name = config.name;
+        this.postcodeAreas = config.postcodeAreas;
+        this.collectionRules = config.collectionRules || {};
+        this.propertyIdPrefix = config.name.toLowerCase().replace(/[^a-z0-9]+/g, "-") + "-";
+    }
+
+    async getPropertyDataFromWebservice(address: ShortAddress): Promise<PropertyData> {
+        const propertyId: string = await this.getPropertyIdFromWebservice(address);
+        const binCollectionData: BinCollectionData[] = await this.getBinDataFromWebService(propertyId);
+
+        console.log("Bin collection data from " + this.name + " feed: " + JSON.stringify(binCollectionData));
+        return new PropertyData(encodeURIComponent(address.addressLine1) + ":" + address.postCode, propertyId, binCollectionData);
+    }
+
+    async getPropertyIdFromWebservice(address: ShortAddress): Promise<string> {
+        const feedPropertyId: string = this.config.findPropertyId
+            ? this.config.findPropertyId(address)
+            : address.postCode.replace(/\s+/g, "");
+
+        return this.propertyIdPrefix + feedPropertyId;
+    }
+
+    async findPropertyCandidates(address: ShortAddress): Promise<PropertyCandidate[]> {
+        const propertyId: string = await this.getPropertyIdFromWebservice(address);
+        return [new PropertyCandidate(propertyId, address.addressLine1 + ", " + address.postCode)];
+    }
+
+    async getBinDataFromWebService(propertyId: string): Promise<BinCollectionData[]> {
+        const options = {
+            uri: this.config.feedUrl.replace("{propertyId}", encodeURIComponent(this.toFeedPropertyId(propertyId)))
+        };
+
+        console.log("Calling " + this.name + " for bin collection feed: " + options.uri);
+        let serviceResponse: string;
+        try {
+            serviceResponse = await this.httpClient.get(options.uri);
+        } catch (err) {
+            throw new CouncilUnreachableError(this.name, err);
+        }
+
+        console.log("Got bin collection feed from " + this.name + ", parsing it.");
+        return this.parseIcsResponse(serviceResponse, moment());
+    }
+
+    parseIcsResponse(response: string, now: moment.Moment): BinCollectionData[] {
+        const from: moment.Moment = now.clone().subtract(HISTORY_WEEKS, 'week');
+        const to: moment.Moment = now.clone().add(LOOKAHEAD_WEEKS, 'week');
+
+        const occurrences: IcsOccurrence[] = expandIcsEvents(parseIcs(response), from, to);
+
+        const binCollectionData: BinCollectionData[] = [];
+
+        for (const occurrence of occurrences) {
+            let binTypes: string[] = this.parseBinTypes(occurrence.summary);
+            if (binTypes.length === 0) {
+                console.warn("Unmapped " + this.name + " event, keeping it as unknown: " + occurrence.summary);
+                binTypes = [UNKNOWN_BIN_TYPE];
+            }
+
+            for (const binType of binTypes) {
+                binCollectionData.push(new BinCollectionData(occurrence.date.format("dddd"), occurrence.date.format(BIN_DATE_FORMAT),
+                    binType, occurrence.summary));
+            }
+        }
+
+        if (binCollectionData.length === 0) {
+            throw new AddressNotFoundError(this.name, "No bin collections found in feed from " + this.name);
+        }
+
+        return binCollectionData;
+    }
+
+    parseBinType(binTypeString: string): string {
+        const binTypes: string[] = this.parseBinTypes(binTypeString);
+        return binTypes.length > 0 ? binTypes[0] : UNKNOWN_BIN_TYPE;
+    }
+
+    private toFeedPropertyId(propertyId: string): string {
+        return propertyId.indexOf(this.propertyIdPrefix) === 0 ? propertyId.substring(this.propertyIdPrefix.length) : propertyId;
+    }
+
+    private parseBinTypes(summary: string): string[] {
+        const binTypes: string[] = [];
+
+        if (!summary) {
+            return binTypes;
+        }
+
+        for (const summaryFragment of Object.keys(this.config.binTypes)) {
+            const binType: string = this.config.binTypes[summaryFragment];
+            if (summary.toLowerCase().indexOf(summaryFragment.toLowerCase()) !== -1 && binTypes.indexOf(binType) === -1) {
+                binTypes.push(binType);
+            }
+        }
+
+        return binTypes;
+    }
+}
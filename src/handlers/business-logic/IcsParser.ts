@@ -0,0 +1,267 @@
+import * as moment from 'moment';
+import { DEFAULT_TIME_ZONE, findUtcOffset, isValidTimeZone, localNow } from "./LocalDates";
+
+const ICS_DATE_FORMAT = "YYYYMMDD";
+
+/** A DATE, or a DATE-TIME in UTC (with Z) or local time (without). */
+const ICS_DATE_TIME_PATTERN = /^(\d{8})(?:T(\d{2})(\d{2})(\d{2})(Z?))?$/;
+
+const MAX_RECURRENCE_PERIODS = 5000;
+
+const WEEKDAY_OFFSETS: { [day: string]: number } = {
+    "MO": 0, "TU": 1, "WE": 2, "TH": 3, "FR": 4, "SA": 5, "SU": 6
+};
+
+const FREQUENCY_UNITS: { [frequency: string]: moment.unitOfTime.DurationConstructor } = {
+    "DAILY": "day",
+    "WEEKLY": "week",
+    "MONTHLY": "month",
+    "YEARLY": "year"
+};
+
+export class IcsEvent {
+    uid: string;
+    summary: string;
+    start: moment.Moment;
+    rrule: { [part: string]: string };
+    until: moment.Moment = null;
+    exdates: moment.Moment[] = [];
+    recurrenceId: moment.Moment;
+}
+
+export class IcsOccurrence {
+    summary: string;
+    date: moment.Moment;
+
+    constructor(summary: string, date: moment.Moment) {
+        this.summary = summary;
+        this.date = date;
+    }
+}
+
+/**
+ * Parses the VEVENTs out of an RFC 5545 calendar. Collections are all-day affairs, so only the date of
+ * DTSTART, EXDATE and RECURRENCE-ID is kept: times in UTC or another TZID are converted to the feed's own time
+ * zone first, its X-WR-TIMEZONE if it has one, otherwise timeZone.
+ */
+export function parseIcs(ics: string, timeZone: string = DEFAULT_TIME_ZONE): IcsEvent[] {
+    const events: IcsEvent[] = [];
+    let event: IcsEvent = null;
+    let feedTimeZone: string = timeZone;
+
+    for (const line of unfoldLines(ics)) {
+        const separatorIndex: number = findValueSeparator(line);
+        if (separatorIndex === -1) {
+            continue;
+        }
+
+        const nameAndParameters: string = line.substring(0, separatorIndex);
+        const name: string = nameAndParameters.split(";")[0].toUpperCase();
+        const value: string = line.substring(separatorIndex + 1);
+        const parseDate = (dateValue: string): moment.Moment =>
+            parseIcsDate(dateValue, feedTimeZone, findParameter(nameAndParameters, "TZID"));
+
+        if (name === "X-WR-TIMEZONE" && event === null && isValidTimeZone(value.trim())) {
+            feedTimeZone = value.trim();
+        } else if (name === "BEGIN" && value.toUpperCase() === "VEVENT") {
+            event = new IcsEvent();
+        } else if (name === "END" && value.toUpperCase() === "VEVENT") {
+            if (event !== null && event.start && event.start.isValid()) {
+                events.push(event);
+            } else {
+                console.log("Ignoring VEVENT without a valid DTSTART");
+            }
+            event = null;
+        } else if (event !== null) {
+            switch (name) {
+                case "UID":
+                    event.uid = value;
+                    break;
+                case "SUMMARY":
+                    event.summary = unescapeText(value);
+                    break;
+                case "DTSTART":
+                    event.start = parseDate(value);
+                    break;
+                case "RRULE":
+                    event.rrule = parseRecurrenceRule(value);
+                    event.until = event.rrule.UNTIL ? parseDate(event.rrule.UNTIL) : null;
+                    break;
+                case "EXDATE":
+                    for (const exdate of value.split(",")) {
+                        event.exdates.push(parseDate(exdate));
+                    }
+                    break;
+                case "RECURRENCE-ID":
+                    event.recurrenceId = parseDate(value);
+                    break;
+            }
+        }
+    }
+
+    return events;
+}
+
+/**
+ * Expands recurring events into the individual occurrences between the two dates (inclusive),
+ * honouring EXDATEs and RECURRENCE-ID overrides for moved collections, in date order.
+ */
+export function expandIcsEvents(events: IcsEvent[], from: moment.Moment, to: moment.Moment): IcsOccurrence[] {
+    const occurrences: IcsOccurrence[] = [];
+
+    const overrides: IcsEvent[] = events.filter(event => event.recurrenceId);
+
+    for (const event of events) {
+        if (event.recurrenceId) {
+            if (isWithin(event.start, from, to)) {
+                occurrences.push(new IcsOccurrence(event.summary, event.start));
+            }
+            continue;
+        }
+
+        const excludedDates: moment.Moment[] = event.exdates.concat(overrides
+            .filter(override => override.uid === event.uid)
+            .map(override => override.recurrenceId));
+
+        for (const date of findOccurrenceDates(event, to)) {
+            const excluded: boolean = excludedDates.some(excludedDate => excludedDate.isSame(date, 'day'));
+            if (!excluded && isWithin(date, from, to)) {
+                occurrences.push(new IcsOccurrence(event.summary, date));
+            }
+        }
+    }
+
+    return occurrences.sort((a, b) => a.date.diff(b.date));
+}
+
+function findOccurrenceDates(event: IcsEvent, to: moment.Moment): moment.Moment[] {
+    if (!event.rrule) {
+        return [event.start];
+    }
+
+    const unit: moment.unitOfTime.DurationConstructor = FREQUENCY_UNITS[event.rrule.FREQ];
+    if (!unit) {
+        console.log("Unsupported RRULE frequency " + event.rrule.FREQ + " for event " + event.uid);
+        return [event.start];
+    }
+
+    const interval: number = parseInt(event.rrule.INTERVAL || "1", 10);
+    const count: number = event.rrule.COUNT ? parseInt(event.rrule.COUNT, 10) : null;
+    const until: moment.Moment = event.until;
+    const weekdays: number[] = event.rrule.FREQ === "WEEKLY" && event.rrule.BYDAY
+        ? event.rrule.BYDAY.split(",").map(day => WEEKDAY_OFFSETS[day.slice(-2)]).sort((a, b) => a - b)
+        : null;
+
+    const dates: moment.Moment[] = [];
+
+    for (let period = 0; period < MAX_RECURRENCE_PERIODS; period++) {
+        const periodStart: moment.Moment = event.start.clone().add(period * interval, unit);
+
+        const candidates: moment.Moment[] = weekdays === null
+            ? [periodStart]
+            : weekdays.map(offset => periodStart.clone().startOf('isoWeek').add(offset, 'day'))
+                .filter(candidate => candidate.isSameOrAfter(event.start, 'day'));
+
+        for (const candidate of candidates) {
+            if ((until && candidate.isAfter(until, 'day'))
+                || (count !== null && dates.length >= count)
+                || candidate.isAfter(to, 'day')) {
+                return dates;
+            }
+            dates.push(candidate);
+        }
+    }
+
+    return dates;
+}
+
+function unfoldLines(ics: string): string[] {
+    const lines: string[] = [];
+
+    for (const line of ics.split(/\r?\n/)) {
+        if ((line.charAt(0) === " " || line.charAt(0) === "\t") && lines.length > 0) {
+            lines[lines.length - 1] += line.substring(1);
+        } else if (line.length > 0) {
+            lines.push(line);
+        }
+    }
+
+    return lines;
+}
+
+function findValueSeparator(line: string): number {
+    // Parameter values may be quoted and contain colons, e.g. TZID="Europe/London:Summer".
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+        const character: string = line.charAt(i);
+        if (character === "\"") {
+            quoted = !quoted;
+        } else if (character === ":" && !quoted) {
+            return i;
+        }
+    }
+
+    return -1;
+}
+
+function parseRecurrenceRule(value: string): { [part: string]: string } {
+    const rule: { [part: string]: string } = {};
+
+    for (const part of value.split(";")) {
+        const [key, partValue] = part.split("=");
+        rule[key.toUpperCase()] = partValue;
+    }
+
+    return rule;
+}
+
+/**
+ * The date in timeZone of a DATE or DATE-TIME value. Local times are in valueTimeZone, the value's TZID, if it
+ * is one we know, and otherwise already in timeZone.
+ */
+function parseIcsDate(value: string, timeZone: string, valueTimeZone: string): moment.Moment {
+    const match: RegExpExecArray = ICS_DATE_TIME_PATTERN.exec(value.trim());
+    if (match === null) {
+        return moment.invalid();
+    }
+
+    const isUtc: boolean = match[5] === "Z";
+    const isOtherZone: boolean = !isUtc && isValidTimeZone(valueTimeZone) && valueTimeZone !== timeZone;
+    if (match[2] === undefined || (!isUtc && !isOtherZone)) {
+        return moment(match[1], ICS_DATE_FORMAT, true);
+    }
+
+    const date: moment.Moment = moment.utc(match[1], ICS_DATE_FORMAT, true);
+    const wallClock: number = Date.UTC(date.year(), date.month(), date.date(),
+        parseInt(match[2], 10), parseInt(match[3], 10), parseInt(match[4], 10));
+    const instant: Date = isUtc ? new Date(wallClock) : fromWallClock(wallClock, valueTimeZone);
+
+    return moment(localNow(timeZone, () => instant).format(ICS_DATE_FORMAT), ICS_DATE_FORMAT, true);
+}
+
+/**
+ * The instant a wall clock time (as milliseconds since the epoch, read as if it were UTC) shows in the time zone.
+ */
+function fromWallClock(wallClock: number, timeZone: string): Date {
+    const firstGuess: number = wallClock - findUtcOffset(timeZone, new Date(wallClock)) * 60000;
+    return new Date(wallClock - findUtcOffset(timeZone, new Date(firstGuess)) * 60000);
+}
+
+function findParameter(nameAndParameters: string, parameter: string): string {
+    for (const part of nameAndParameters.split(";").slice(1)) {
+        const separator: number = part.indexOf("=");
+        if (part.substring(0, separator).toUpperCase() === parameter) {
+            return part.substring(separator + 1).replace(/^"|"$/g, "");
+        }
+    }
+
+    return null;
+}
+
+function unescapeText(value: string): string {
+    return value.replace(/\\([\\;,nN])/g, (match, escaped) => escaped.toLowerCase() === "n" ? "\n" : escaped);
+}
+
+function isWithin(date: moment.Moment, from: moment.Moment, to: moment.Moment): boolean {
+    return date.isBetween(from, to, 'day', '[]');
+}
@@ -0,0 +1,82 @@
+import * as moment from 'moment';
+
+/**
+ * Date helpers that work in the device's time zone rather than the Lambda's UTC clock.
+ * Nothing here reads the system clock directly, so edge cases such as the DST changeover can be
+ * tested by passing a fixed Clock.
+ */
+export type Clock = () => Date;
+
+export const systemClock: Clock = () => new Date();
+
+export const DEFAULT_TIME_ZONE = "Europe/London";
+
+const CALENDAR_DATE_FORMAT = "YYYY-MM-DD";
+
+interface DateTimeFormatPart {
+    type: string;
+    value: string;
+}
+
+/**
+ * The ES5 lib doesn't declare Intl.DateTimeFormat.formatToParts, though every Lambda Node.js runtime has it.
+ */
+interface PartsFormatter {
+    formatToParts(date: Date): DateTimeFormatPart[];
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+    if (!timeZone) {
+        return false;
+    }
+
+    try {
+        new Intl.DateTimeFormat("en-GB", { timeZone });
+        return true;
+    } catch (err) {
+        return false;
+    }
+}
+
+/**
+ * Minutes the time zone is ahead of UTC at the given instant, e.g. 60 for Europe/London in summer.
+ */
+export function findUtcOffset(timeZone: string, instant: Date): number {
+    const formatter = new Intl.DateTimeFormat("en-GB", {
+        timeZone,
+        hour12: false,
+        year: "numeric", month: "2-digit", day: "2-digit",
+        hour: "2-digit", minute: "2-digit", second: "2-digit"
+    }) as Intl.DateTimeFormat & PartsFormatter;
+
+    const parts: { [type: string]: number } = {};
+    for (const part of formatter.formatToParts(instant)) {
+        parts[part.type] = parseInt(part.value, 10);
+    }
+
+    // Some Intl implementations format midnight as hour 24.
+    const wallClockAsUtc: number = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour % 24, parts.minute, parts.second);
+    const wholeSeconds: number = Math.floor(instant.getTime() / 1000) * 1000;
+
+    return Math.round((wallClockAsUtc - wholeSeconds) / 60000);
+}
+
+/**
+ * The current time as the device's wall clock shows it.
+ */
+export function localNow(timeZone: string, clock: Clock = systemClock): moment.Moment {
+    const instant: Date = clock();
+    return moment(instant).utcOffset(findUtcOffset(timeZone, instant));
+}
+
+/**
+ * Today's date in the device's time zone, as midnight UTC so day arithmetic is unaffected by DST.
+ * Collection dates should be parsed with moment.utc to compare against it.
+ */
+export function localToday(timeZone: string, clock: Clock = systemClock): moment.Moment {
+    return toCalendarDate(localNow(timeZone, clock));
+}
+
+export function toCalendarDate(localTime: moment.Moment): moment.Moment {
+    return moment.utc(localTime.format(CALENDAR_DATE_FORMAT), CALENDAR_DATE_FORMAT);
+}
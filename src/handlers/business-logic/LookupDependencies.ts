@@ -0,0 +1,40 @@
+import { CouncilProviderRegistry, buildCouncilProviderRegistry } from "./CouncilProviderRegistry";
+import { loadIcsFeedConfigs } from "./IcsFeedClient";
+import { CachePolicy, loadCachePolicy } from "./CachePolicy";
+import { PropertyRepository } from "../dao/PropertyRepository";
+import { buildPropertyRepository } from "../dao/PropertyRepositoryFactory";
+import { UserAddressRepository } from "../dao/UserAddressRepository";
+import { buildUserAddressRepository } from "../dao/UserAddressRepositoryFactory";
+
+/**
+ * What PropertyLookup finds addresses and bin data through. The entry points build one and give it to the
+ * handlers through their constructors; tests give them in-memory stores instead.
+ */
+export interface LookupDependencies {
+    propertyRepository: PropertyRepository;
+    userAddressRepository: UserAddressRepository;
+    councilProviderRegistry: CouncilProviderRegistry;
+    cachePolicy: CachePolicy;
+}
+
+let defaultLookupDependencies: LookupDependencies = null;
+
+export function buildLookupDependencies(env: { [name: string]: string } = process.env,
+                                        cachePolicy: CachePolicy = loadCachePolicy(env)): LookupDependencies {
+    return {
+        propertyRepository: buildPropertyRepository(env, cachePolicy),
+        userAddressRepository: buildUserAddressRepository(env),
+        councilProviderRegistry: buildCouncilProviderRegistry(undefined, loadIcsFeedConfigs(env)),
+        cachePolicy
+    };
+}
+
+/**
+ * The LookupDependencies the Lambda entry points share, built from the environment on first use.
+ */
+export function getDefaultLookupDependencies(): LookupDependencies {
+    if (defaultLookupDependencies === null) {
+        defaultLookupDependencies = buildLookupDependencies();
+    }
+    return defaultLookupDependencies;
+}
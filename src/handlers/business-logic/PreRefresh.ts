@@ -0,0 +1,169 @@
+import * as moment from 'moment';
+import { PropertyData } from '../../models/PropertyData';
+import { CouncilProvider } from "./CouncilProvider";
+import { CouncilProviderRegistry } from "./CouncilProviderRegistry";
+import { assessCachedData, CachePolicy, hasSameCollections, readNumber } from "./CachePolicy";
+import { addressFromCacheKey, recordCacheEvent } from "./PropertyDataCache";
+import { Clock, systemClock } from "./LocalDates";
+import { PropertyRepository, StoredProperty } from "../dao/PropertyRepository";
+import { CouncilFormatChangedError } from "../../errors/CouncilFormatChangedError";
+import { UnsupportedAreaError } from "../../errors/UnsupportedAreaError";
+
+/**
+ * Which stored properties a scheduled run refreshes, and how hard it leans on the council. Each setting can be
+ * overridden with the environment variable named in loadPreRefreshPolicy.
+ */
+export interface PreRefreshPolicy {
+    /** Stored data that will be stale this many hours from now is refreshed ahead of time. */
+    lookAheadHours: number;
+    /** Requests made to the council at once. */
+    concurrency: number;
+    /** Properties refreshed at most in one run, oldest fetch first; the rest wait for the next run. */
+    maxPropertiesPerRun: number;
+    /** No refresh is started with less than this many milliseconds of the run left, so those started can finish. */
+    timeReserveMs: number;
+}
+
+export const DEFAULT_PRE_REFRESH_POLICY: PreRefreshPolicy = {
+    lookAheadHours: 6,
+    concurrency: 2,
+    maxPropertiesPerRun: 100,
+    timeReserveMs: 10000
+};
+
+/**
+ * refreshed: the council's collections differed from those stored. unchanged: they were the same, and only the
+ * fetch time moved on. failed: the council couldn't be asked or the data couldn't be stored. format-changed: the
+ * council's page couldn't be read.
+ */
+export type PreRefreshOutcome = "refreshed" | "unchanged" | "failed" | "format-changed";
+
+export interface PreRefreshSummary {
+    /** Stored properties with an address pointing at them. */
+    scanned: number;
+    /** Properties that were stale, or would be within the look-ahead, but not yet expired. */
+    due: number;
+    /** Due properties left for the next run by maxPropertiesPerRun, or as the run was running out of time. */
+    deferred: number;
+    refreshed: number;
+    unchanged: number;
+    failed: number;
+    formatChanged: number;
+}
+
+export function loadPreRefreshPolicy(env: { [name: string]: string } = process.env): PreRefreshPolicy {
+    return {
+        lookAheadHours: readNumber(env, "PRE_REFRESH_LOOK_AHEAD_HOURS", DEFAULT_PRE_REFRESH_POLICY.lookAheadHours),
+        concurrency: Math.max(1, readNumber(env, "PRE_REFRESH_CONCURRENCY", DEFAULT_PRE_REFRESH_POLICY.concurrency)),
+        maxPropertiesPerRun: readNumber(env, "PRE_REFRESH_MAX_PROPERTIES", DEFAULT_PRE_REFRESH_POLICY.maxPropertiesPerRun),
+        timeReserveMs: readNumber(env, "PRE_REFRESH_TIME_RESERVE_MS", DEFAULT_PRE_REFRESH_POLICY.timeReserveMs)
+    };
+}
+
+/**
+ * Refreshes stored properties before they go stale, so lookups keep being answered from fresh data. Expired
+ * data is left for the next lookup to refresh. Refreshing keeps each schedule's expiry time, which runs from the
+ * last lookup that asked for it, so properties nobody asks about still age out through the TTL. remainingTimeMs says how long the run has
+ * left, e.g. from the Lambda context.
+ */
+export async function preRefreshProperties(repository: PropertyRepository, councilProviderRegistry: CouncilProviderRegistry,
+                                           cachePolicy: CachePolicy, policy: PreRefreshPolicy, clock: Clock = systemClock,
+                                           remainingTimeMs: () => number = () => Infinity): Promise<PreRefreshSummary> {
+    const storedProperties: StoredProperty[] = await repository.listStoredProperties();
+
+    const lookAheadTime: Date = moment(clock()).add(policy.lookAheadHours, 'hours').toDate();
+    const due: StoredProperty[] = storedProperties
+        .filter(stored => assessCachedData(stored.propertyData, cachePolicy, clock) !== "expired"
+            && assessCachedData(stored.propertyData, cachePolicy, () => lookAheadTime) !== "fresh")
+        .sort(byOldestFetch);
+    const selected: StoredProperty[] = due.slice(0, policy.maxPropertiesPerRun);
+
+    const summary: PreRefreshSummary = {
+        scanned: storedProperties.length,
+        due: due.length,
+        deferred: due.length - selected.length,
+        refreshed: 0,
+        unchanged: 0,
+        failed: 0,
+        formatChanged: 0
+    };
+
+    const started: number = await runWithConcurrency(selected, policy.concurrency, () => remainingTimeMs() >= policy.timeReserveMs,
+        async stored => {
+            const outcome: PreRefreshOutcome = await refreshStoredProperty(repository, councilProviderRegistry, stored, clock);
+            if (outcome === "format-changed") {
+                summary.formatChanged++;
+            } else {
+                summary[outcome]++;
+            }
+        });
+    summary.deferred += selected.length - started;
+
+    return summary;
+}
+
+async function refreshStoredProperty(repository: PropertyRepository, councilProviderRegistry: CouncilProviderRegistry,
+                                     stored: StoredProperty, clock: Clock): Promise<PreRefreshOutcome> {
+    const key: string = stored.propertyData.addressLine1;
+
+    try {
+        const councilProvider: CouncilProvider = councilProviderRegistry.getProviderForAddress(addressFromCacheKey(key));
+        if (councilProvider === null) {
+            throw new UnsupportedAreaError(addressFromCacheKey(key).postCode);
+        }
+
+        const refreshed = new PropertyData(key, stored.propertyData.propertyId,
+            await councilProvider.getBinDataFromWebService(stored.propertyData.propertyId));
+        refreshed.fetchedAt = clock().toISOString();
+        refreshed.requestedAt = stored.propertyData.requestedAt;
+        // There's no request to sync reminders with, so the next lookup does it when it sees the change.
+        const unchanged: boolean = hasSameCollections(stored.propertyData.binCollectionData, refreshed.binCollectionData);
+        refreshed.changedAt = unchanged ? stored.propertyData.changedAt : refreshed.fetchedAt;
+        refreshed.remindersSyncedAt = stored.propertyData.remindersSyncedAt;
+
+        await repository.putScheduleInDatabase(refreshed, stored.expiresAt);
+        recordCacheEvent("refreshed", key, "scheduled");
+
+        return unchanged ? "unchanged" : "refreshed";
+    } catch (err) {
+        recordCacheEvent("refresh-failed", key, err.name);
+        return err instanceof CouncilFormatChangedError ? "format-changed" : "failed";
+    }
+}
+
+/**
+ * Data upgraded from before fetch times were recorded sorts first, as the oldest of all.
+ */
+function byOldestFetch(stored: StoredProperty, other: StoredProperty): number {
+    const fetchedAt: string = stored.propertyData.fetchedAt || "";
+    const otherFetchedAt: string = other.propertyData.fetchedAt || "";
+
+    return fetchedAt < otherFetchedAt ? -1 : fetchedAt > otherFetchedAt ? 1 : 0;
+}
+
+/**
+ * Runs the task for each item, with at most concurrency tasks running at once, until canStart says no more
+ * should be started. Returns how many were started.
+ */
+async function runWithConcurrency<T>(items: T[], concurrency: number, canStart: () => boolean,
+                                     task: (item: T) => Promise<void>): Promise<number> {
+    let next: number = 0;
+    let stopped: boolean = false;
+    const worker = async (): Promise<void> => {
+        while (next < items.length && !stopped) {
+            if (!canStart()) {
+                stopped = true;
+                return;
+            }
+            await task(items[next++]);
+        }
+    };
+
+    const workers: Array<Promise<void>> = [];
+    for (let i = 0; i < Math.min(concurrency, items.length); i++) {
+        workers.push(worker());
+    }
+
+    await Promise.all(workers);
+    return next;
+}
@@ -0,0 +1,126 @@
+import { PropertyData } from '../../models/PropertyData';
+import { ShortAddress } from "../../models/ShortAddress";
+import { Clock, systemClock } from "./LocalDates";
+
+/**
+ * memory-hit: the stored data was found in a warm container's memory, without reading the database.
+ * hit: stored data was fresh. stale-hit: stale stored data was answered from while it refreshes in the background.
+ * shared-hit: nothing was stored for the address, but fresh data was stored for its property under another spelling.
+ * miss: nothing usable was stored, so the council was asked first.
+ * refreshed / refresh-failed: the outcome of asking the council.
+ */
+export type CacheEvent = "memory-hit" | "hit" | "stale-hit" | "shared-hit" | "miss" | "refreshed" | "refresh-failed";
+
+/** Lookups kept in memory at most, so a busy container doesn't grow without limit. */
+const MAX_MEMORY_ENTRIES = 1000;
+
+interface MemoryEntry {
+    propertyData: PropertyData;
+    storedAt: number;
+}
+
+let memoryEntries: { [key: string]: MemoryEntry } = {};
+
+let memoryKeys: string[] = [];
+
+let eventCounts: { [event: string]: number } = {};
+
+let pendingRefreshes: { [key: string]: Promise<void> } = {};
+
+export function cacheKeyFor(address: ShortAddress): string {
+    return encodeURIComponent(address.addressLine1) + ":" + address.postCode;
+}
+
+/**
+ * The address a key was made from by cacheKeyFor. encodeURIComponent escapes colons, so the first one is the separator.
+ */
+export function addressFromCacheKey(key: string): ShortAddress {
+    const separator: number = key.indexOf(":");
+    return new ShortAddress(decodeURIComponent(key.substring(0, separator)), key.substring(separator + 1));
+}
+
+/**
+ * Logs the event in a form a CloudWatch metric filter can count, e.g. { $.cacheEvent = "stale-hit" }.
+ */
+export function recordCacheEvent(event: CacheEvent, key: string, detail: string = null): void {
+    eventCounts[event] = (eventCounts[event] || 0) + 1;
+    console.log(JSON.stringify({ cacheEvent: event, key, detail }));
+}
+
+/**
+ * How many of each event this container has recorded.
+ */
+export function getCacheEventCounts(): { [event: string]: number } {
+    return { ...eventCounts };
+}
+
+/**
+ * Returns the data stored in memory for the key within the last maxAgeSeconds, or null.
+ */
+export function findInMemory(key: string, maxAgeSeconds: number, clock: Clock = systemClock): PropertyData {
+    const entry: MemoryEntry = memoryEntries[key];
+    if (!entry || clock().getTime() - entry.storedAt >= maxAgeSeconds * 1000) {
+        return null;
+    }
+
+    return entry.propertyData;
+}
+
+export function storeInMemory(key: string, propertyData: PropertyData, clock: Clock = systemClock): void {
+    if (!memoryEntries[key]) {
+        memoryKeys.push(key);
+    }
+    memoryEntries[key] = { propertyData, storedAt: clock().getTime() };
+
+    while (memoryKeys.length > MAX_MEMORY_ENTRIES) {
+        delete memoryEntries[memoryKeys.shift()];
+    }
+}
+
+/**
+ * Runs the refresh without waiting for it, unless one is already running for the key. Failures are
+ * logged rather than thrown, as nobody is waiting for the result.
+ */
+export function refreshInBackground(key: string, refresh: () => Promise<PropertyData>): void {
+    if (pendingRefreshes[key]) {
+        return;
+    }
+
+    pendingRefreshes[key] = refresh()
+        .then(() => undefined, err => console.error("Background refresh failed for " + key, err))
+        .then(() => {
+            delete pendingRefreshes[key];
+        });
+}
+
+/**
+ * Waits for every background refresh that has been started to finish, or for timeoutMs if given. Lambda freezes
+ * the container once a response has gone, so refreshes still running then are abandoned: they may never finish,
+ * and stale data is left for the scheduled refresh. Resolves to whether every refresh finished.
+ */
+export async function settleBackgroundRefreshes(timeoutMs: number = null): Promise<boolean> {
+    const pending: Array<Promise<void>> = Object.keys(pendingRefreshes).map(key => pendingRefreshes[key]);
+    const allSettled: Promise<boolean> = Promise.all(pending).then(() => true);
+    if (timeoutMs === null) {
+        return allSettled;
+    }
+
+    let timer: NodeJS.Timeout;
+    const timedOut: Promise<boolean> = new Promise(resolve => timer = setTimeout(() => resolve(false), timeoutMs));
+    const settled: boolean = await Promise.race([allSettled, timedOut]);
+    clearTimeout(timer);
+
+    if (!settled) {
+        console.log("Responding without waiting for " + Object.keys(pendingRefreshes).length + " background refreshes");
+    }
+    return settled;
+}
+
+/**
+ * Forgets everything held in memory, including the event counts.
+ */
+export function clearPropertyDataCache(): void {
+    memoryEntries = {};
+    memoryKeys = [];
+    eventCounts = {};
+}
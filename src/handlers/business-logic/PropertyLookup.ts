@@ -0,0 +1,387 @@
+import { HandlerInput } from "ask-sdk";
+import { services } from "ask-sdk-model";
+import * as moment from 'moment';
+import { PropertyData } from '../../models/PropertyData';
+import { BinCollectionData } from '../../models/BinCollectionData';
+import { ShortAddress } from "../../models/ShortAddress";
+import { PropertyCandidate } from "../../models/PropertyCandidate";
+import { UserAddress } from "../../models/UserAddress";
+import { CouncilProvider } from "./CouncilProvider";
+import { predictCollections } from "./CollectionPattern";
+import { assessCachedData, CacheState, countUpcomingCollections, hasSameCollections } from "./CachePolicy";
+import { cacheKeyFor, findInMemory, recordCacheEvent, refreshInBackground, storeInMemory } from "./PropertyDataCache";
+import { DEFAULT_TIME_ZONE, localToday } from "./LocalDates";
+import { LookupDependencies } from "./LookupDependencies";
+import { PropertyRepository } from "../dao/PropertyRepository";
+import { MissingPermissionError } from "../../errors/MissingPermissionError";
+import { IncompleteAddressError } from "../../errors/IncompleteAddressError";
+import { UnsupportedAreaError } from "../../errors/UnsupportedAreaError";
+import { CouncilUnreachableError } from "../../errors/CouncilUnreachableError";
+import { AddressNotFoundError } from "../../errors/AddressNotFoundError";
+
+export const PERMISSIONS = ['read::alexa:device:all:address'];
+
+/** Stored data is recorded as requested at most this often, as each record is a database write. */
+const REQUEST_RECORDED_EVERY_HOURS = 24;
+
+export function hasAddressPermission(handlerInput: HandlerInput): boolean {
+    const consentToken = handlerInput.requestEnvelope.context.System.user.permissions
+        && handlerInput.requestEnvelope.context.System.user.permissions.consentToken;
+
+    return !!consentToken;
+}
+
+export function requireAddressPermission(handlerInput: HandlerInput): void {
+    if (!hasAddressPermission(handlerInput)) {
+        throw new MissingPermissionError(PERMISSIONS);
+    }
+}
+
+export async function findDeviceAddress(handlerInput: HandlerInput): Promise<ShortAddress> {
+    const deviceAddressServiceClient = handlerInput.serviceClientFactory.getDeviceAddressServiceClient();
+    const deviceId: string = handlerInput.requestEnvelope.context.System.device.deviceId;
+
+    let address: services.deviceAddress.Address;
+    try {
+        address = await deviceAddressServiceClient.getFullAddress(deviceId);
+    } catch (err) {
+        if (err.name === 'ServiceError' && err.statusCode === 403) {
+            throw new MissingPermissionError(PERMISSIONS);
+        }
+        throw err;
+    }
+
+    if (!address.addressLine1 || !address.postalCode) {
+        throw new IncompleteAddressError(address.addressLine1, address.postalCode);
+    }
+
+    const shortAddress = new ShortAddress(address.addressLine1.toUpperCase(), address.postalCode.toUpperCase());
+
+    return shortAddress;
+}
+
+/**
+ * Finds the address to look bins up for: the one the user told us with SetMyAddressIntent if there
+ * is one, with the property they chose for it, otherwise the device address.
+ */
+export async function findAddress(dependencies: LookupDependencies, handlerInput: HandlerInput): Promise<ShortAddress> {
+    const userAddress: UserAddress = await findUserAddress(dependencies, handlerInput.requestEnvelope.context.System.user.userId);
+    if (userAddress !== null) {
+        return new ShortAddress(userAddress.addressLine1, userAddress.postCode, userAddress.propertyId);
+    }
+
+    requireAddressPermission(handlerInput);
+
+    const address: ShortAddress = await findDeviceAddress(handlerInput);
+    console.log("Address obtained from device successfully.");
+
+    return address;
+}
+
+/**
+ * Fetches bin data for the property the user chose and remembers it as their address. The address isn't pointed
+ * at the property, as another user may have chosen a different property for the same words.
+ */
+export async function storeUserAddress(dependencies: LookupDependencies, userId: string, address: ShortAddress, propertyId: string,
+                                       onRefresh?: (propertyData: PropertyData) => Promise<void>): Promise<PropertyData> {
+    const propertyData: PropertyData = await storeChosenProperty(dependencies,
+        new ShortAddress(address.addressLine1, address.postCode, propertyId), propertyId, onRefresh);
+
+    await dependencies.userAddressRepository.putUserAddress(new UserAddress(userId, address.addressLine1, address.postCode, propertyId));
+
+    return propertyData;
+}
+
+export async function clearUserAddress(dependencies: LookupDependencies, userId: string): Promise<void> {
+    await dependencies.userAddressRepository.deleteUserAddress(userId);
+}
+
+export async function findPropertyCandidates(dependencies: LookupDependencies, address: ShortAddress): Promise<PropertyCandidate[]> {
+    return findCouncilProvider(dependencies, address).findPropertyCandidates(address);
+}
+
+/**
+ * Finds bin data for the address, preferring a warm container's memory, then the database, over the council
+ * webservice. Stale stored data is answered from while it is refreshed in the background, if the cache policy
+ * allows; the entry points wait a short while for the refresh before responding (see settleBackgroundRefreshes).
+ * When the council can't be reached, stale stored data is used, with predicted collections added from its
+ * history. onRefresh is called with the data answered from when its collections have changed since reminders were
+ * last synced with them, whether this lookup or an earlier refresh found the change. An address with the property a
+ * user chose is looked up by that property.
+ */
+export async function obtainPropertyData(dependencies: LookupDependencies, address: ShortAddress,
+                                         onRefresh?: (propertyData: PropertyData) => Promise<void>): Promise<PropertyData> {
+    const storedPropertyData: PropertyData = await findStoredPropertyData(dependencies, address);
+    const councilProvider: CouncilProvider = findCouncilProvider(dependencies, address);
+
+    // Reusing the stored property id means a property the user chose from several matches sticks.
+    const propertyData: PropertyData = await obtainStoredOrCouncilData(dependencies, councilProvider, address, storedPropertyData,
+        () => address.propertyId
+            ? Promise.resolve(address.propertyId)
+            : storedPropertyData !== null
+                ? Promise.resolve(storedPropertyData.propertyId)
+                : councilProvider.getPropertyIdFromWebservice(address));
+    await syncRemindersIfChanged(dependencies, propertyData, onRefresh);
+
+    return propertyData;
+}
+
+/**
+ * Finds bin data for a property the caller has already identified at the address, with the same
+ * database-then-council flow as obtainPropertyData. Unless the address is already stored against the property,
+ * the council's search for the address must list it, so a caller can't point an address at someone else's bins.
+ */
+export async function obtainPropertyDataForProperty(dependencies: LookupDependencies, address: ShortAddress,
+                                                    propertyId: string): Promise<PropertyData> {
+    const storedPropertyData: PropertyData = await findStoredPropertyData(dependencies, address);
+    const councilProvider: CouncilProvider = findCouncilProvider(dependencies, address);
+
+    if (storedPropertyData === null || storedPropertyData.propertyId !== propertyId) {
+        const candidates: PropertyCandidate[] = await councilProvider.findPropertyCandidates(address);
+        if (!candidates.some(candidate => candidate.propertyId === propertyId)) {
+            throw new AddressNotFoundError(councilProvider.name, "Property " + propertyId + " isn't at " + cacheKeyFor(address));
+        }
+    }
+
+    if (storedPropertyData !== null && storedPropertyData.propertyId !== propertyId) {
+        // The address is stored against another property, maybe one a user chose, so leave it alone.
+        console.log("Address is stored against property " + storedPropertyData.propertyId + ", fetching " + propertyId + " without storing");
+        return fetchPropertyData(councilProvider, address, propertyId);
+    }
+
+    return obtainStoredOrCouncilData(dependencies, councilProvider, address, storedPropertyData, () => Promise.resolve(propertyId));
+}
+
+async function obtainStoredOrCouncilData(dependencies: LookupDependencies, councilProvider: CouncilProvider, address: ShortAddress,
+                                         storedPropertyData: PropertyData, findPropertyId: () => Promise<string>): Promise<PropertyData> {
+    const key: string = lookupKeyFor(address);
+    const cacheState: CacheState = storedPropertyData !== null ? assessCachedData(storedPropertyData, dependencies.cachePolicy) : null;
+
+    if (cacheState === "fresh") {
+        recordCacheEvent("hit", key);
+        await recordRequest(dependencies, address, storedPropertyData);
+        return applyCollectionRules(storedPropertyData, councilProvider);
+    }
+
+    if (cacheState === "stale" && dependencies.cachePolicy.staleWhileRevalidate) {
+        recordCacheEvent("stale-hit", key);
+        refreshInBackground(key, async () => refreshPropertyData(dependencies, councilProvider, address, await findPropertyId(),
+            storedPropertyData));
+        await recordRequest(dependencies, address, storedPropertyData);
+        return applyCollectionRules(storedPropertyData, councilProvider);
+    }
+
+    let propertyId: string = null;
+    if (storedPropertyData === null && !address.propertyId) {
+        propertyId = await findPropertyId();
+        const sharedPropertyData: PropertyData = await findSharedPropertyData(dependencies, address, propertyId);
+        if (sharedPropertyData !== null) {
+            recordCacheEvent("shared-hit", key);
+            await recordRequest(dependencies, address, sharedPropertyData);
+            return applyCollectionRules(sharedPropertyData, councilProvider);
+        }
+    }
+
+    recordCacheEvent("miss", key, cacheState);
+    console.log("No valid bin data found in database for this property, trying webservice");
+
+    try {
+        return await refreshPropertyData(dependencies, councilProvider, address, propertyId || await findPropertyId(),
+            storedPropertyData);
+    } catch (err) {
+        if (err instanceof CouncilUnreachableError && storedPropertyData !== null) {
+            const predictedPropertyData: PropertyData = predictCollections(applyCollectionRules(storedPropertyData, councilProvider),
+                localToday(DEFAULT_TIME_ZONE));
+            if (hasUpcomingCollections(predictedPropertyData)) {
+                console.log(councilProvider.name + " is unreachable, answering from stale stored data and predictions");
+                return predictedPropertyData;
+            }
+        }
+        throw err;
+    }
+}
+
+/**
+ * Fetches and stores bin data for the property the user picked when their address matched
+ * several, so later lookups for the address use it without asking again.
+ */
+export async function storeChosenProperty(dependencies: LookupDependencies, address: ShortAddress, propertyId: string,
+                                          onRefresh?: (propertyData: PropertyData) => Promise<void>): Promise<PropertyData> {
+    const propertyData: PropertyData = await refreshPropertyData(dependencies, findCouncilProvider(dependencies, address), address,
+        propertyId, null);
+    await syncRemindersIfChanged(dependencies, propertyData, onRefresh);
+
+    return propertyData;
+}
+
+async function findStoredPropertyData(dependencies: LookupDependencies, address: ShortAddress): Promise<PropertyData> {
+    const repository: PropertyRepository = dependencies.propertyRepository;
+    const key: string = lookupKeyFor(address);
+    const memoryPropertyData: PropertyData = findInMemory(key, dependencies.cachePolicy.memoryCacheSeconds);
+    if (memoryPropertyData !== null) {
+        recordCacheEvent("memory-hit", key);
+        return memoryPropertyData;
+    }
+
+    try {
+        const storedPropertyData: PropertyData = address.propertyId
+            ? await repository.getPropertyDataByPropertyId(cacheKeyFor(address), address.propertyId, true)
+            : await repository.getPropertyDataFromDatabase(encodeURIComponent(address.addressLine1), address.postCode, true);
+        if (storedPropertyData !== null) {
+            storeInMemory(key, storedPropertyData);
+        }
+        return storedPropertyData;
+    } catch (err) {
+        console.error("Error attempting to obtain data from database", err);
+        return null;
+    }
+}
+
+/**
+ * Finds fresh data stored for the property under another spelling of its address, and points this spelling at it.
+ */
+async function findSharedPropertyData(dependencies: LookupDependencies, address: ShortAddress, propertyId: string): Promise<PropertyData> {
+    const repository: PropertyRepository = dependencies.propertyRepository;
+    const key: string = cacheKeyFor(address);
+
+    let sharedPropertyData: PropertyData;
+    try {
+        sharedPropertyData = await repository.getPropertyDataByPropertyId(key, propertyId);
+    } catch (err) {
+        console.error("Error attempting to obtain data for property " + propertyId + " from database", err);
+        return null;
+    }
+
+    if (sharedPropertyData !== null) {
+        try {
+            await repository.linkAddressToProperty(key, propertyId);
+        } catch (err) {
+            console.error("Error attempting to store address against property " + propertyId, err);
+        }
+        storeInMemory(key, sharedPropertyData);
+    }
+
+    return sharedPropertyData;
+}
+
+/**
+ * Keeps stored data that lookups answer from, and the address pointing at it, from expiring: the TTL runs from
+ * the last request rather than the last fetch, as the scheduled refresh keeps data fresh without extending it.
+ */
+async function recordRequest(dependencies: LookupDependencies, address: ShortAddress, propertyData: PropertyData): Promise<void> {
+    if (propertyData.requestedAt && moment().diff(moment(propertyData.requestedAt), 'hours', true) < REQUEST_RECORDED_EVERY_HOURS) {
+        return;
+    }
+
+    try {
+        // The address of a property a user chose may point at another property, so it is left alone.
+        await dependencies.propertyRepository.recordRequest(propertyData.propertyId, address.propertyId ? null : cacheKeyFor(address));
+        propertyData.requestedAt = moment().toISOString();
+    } catch (err) {
+        console.error("Error attempting to record request for property " + propertyData.propertyId, err);
+    }
+}
+
+/**
+ * Calls onRefresh, which re-syncs reminders with the request's access tokens, when the collections have changed
+ * since reminders were last synced, and records that they have been. The scheduled refresh has no request to sync
+ * with, so the next lookup does it. Predicted collections are left out of reminders until the council confirms them.
+ */
+async function syncRemindersIfChanged(dependencies: LookupDependencies, propertyData: PropertyData,
+                                      onRefresh?: (propertyData: PropertyData) => Promise<void>): Promise<void> {
+    if (!onRefresh || !propertyData.changedAt
+        || (propertyData.remindersSyncedAt && propertyData.remindersSyncedAt >= propertyData.changedAt)
+        || propertyData.binCollectionData.some(binCollectionData => binCollectionData.predicted)) {
+        return;
+    }
+
+    await onRefresh(propertyData);
+    propertyData.remindersSyncedAt = moment().toISOString();
+
+    try {
+        await dependencies.propertyRepository.recordRemindersSynced(propertyData.propertyId, propertyData.remindersSyncedAt);
+    } catch (err) {
+        console.error("Error attempting to record reminders synced for property " + propertyData.propertyId, err);
+    }
+}
+
+async function findUserAddress(dependencies: LookupDependencies, userId: string): Promise<UserAddress> {
+    try {
+        return await dependencies.userAddressRepository.getUserAddress(userId);
+    } catch (err) {
+        console.error("Error attempting to obtain user address from database, using device address", err);
+        return null;
+    }
+}
+
+function findCouncilProvider(dependencies: LookupDependencies, address: ShortAddress): CouncilProvider {
+    const councilProvider: CouncilProvider = dependencies.councilProviderRegistry.getProviderForAddress(address);
+    if (councilProvider === null) {
+        throw new UnsupportedAreaError(address.postCode);
+    }
+
+    return councilProvider;
+}
+
+/**
+ * previousPropertyData is what was stored for the address, if anything, for telling whether the collections have changed.
+ */
+async function refreshPropertyData(dependencies: LookupDependencies, councilProvider: CouncilProvider, address: ShortAddress,
+                                   propertyId: string, previousPropertyData: PropertyData): Promise<PropertyData> {
+    const key: string = lookupKeyFor(address);
+
+    let propertyData: PropertyData;
+    try {
+        propertyData = await fetchPropertyData(councilProvider, address, propertyId);
+    } catch (err) {
+        recordCacheEvent("refresh-failed", key, err.name);
+        throw err;
+    }
+    recordCacheEvent("refreshed", key);
+    // A lookup asked for the data, so its expiry runs from now.
+    propertyData.requestedAt = propertyData.fetchedAt;
+    const previous: PropertyData = previousPropertyData !== null && previousPropertyData.propertyId === propertyId
+        ? previousPropertyData : null;
+    propertyData.changedAt = previous !== null && hasSameCollections(previous.binCollectionData, propertyData.binCollectionData)
+        ? previous.changedAt : propertyData.fetchedAt;
+    propertyData.remindersSyncedAt = previous !== null ? previous.remindersSyncedAt : null;
+
+    try {
+        if (address.propertyId) {
+            await dependencies.propertyRepository.putScheduleInDatabase(propertyData, null);
+        } else {
+            await dependencies.propertyRepository.putPropertyDataInDatabase(propertyData);
+        }
+    } catch (err) {
+        console.error("Error attempting to store data in database", err);
+    }
+    storeInMemory(key, propertyData);
+
+    return propertyData;
+}
+
+async function fetchPropertyData(councilProvider: CouncilProvider, address: ShortAddress, propertyId: string): Promise<PropertyData> {
+    const binCollectionData: BinCollectionData[] = await councilProvider.getBinDataFromWebService(propertyId);
+    console.log("Bin collection data from " + councilProvider.name + ": " + JSON.stringify(binCollectionData));
+
+    const propertyData = new PropertyData(cacheKeyFor(address), propertyId, binCollectionData);
+    propertyData.fetchedAt = moment().toISOString();
+
+    return applyCollectionRules(propertyData, councilProvider);
+}
+
+/**
+ * Keeps a property a user chose apart, in memory and in the cache events, from whatever the address itself points at.
+ */
+function lookupKeyFor(address: ShortAddress): string {
+    return address.propertyId ? cacheKeyFor(address) + "#" + address.propertyId : cacheKeyFor(address);
+}
+
+function applyCollectionRules(propertyData: PropertyData, councilProvider: CouncilProvider): PropertyData {
+    propertyData.collectionRules = councilProvider.collectionRules || {};
+    return propertyData;
+}
+
+function hasUpcomingCollections(propertyData: PropertyData): boolean {
+    return countUpcomingCollections(propertyData.binCollectionData, localToday(DEFAULT_TIME_ZONE)) > 0;
+}
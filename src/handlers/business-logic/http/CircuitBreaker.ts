@@ -0,0 +1,79 @@
+export class CircuitOpenError extends Error {
+    constructor(key: string) {
+        super("Circuit open for " + key + ", not calling it");
+        Object.setPrototypeOf(this, CircuitOpenError.prototype);
+        this.name = "CircuitOpenError";
+    }
+}
+
+class CircuitState {
+    consecutiveFailures = 0;
+    openedAt: number = null;
+}
+
+/**
+ * Stops us calling a site that keeps failing, so requests fail fast and can fall back to cached
+ * data. After resetTimeoutMs a single trial call is let through; success closes the circuit again.
+ * State lives for the life of the Lambda container.
+ */
+export class CircuitBreaker {
+    private states: { [key: string]: CircuitState } = {};
+    private failureThreshold: number;
+    private resetTimeoutMs: number;
+    private now: () => number;
+
+    constructor(failureThreshold: number, resetTimeoutMs: number, now: () => number = Date.now) {
+        this.failureThreshold = failureThreshold;
+        this.resetTimeoutMs = resetTimeoutMs;
+        this.now = now;
+    }
+
+    /**
+     * Runs the action unless the circuit is open. Only errors isFailure accepts count towards opening it; any
+     * other error means the site answered, so it closes the circuit like a success.
+     */
+    async execute<T>(key: string, action: () => Promise<T>, isFailure: (err: Error) => boolean = () => true): Promise<T> {
+        const state: CircuitState = this.stateFor(key);
+
+        if (state.openedAt !== null) {
+            if (this.now() - state.openedAt < this.resetTimeoutMs) {
+                throw new CircuitOpenError(key);
+            }
+            console.log("Circuit half open for " + key + ", trying a request");
+            // Only let one trial request through until it settles.
+            state.openedAt = this.now();
+        }
+
+        try {
+            const result: T = await action();
+            state.consecutiveFailures = 0;
+            state.openedAt = null;
+            return result;
+        } catch (err) {
+            if (!isFailure(err)) {
+                state.consecutiveFailures = 0;
+                state.openedAt = null;
+                throw err;
+            }
+
+            state.consecutiveFailures++;
+            if (state.consecutiveFailures >= this.failureThreshold) {
+                console.error("Opening circuit for " + key + " after " + state.consecutiveFailures + " failures");
+                state.openedAt = this.now();
+            }
+            throw err;
+        }
+    }
+
+    isOpen(key: string): boolean {
+        const state: CircuitState = this.stateFor(key);
+        return state.openedAt !== null && this.now() - state.openedAt < this.resetTimeoutMs;
+    }
+
+    private stateFor(key: string): CircuitState {
+        if (!this.states[key]) {
+            this.states[key] = new CircuitState();
+        }
+        return this.states[key];
+    }
+}
@@ -0,0 +1,47 @@
+export class HttpResponse {
+    statusCode: number;
+    body: string;
+
+    constructor(statusCode: number, body: string) {
+        this.statusCode = statusCode;
+        this.body = body;
+    }
+}
+
+/**
+ * Makes a single HTTP request. Swapped for a fake in tests.
+ */
+export interface HttpTransport {
+    get(uri: string, timeoutMs: number): Promise<HttpResponse>;
+}
+
+/**
+ * What council providers use to fetch pages and feeds. Resolves with the body of a 2xx response.
+ */
+export interface HttpClient {
+    get(uri: string): Promise<string>;
+}
+
+export class HttpStatusError extends Error {
+    statusCode: number;
+
+    constructor(uri: string, statusCode: number) {
+        super("Http error " + statusCode + " from " + uri);
+        Object.setPrototypeOf(this, HttpStatusError.prototype);
+        this.name = "HttpStatusError";
+        this.statusCode = statusCode;
+    }
+}
+
+/**
+ * Whether a failed get is worth trying again: timeouts, network errors, 5xx and 429 are, as the site may
+ * recover, while any other status is the same however often it's asked.
+ */
+export function isRetryable(err: Error): boolean {
+    if (err instanceof HttpStatusError) {
+        return err.statusCode >= 500 || err.statusCode === 429;
+    }
+
+    // Anything else is a network failure or timeout from the transport.
+    return true;
+}
@@ -0,0 +1,15 @@
+import * as requestPromise from 'request-promise-native';
+import { HttpResponse, HttpTransport } from "./HttpClient";
+
+export class RequestPromiseTransport implements HttpTransport {
+    async get(uri: string, timeoutMs: number): Promise<HttpResponse> {
+        const response = await requestPromise.get({
+            uri,
+            timeout: timeoutMs,
+            resolveWithFullResponse: true,
+            simple: false
+        });
+
+        return new HttpResponse(response.statusCode, response.body);
+    }
+}
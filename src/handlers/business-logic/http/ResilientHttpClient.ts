@@ -0,0 +1,95 @@
+import { parse } from 'url';
+import { HttpClient, HttpResponse, HttpStatusError, HttpTransport, isRetryable } from "./HttpClient";
+import { CircuitBreaker } from "./CircuitBreaker";
+import { RequestPromiseTransport } from "./RequestPromiseTransport";
+
+export interface ResilientHttpClientOptions {
+    /** Timeout for each attempt. */
+    timeoutMs: number;
+    maxAttempts: number;
+    /** Delay before the first retry, doubled for each retry after that. */
+    backoffMs: number;
+    /**
+     * Total time allowed across all attempts of one get. A lookup with nothing stored makes two gets one after
+     * the other, the address search and then the collections, so both together must fit inside Alexa's 8 second
+     * response limit.
+     */
+    budgetMs: number;
+}
+
+export const DEFAULT_HTTP_OPTIONS: ResilientHttpClientOptions = {
+    timeoutMs: 2000,
+    maxAttempts: 2,
+    backoffMs: 250,
+    budgetMs: 3250
+};
+
+/**
+ * HttpClient for idempotent GETs to council websites: each attempt has a timeout, network errors
+ * and 5xx responses are retried with backoff within an overall budget, and a per-host circuit
+ * breaker fails fast while a site is down.
+ */
+export class ResilientHttpClient implements HttpClient {
+    private transport: HttpTransport;
+    private circuitBreaker: CircuitBreaker;
+    private options: ResilientHttpClientOptions;
+    private now: () => number;
+    private sleep: (ms: number) => Promise<void>;
+
+    constructor(transport: HttpTransport, circuitBreaker: CircuitBreaker,
+                options: ResilientHttpClientOptions = DEFAULT_HTTP_OPTIONS,
+                now: () => number = Date.now,
+                sleep: (ms: number) => Promise<void> = ms => new Promise(resolve => setTimeout(resolve, ms))) {
+        this.transport = transport;
+        this.circuitBreaker = circuitBreaker;
+        this.options = options;
+        this.now = now;
+        this.sleep = sleep;
+    }
+
+    async get(uri: string): Promise<string> {
+        return this.circuitBreaker.execute(parse(uri).host, () => this.getWithRetries(uri), isRetryable);
+    }
+
+    private async getWithRetries(uri: string): Promise<string> {
+        const startedAt: number = this.now();
+        let attempt = 1;
+
+        while (true) {
+            const remainingMs: number = this.options.budgetMs - (this.now() - startedAt);
+
+            try {
+                const response: HttpResponse = await this.transport.get(uri, Math.min(this.options.timeoutMs, remainingMs));
+                if (response.statusCode < 200 || response.statusCode >= 300) {
+                    throw new HttpStatusError(uri, response.statusCode);
+                }
+                return response.body;
+            } catch (err) {
+                const backoffMs: number = this.options.backoffMs * Math.pow(2, attempt - 1);
+                const elapsedMs: number = this.now() - startedAt;
+
+                if (attempt >= this.options.maxAttempts || !isRetryable(err)
+                    || elapsedMs + backoffMs + this.options.timeoutMs > this.options.budgetMs) {
+                    console.error("Giving up on " + uri + " after " + attempt + " attempts: " + err.message);
+                    throw err;
+                }
+
+                console.log("Attempt " + attempt + " for " + uri + " failed, retrying in " + backoffMs + "ms: " + err.message);
+                await this.sleep(backoffMs);
+                attempt++;
+            }
+        }
+    }
+}
+
+let defaultHttpClient: HttpClient = null;
+
+/**
+ * The HttpClient shared by council providers, so the circuit breaker state is shared too.
+ */
+export function getDefaultHttpClient(): HttpClient {
+    if (defaultHttpClient === null) {
+        defaultHttpClient = new ResilientHttpClient(new RequestPromiseTransport(), new CircuitBreaker(3, 60000));
+    }
+    return defaultHttpClient;
+}
@@ -1,94 +1,134 @@
 import { DynamoDB } from "aws-sdk";
-import * as moment from 'moment';
-import { PropertyData } from '../../models/PropertyData';
-import { BinCollectionData } from '../../models/BinCollectionData';
-
-const BIN_DATE_FORMAT = "DD/MM/YYYY";
-
-const dynamoDB = new DynamoDB.DocumentClient();
-
-export class DynamoDBDao {
+import { StorageError } from '../../errors/StorageError';
+import { CachePolicy, loadCachePolicy } from "../business-logic/CachePolicy";
+import { VersionedPropertyRepository } from "./VersionedPropertyRepository";
+import { AddressRecord, LegacyPropertyItem, ScheduleChanges, ScheduleRecord } from "./PropertySchema";
+
+/**
+ * Address items in the DYNAMODB_TABLE table, keyed by addressLine1, and schedules in the
+ * DYNAMODB_SCHEDULE_TABLE table, keyed by uprn. Enable the TTL of both tables on expiresAt.
+ */
+export class DynamoDBDao extends VersionedPropertyRepository {
+    private tableName: string;
+
+    private scheduleTableName: string;
+
+    private documentClient: DynamoDB.DocumentClient;
+
+    constructor(cachePolicy: CachePolicy = loadCachePolicy(), tableName: string = process.env.DYNAMODB_TABLE,
+                scheduleTableName: string = process.env.DYNAMODB_SCHEDULE_TABLE,
+                documentClient: DynamoDB.DocumentClient = new DynamoDB.DocumentClient()) {
+        super(cachePolicy);
+        this.tableName = tableName;
+        this.scheduleTableName = scheduleTableName;
+        this.documentClient = documentClient;
+    }
 
-    async getPropertyDataFromDatabase(addressLine1: string, postalCode: string): Promise<PropertyData> {
+    protected async getAddressItem(addressKey: string): Promise<AddressRecord | LegacyPropertyItem> {
         const params = {
             Key: {
-                'addressLine1': addressLine1 + ":" + postalCode,
+                'addressLine1': addressKey,
             },
-            TableName: process.env.DYNAMODB_TABLE
+            TableName: this.tableName
         };
 
         console.log('Trying database lookup using params: ' + JSON.stringify(params));
 
-        let data = null;
-
         try {
-            data = await dynamoDB.get(params).promise();
+            const data = await this.documentClient.get(params).promise();
             console.log("data from database: " + JSON.stringify(data));
+            return (data.Item as AddressRecord | LegacyPropertyItem) || null;
         } catch (err) {
-            console.error("Dynamo DB client error.", err);
-        }
-
-        let propertyDataToReturn: PropertyData = null;
-
-        if (data.Item && data.Item.propertyId) {
-            console.log("Found propertyId in database: " + data.Item.propertyId);
-            if (data.Item.binCollectionData !== null) {
-                console.log("Found bin collection data in database.");
-                const binCollectionDataList: BinCollectionData[] = JSON.parse(data.Item.binCollectionData);
-
-                propertyDataToReturn = new PropertyData(addressLine1, data.Item.propertyId, binCollectionDataList);
-            }
+            throw new StorageError("Unable to read property data from database", err);
         }
+    }
 
-        if (propertyDataToReturn === null) {
-            console.log("No data found in database for this property.");
+    protected async putAddressItem(record: AddressRecord): Promise<void> {
+        try {
+            await this.documentClient.put({ Item: record, TableName: this.tableName }).promise();
+        } catch (err) {
+            throw new StorageError("Unable to write property data to database", err);
         }
+    }
 
-        if (this.isBinDataStale(propertyDataToReturn.binCollectionData)) {
-            console.log("Stored bin collection data is stale for this property, refreshing.");
-            propertyDataToReturn = null;
+    protected async deleteAddressItem(addressKey: string): Promise<void> {
+        try {
+            await this.documentClient.delete({ Key: { 'addressLine1': addressKey }, TableName: this.tableName }).promise();
+        } catch (err) {
+            throw new StorageError("Unable to delete property data from database", err);
         }
-
-        return propertyDataToReturn;
     }
 
-    isBinDataStale(binCollectionData: BinCollectionData[]): boolean {
-        const now = moment();
+    protected async scanAddressItems(): Promise<Array<AddressRecord | LegacyPropertyItem>> {
+        return await this.scanTable(this.tableName) as Array<AddressRecord | LegacyPropertyItem>;
+    }
 
-        const filteredCollectionData: BinCollectionData[] = binCollectionData.filter(item => {
-            return this.collectionIsTodayOrLater(now, item);
-        });
+    protected async getScheduleItem(uprn: string): Promise<ScheduleRecord> {
+        try {
+            const data = await this.documentClient.get({ Key: { 'uprn': uprn }, TableName: this.scheduleTableName }).promise();
+            return (data.Item as ScheduleRecord) || null;
+        } catch (err) {
+            throw new StorageError("Unable to read bin schedule from database", err);
+        }
+    }
 
-        console.log("Filtered bin collection data length is " + filteredCollectionData.length);
+    /**
+     * Writes the schedule with an expiresAt time in epoch seconds for the table's TTL.
+     */
+    protected async putScheduleItem(record: ScheduleRecord): Promise<void> {
+        console.log("Writing bin data to database.");
 
-        if (filteredCollectionData.length <= 3) {
-            return true;
+        try {
+            await this.documentClient.put({ Item: record, TableName: this.scheduleTableName }).promise();
+            console.log("Bin data written to database");
+        } catch (err) {
+            throw new StorageError("Unable to write bin schedule to database", err);
         }
-
-        return false;
     }
 
-    collectionIsTodayOrLater(today: moment.Moment, binCollectionData: BinCollectionData): boolean {
-        return (moment(binCollectionData.collectionDate, BIN_DATE_FORMAT).isSameOrAfter(today, 'day'));
+    protected async scanScheduleItems(): Promise<ScheduleRecord[]> {
+        return await this.scanTable(this.scheduleTableName) as ScheduleRecord[];
     }
 
-    async putPropertyDataInDatabase(propertyData: PropertyData) {
-        console.log("Writing bin data to database.");
+    protected async updateScheduleItem(uprn: string, changes: ScheduleChanges): Promise<boolean> {
+        const names: string[] = Object.keys(changes);
+        const values: DynamoDB.DocumentClient.ExpressionAttributeValueMap = {};
+        names.forEach(name => values[":" + name] = changes[name as keyof ScheduleChanges]);
 
         const params = {
-            Item: {
-                'addressLine1': propertyData.addressLine1,
-                'binCollectionData': JSON.stringify(propertyData.binCollectionData),
-                'propertyId': propertyData.propertyId,
-            },
-            TableName: process.env.DYNAMODB_TABLE
-          };
+            Key: { 'uprn': uprn },
+            TableName: this.scheduleTableName,
+            UpdateExpression: "SET " + names.map(name => name + " = :" + name).join(", "),
+            ConditionExpression: "attribute_exists(uprn)",
+            ExpressionAttributeValues: values
+        };
 
         try {
-            await dynamoDB.put(params).promise();
-            console.log("Bin data written to database");
+            await this.documentClient.update(params).promise();
+            return true;
         } catch (err) {
-            console.error("Dynamo DB client error.", err);
+            if (err.code === "ConditionalCheckFailedException") {
+                return false;
+            }
+            throw new StorageError("Unable to update bin schedule in database", err);
         }
     }
-}
\ No newline at end of file
+
+    private async scanTable(tableName: string): Promise<DynamoDB.DocumentClient.ItemList> {
+        const items: DynamoDB.DocumentClient.ItemList = [];
+
+        let startKey: DynamoDB.DocumentClient.Key = undefined;
+        do {
+            let data: DynamoDB.DocumentClient.ScanOutput;
+            try {
+                data = await this.documentClient.scan({ TableName: tableName, ExclusiveStartKey: startKey }).promise();
+            } catch (err) {
+                throw new StorageError("Unable to scan " + tableName + " in database", err);
+            }
+            items.push(...data.Items);
+            startKey = data.LastEvaluatedKey;
+        } while (startKey);
+
+        return items;
+    }
+}
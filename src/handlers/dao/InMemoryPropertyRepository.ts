@@ -0,0 +1,78 @@
+import { CachePolicy, loadCachePolicy } from "../business-logic/CachePolicy";
+import { VersionedPropertyRepository } from "./VersionedPropertyRepository";
+import { AddressRecord, LegacyPropertyItem, ScheduleChanges, ScheduleRecord } from "./PropertySchema";
+
+export type AddressItems = { [addressKey: string]: AddressRecord | LegacyPropertyItem };
+
+export type ScheduleItems = { [uprn: string]: ScheduleRecord };
+
+/**
+ * Keeps bin data in maps for the life of the instance, with the same staleness rules and upgrades as the
+ * database. For tests, and for running the skill without anywhere to store data.
+ */
+export class InMemoryPropertyRepository extends VersionedPropertyRepository {
+    private addresses: AddressItems;
+
+    private schedules: ScheduleItems;
+
+    constructor(cachePolicy: CachePolicy = loadCachePolicy(), addresses: AddressItems = {}, schedules: ScheduleItems = {}) {
+        super(cachePolicy);
+        this.addresses = addresses;
+        this.schedules = schedules;
+    }
+
+    protected async getAddressItem(addressKey: string): Promise<AddressRecord | LegacyPropertyItem> {
+        const item: AddressRecord | LegacyPropertyItem = this.addressItems()[addressKey];
+        return item ? { ...item, addressLine1: addressKey } : null;
+    }
+
+    protected async putAddressItem(record: AddressRecord): Promise<void> {
+        this.addressItems()[record.addressLine1] = record;
+    }
+
+    protected async deleteAddressItem(addressKey: string): Promise<void> {
+        delete this.addressItems()[addressKey];
+    }
+
+    protected async scanAddressItems(): Promise<Array<AddressRecord | LegacyPropertyItem>> {
+        const items: AddressItems = this.addressItems();
+        return Object.keys(items).map(addressKey => ({ ...items[addressKey], addressLine1: addressKey }));
+    }
+
+    protected async getScheduleItem(uprn: string): Promise<ScheduleRecord> {
+        return this.scheduleItems()[uprn] || null;
+    }
+
+    protected async putScheduleItem(record: ScheduleRecord): Promise<void> {
+        this.scheduleItems()[record.uprn] = record;
+    }
+
+    protected async scanScheduleItems(): Promise<ScheduleRecord[]> {
+        const items: ScheduleItems = this.scheduleItems();
+        return Object.keys(items).map(uprn => items[uprn]);
+    }
+
+    protected async updateScheduleItem(uprn: string, changes: ScheduleChanges): Promise<boolean> {
+        const schedule: ScheduleRecord = this.scheduleItems()[uprn];
+        if (!schedule) {
+            return false;
+        }
+
+        this.scheduleItems()[uprn] = { ...schedule, ...changes };
+        return true;
+    }
+
+    /**
+     * The map address items are kept in, keyed like the property table.
+     */
+    protected addressItems(): AddressItems {
+        return this.addresses;
+    }
+
+    /**
+     * The map schedules are kept in, keyed by UPRN.
+     */
+    protected scheduleItems(): ScheduleItems {
+        return this.schedules;
+    }
+}
@@ -0,0 +1,36 @@
+import { UserAddress } from '../../models/UserAddress';
+import { UserAddressRepository } from "./UserAddressRepository";
+
+export type UserAddressItems = { [userId: string]: UserAddress };
+
+/**
+ * Keeps the addresses users have set up in a map for the life of the instance. For tests, and for running the
+ * skill without anywhere to store them.
+ */
+export class InMemoryUserAddressRepository implements UserAddressRepository {
+    private userAddresses: UserAddressItems;
+
+    constructor(userAddresses: UserAddressItems = {}) {
+        this.userAddresses = userAddresses;
+    }
+
+    async getUserAddress(userId: string): Promise<UserAddress> {
+        const userAddress: UserAddress = this.userAddressItems()[userId];
+        return userAddress && userAddress.propertyId ? userAddress : null;
+    }
+
+    async putUserAddress(userAddress: UserAddress): Promise<void> {
+        this.userAddressItems()[userAddress.userId] = userAddress;
+    }
+
+    async deleteUserAddress(userId: string): Promise<void> {
+        delete this.userAddressItems()[userId];
+    }
+
+    /**
+     * The map user addresses are kept in, keyed by userId.
+     */
+    protected userAddressItems(): UserAddressItems {
+        return this.userAddresses;
+    }
+}
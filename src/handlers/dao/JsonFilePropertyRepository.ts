@@ -0,0 +1,111 @@
+import { promises as fs } from "fs";
+import { StorageError } from '../../errors/StorageError';
+import { CachePolicy, loadCachePolicy } from "../business-logic/CachePolicy";
+import { VersionedPropertyRepository } from "./VersionedPropertyRepository";
+import { AddressRecord, LegacyPropertyItem, ScheduleChanges, ScheduleRecord } from "./PropertySchema";
+
+interface PropertyFile {
+    addresses: { [addressKey: string]: AddressRecord | LegacyPropertyItem };
+    schedules: { [uprn: string]: ScheduleRecord };
+}
+
+/**
+ * A file from before schedules were kept by UPRN: legacy items keyed by address alone.
+ */
+type LegacyPropertyFile = { [addressKey: string]: LegacyPropertyItem };
+
+/**
+ * Keeps bin data in a JSON file of address items and schedules, for running the skill locally without AWS.
+ * The file is created on the first write; a file of items keyed by address alone, from before schedules were
+ * kept by UPRN, is read as legacy items. Meant for one process at a time; concurrent writers can lose each
+ * other's items.
+ */
+export class JsonFilePropertyRepository extends VersionedPropertyRepository {
+    private filePath: string;
+
+    constructor(filePath: string, cachePolicy: CachePolicy = loadCachePolicy()) {
+        super(cachePolicy);
+        this.filePath = filePath;
+    }
+
+    protected async getAddressItem(addressKey: string): Promise<AddressRecord | LegacyPropertyItem> {
+        const item: AddressRecord | LegacyPropertyItem = (await this.readFile()).addresses[addressKey];
+        return item ? { ...item, addressLine1: addressKey } : null;
+    }
+
+    protected async putAddressItem(record: AddressRecord): Promise<void> {
+        const file: PropertyFile = await this.readFile();
+        file.addresses[record.addressLine1] = record;
+        await this.writeFile(file);
+    }
+
+    protected async deleteAddressItem(addressKey: string): Promise<void> {
+        const file: PropertyFile = await this.readFile();
+        delete file.addresses[addressKey];
+        await this.writeFile(file);
+    }
+
+    protected async scanAddressItems(): Promise<Array<AddressRecord | LegacyPropertyItem>> {
+        const addresses = (await this.readFile()).addresses;
+        return Object.keys(addresses).map(addressKey => ({ ...addresses[addressKey], addressLine1: addressKey }));
+    }
+
+    protected async getScheduleItem(uprn: string): Promise<ScheduleRecord> {
+        return (await this.readFile()).schedules[uprn] || null;
+    }
+
+    protected async putScheduleItem(record: ScheduleRecord): Promise<void> {
+        const file: PropertyFile = await this.readFile();
+        file.schedules[record.uprn] = record;
+        await this.writeFile(file);
+    }
+
+    protected async scanScheduleItems(): Promise<ScheduleRecord[]> {
+        const schedules = (await this.readFile()).schedules;
+        return Object.keys(schedules).map(uprn => schedules[uprn]);
+    }
+
+    protected async updateScheduleItem(uprn: string, changes: ScheduleChanges): Promise<boolean> {
+        const file: PropertyFile = await this.readFile();
+        if (!file.schedules[uprn]) {
+            return false;
+        }
+
+        file.schedules[uprn] = { ...file.schedules[uprn], ...changes };
+        await this.writeFile(file);
+        return true;
+    }
+
+    private async readFile(): Promise<PropertyFile> {
+        let contents: string;
+        try {
+            contents = await fs.readFile(this.filePath, "utf8");
+        } catch (err) {
+            if (err.code === "ENOENT") {
+                return { addresses: {}, schedules: {} };
+            }
+            throw new StorageError("Unable to read property data from " + this.filePath, err);
+        }
+
+        let parsed: PropertyFile | LegacyPropertyFile;
+        try {
+            parsed = JSON.parse(contents);
+        } catch (err) {
+            throw new StorageError("Unable to read property data from " + this.filePath, err);
+        }
+
+        return isPropertyFile(parsed) ? parsed : { addresses: parsed, schedules: {} };
+    }
+
+    private async writeFile(file: PropertyFile): Promise<void> {
+        try {
+            await fs.writeFile(this.filePath, JSON.stringify(file, null, 2) + "\n", "utf8");
+        } catch (err) {
+            throw new StorageError("Unable to write property data to " + this.filePath, err);
+        }
+    }
+}
+
+function isPropertyFile(parsed: PropertyFile | LegacyPropertyFile): parsed is PropertyFile {
+    return !!(parsed as PropertyFile).addresses && !!(parsed as PropertyFile).schedules;
+}
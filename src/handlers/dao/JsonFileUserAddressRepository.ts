@@ -0,0 +1,65 @@
+import { promises as fs } from "fs";
+import { UserAddress } from '../../models/UserAddress';
+import { StorageError } from '../../errors/StorageError';
+import { UserAddressRepository } from "./UserAddressRepository";
+
+type UserAddressFile = { [userId: string]: UserAddress };
+
+/**
+ * Keeps the addresses users have set up in a JSON file keyed by userId, for running the skill locally without AWS.
+ * The file is created on the first write. Meant for one process at a time, like JsonFilePropertyRepository.
+ */
+export class JsonFileUserAddressRepository implements UserAddressRepository {
+    private filePath: string;
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+    }
+
+    async getUserAddress(userId: string): Promise<UserAddress> {
+        const item: UserAddress = (await this.readFile())[userId];
+        if (!item || !item.propertyId) {
+            return null;
+        }
+
+        return new UserAddress(userId, item.addressLine1, item.postCode, item.propertyId);
+    }
+
+    async putUserAddress(userAddress: UserAddress): Promise<void> {
+        const file: UserAddressFile = await this.readFile();
+        file[userAddress.userId] = userAddress;
+        await this.writeFile(file);
+    }
+
+    async deleteUserAddress(userId: string): Promise<void> {
+        const file: UserAddressFile = await this.readFile();
+        delete file[userId];
+        await this.writeFile(file);
+    }
+
+    private async readFile(): Promise<UserAddressFile> {
+        let contents: string;
+        try {
+            contents = await fs.readFile(this.filePath, "utf8");
+        } catch (err) {
+            if (err.code === "ENOENT") {
+                return {};
+            }
+            throw new StorageError("Unable to read user addresses from " + this.filePath, err);
+        }
+
+        try {
+            return JSON.parse(contents) as UserAddressFile;
+        } catch (err) {
+            throw new StorageError("Unable to read user addresses from " + this.filePath, err);
+        }
+    }
+
+    private async writeFile(file: UserAddressFile): Promise<void> {
+        try {
+            await fs.writeFile(this.filePath, JSON.stringify(file, null, 2) + "\n", "utf8");
+        } catch (err) {
+            throw new StorageError("Unable to write user addresses to " + this.filePath, err);
+        }
+    }
+}
@@ -0,0 +1,75 @@
+import { PropertyData } from '../../models/PropertyData';
+
+/**
+ * Where bin data fetched from councils is kept between lookups. Each address spelling, keyed by the encoded
+ * first line of the address and the postcode as in PropertyData.addressLine1, points at a schedule kept once
+ * per property.
+ */
+export interface PropertyRepository {
+    /**
+     * Returns null when nothing is stored, or when the stored data is stale unless allowStale is set.
+     */
+    getPropertyDataFromDatabase(addressLine1: string, postalCode: string, allowStale?: boolean): Promise<PropertyData>;
+
+    /**
+     * Returns the property's schedule, whichever address it was stored under, as data for the address key. Null
+     * as for getPropertyDataFromDatabase.
+     */
+    getPropertyDataByPropertyId(addressKey: string, propertyId: string, allowStale?: boolean): Promise<PropertyData>;
+
+    /**
+     * Stores the council's data with when it was fetched, and points the address at it. Predicted collections
+     * are never stored.
+     */
+    putPropertyDataInDatabase(propertyData: PropertyData): Promise<void>;
+
+    /**
+     * Stores the council's data for the property without touching the addresses pointing at it, expiring at
+     * expiresAt (epoch seconds), or ttlDays after it was fetched when expiresAt is null.
+     */
+    putScheduleInDatabase(propertyData: PropertyData, expiresAt: number): Promise<void>;
+
+    /**
+     * Records that a lookup has answered from the property's stored schedule, keeping it, and the address item for
+     * addressKey unless that is null, for ttlDays from now. Does nothing if the schedule has gone.
+     */
+    recordRequest(propertyId: string, addressKey: string): Promise<void>;
+
+    /**
+     * Records when reminders were made to match the property's stored collections, without rewriting them.
+     */
+    recordRemindersSynced(propertyId: string, syncedAt: string): Promise<void>;
+
+    /**
+     * Points the address key at a property whose schedule is already stored.
+     */
+    linkAddressToProperty(addressKey: string, propertyId: string): Promise<void>;
+
+    /**
+     * Upgrades every item stored before the current schema version.
+     */
+    migrateLegacyItems(): Promise<MigrationSummary>;
+
+    /**
+     * Lists every stored schedule that has an address pointing at it, however stale. Legacy items are left
+     * out until they are upgraded.
+     */
+    listStoredProperties(): Promise<StoredProperty[]>;
+}
+
+export interface StoredProperty {
+    /** The property's data, for one of the addresses pointing at it. */
+    propertyData: PropertyData;
+    /** When the stored schedule expires, in epoch seconds. */
+    expiresAt: number;
+}
+
+export interface MigrationSummary {
+    scanned: number;
+    upgraded: number;
+    /** Already at the current schema version. */
+    current: number;
+    /** Legacy items missing their property id or collections, left as they are. */
+    unusable: number;
+    failed: number;
+}
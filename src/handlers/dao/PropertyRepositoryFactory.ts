@@ -0,0 +1,18 @@
+import { CachePolicy, loadCachePolicy } from "../business-logic/CachePolicy";
+import { PropertyRepository } from "./PropertyRepository";
+import { DynamoDBDao } from "./DynamoDBDao";
+import { JsonFilePropertyRepository } from "./JsonFilePropertyRepository";
+
+/**
+ * The JSON file named by PROPERTY_DATA_FILE when it is set, for local development, otherwise the
+ * DynamoDB tables.
+ */
+export function buildPropertyRepository(env: { [name: string]: string } = process.env,
+                                        cachePolicy: CachePolicy = loadCachePolicy(env)): PropertyRepository {
+    if (env.PROPERTY_DATA_FILE) {
+        console.log("Storing bin data in " + env.PROPERTY_DATA_FILE);
+        return new JsonFilePropertyRepository(env.PROPERTY_DATA_FILE, cachePolicy);
+    }
+
+    return new DynamoDBDao(cachePolicy, env.DYNAMODB_TABLE, env.DYNAMODB_SCHEDULE_TABLE);
+}
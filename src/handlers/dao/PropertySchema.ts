@@ -0,0 +1,159 @@
+import * as moment from 'moment';
+import { PropertyData } from '../../models/PropertyData';
+import { BinCollectionData } from '../../models/BinCollectionData';
+import { CachePolicy, findExpiryTime } from "../business-logic/CachePolicy";
+import { parseCollectionDate } from "../business-logic/BinCollectionFinder";
+
+/**
+ * Version 0 items were written by the lambda/ code, keyed by the encoded address line alone. Version 1
+ * items added the postcode to the key and the fetch time. Neither recorded a version; both kept the
+ * collections as a JSON string of DD/MM/YYYY dates against the address.
+ */
+export const PROPERTY_SCHEMA_VERSION = 2;
+
+const RECORD_DATE_FORMAT = "YYYY-MM-DD";
+
+/**
+ * An address spelling in the property table, pointing at the schedule of the property the council matched it
+ * to, so every spelling of an address shares one schedule.
+ */
+export interface AddressRecord {
+    /** The encoded first line of the address and the postcode, as in PropertyData.addressLine1. */
+    addressLine1: string;
+    schemaVersion: number;
+    uprn: string;
+    /** When DynamoDB's TTL deletes the item, in epoch seconds. */
+    expiresAt: number;
+}
+
+/**
+ * A property's collections in the schedule table, keyed by UPRN.
+ */
+export interface ScheduleRecord {
+    uprn: string;
+    schemaVersion: number;
+    /** When the council was asked for the collections (ISO 8601), or null for data upgraded from version 0. */
+    fetchedAt: string;
+    /**
+     * When a lookup last recorded answering from the schedule (ISO 8601), or null if none has. Missing on
+     * schedules written before this was recorded.
+     */
+    requestedAt?: string;
+    /** When the collections last changed (ISO 8601), or null. Missing on schedules written before this was recorded. */
+    changedAt?: string;
+    /** When reminders were last synced with the collections (ISO 8601), or null. Missing as for changedAt. */
+    remindersSyncedAt?: string;
+    /** When DynamoDB's TTL deletes the item, in epoch seconds: ttlDays after the later of fetchedAt and requestedAt. */
+    expiresAt: number;
+    collections: CollectionRecord[];
+}
+
+/**
+ * The parts of a schedule that can be written without rewriting its collections.
+ */
+export type ScheduleChanges = Partial<Pick<ScheduleRecord, "requestedAt" | "expiresAt" | "remindersSyncedAt">>;
+
+export interface CollectionRecord {
+    /** YYYY-MM-DD. */
+    date: string;
+    binType: string;
+    councilLabel: string;
+}
+
+/**
+ * An item written before schema versions, found in the property table.
+ */
+export interface LegacyPropertyItem {
+    addressLine1: string;
+    propertyId: string;
+    /** The BinCollectionData list as JSON. */
+    binCollectionData: string;
+    fetchedAt?: string;
+    expiresAt?: number;
+}
+
+export function isLegacyItem(item: AddressRecord | LegacyPropertyItem): item is LegacyPropertyItem {
+    return !(item as AddressRecord).schemaVersion;
+}
+
+/**
+ * Version 0 keys have no postcode. encodeURIComponent escapes colons, so the only one in a key is the separator.
+ */
+export function isUnkeyedLegacyItem(item: LegacyPropertyItem): boolean {
+    return item.addressLine1.indexOf(":") === -1;
+}
+
+/**
+ * The record expires ttlDays from now unless expiresAt is given.
+ */
+export function toAddressRecord(addressLine1: string, uprn: string, cachePolicy: CachePolicy, expiresAt: number = null): AddressRecord {
+    return {
+        addressLine1,
+        schemaVersion: PROPERTY_SCHEMA_VERSION,
+        uprn,
+        expiresAt: expiresAt || findExpiryTime(moment().toISOString(), cachePolicy)
+    };
+}
+
+/**
+ * The record expires ttlDays after the data was fetched or last requested, whichever is later, unless expiresAt is given.
+ */
+export function toScheduleRecord(propertyData: PropertyData, cachePolicy: CachePolicy, expiresAt: number = null): ScheduleRecord {
+    const fetchedAt: string = propertyData.fetchedAt || moment().toISOString();
+    const requestedAt: string = propertyData.requestedAt || null;
+
+    return {
+        uprn: propertyData.propertyId,
+        schemaVersion: PROPERTY_SCHEMA_VERSION,
+        fetchedAt,
+        requestedAt,
+        changedAt: propertyData.changedAt || null,
+        remindersSyncedAt: propertyData.remindersSyncedAt || null,
+        expiresAt: expiresAt || findExpiryTime(requestedAt !== null && requestedAt > fetchedAt ? requestedAt : fetchedAt, cachePolicy),
+        // Predictions are only for answering while the council is unreachable, never to store over its data.
+        collections: propertyData.binCollectionData.filter(item => !item.predicted).map(item => ({
+            date: parseCollectionDate(item.collectionDate).format(RECORD_DATE_FORMAT),
+            binType: item.binType,
+            councilLabel: item.councilLabel || null
+        }))
+    };
+}
+
+export function fromScheduleRecord(addressLine1: string, schedule: ScheduleRecord): PropertyData {
+    const binCollectionData: BinCollectionData[] = schedule.collections.map(collection => {
+        const date: moment.Moment = moment.utc(collection.date, RECORD_DATE_FORMAT, true);
+        return new BinCollectionData(date.clone().locale("en").format("dddd"), date.format("DD/MM/YYYY"),
+            collection.binType, collection.councilLabel);
+    });
+
+    const propertyData = new PropertyData(addressLine1, schedule.uprn, binCollectionData);
+    propertyData.fetchedAt = schedule.fetchedAt;
+    propertyData.requestedAt = schedule.requestedAt || null;
+    propertyData.changedAt = schedule.changedAt || null;
+    propertyData.remindersSyncedAt = schedule.remindersSyncedAt || null;
+
+    return propertyData;
+}
+
+/**
+ * Reads a legacy item as the schedule it holds, or null for one missing its property id or collections.
+ */
+export function upgradeLegacyItem(item: LegacyPropertyItem, cachePolicy: CachePolicy): ScheduleRecord {
+    if (!item.propertyId || !item.binCollectionData) {
+        return null;
+    }
+
+    const binCollectionData: BinCollectionData[] = JSON.parse(item.binCollectionData);
+    const schedule: ScheduleRecord = toScheduleRecord(new PropertyData(item.addressLine1, item.propertyId, binCollectionData),
+        cachePolicy, item.expiresAt);
+    schedule.fetchedAt = item.fetchedAt || null;
+
+    return schedule;
+}
+
+/**
+ * Whether the schedule holds newer data than the other, so an upgrade never replaces a fresher fetch.
+ */
+export function isNewerSchedule(schedule: ScheduleRecord, other: ScheduleRecord): boolean {
+    return other === null || (schedule.fetchedAt !== null && (other.fetchedAt === null || schedule.fetchedAt > other.fetchedAt));
+}
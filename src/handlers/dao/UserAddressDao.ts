@@ -0,0 +1,78 @@
+import { DynamoDB } from "aws-sdk";
+import { UserAddress } from '../../models/UserAddress';
+import { StorageError } from '../../errors/StorageError';
+import { UserAddressRepository } from "./UserAddressRepository";
+
+/**
+ * Stores the addresses users have told us by voice in the USER_ADDRESS_TABLE table, keyed by their Alexa userId.
+ */
+export class UserAddressDao implements UserAddressRepository {
+    private tableName: string;
+
+    private documentClient: DynamoDB.DocumentClient;
+
+    constructor(tableName: string = process.env.USER_ADDRESS_TABLE,
+                documentClient: DynamoDB.DocumentClient = new DynamoDB.DocumentClient()) {
+        this.tableName = tableName;
+        this.documentClient = documentClient;
+    }
+
+    async getUserAddress(userId: string): Promise<UserAddress> {
+        const params = {
+            Key: {
+                'userId': userId
+            },
+            TableName: this.tableName
+        };
+
+        let data = null;
+
+        try {
+            data = await this.documentClient.get(params).promise();
+        } catch (err) {
+            throw new StorageError("Unable to read user address from database", err);
+        }
+
+        if (!data.Item || !data.Item.propertyId) {
+            return null;
+        }
+
+        console.log("Found address set up by user: " + data.Item.addressLine1 + ", " + data.Item.postCode);
+        return new UserAddress(userId, data.Item.addressLine1, data.Item.postCode, data.Item.propertyId);
+    }
+
+    async putUserAddress(userAddress: UserAddress): Promise<void> {
+        const params = {
+            Item: {
+                'userId': userAddress.userId,
+                'addressLine1': userAddress.addressLine1,
+                'postCode': userAddress.postCode,
+                'propertyId': userAddress.propertyId
+            },
+            TableName: this.tableName
+        };
+
+        try {
+            await this.documentClient.put(params).promise();
+            console.log("User address written to database");
+        } catch (err) {
+            throw new StorageError("Unable to write user address to database", err);
+        }
+    }
+
+    async deleteUserAddress(userId: string): Promise<void> {
+        const params = {
+            Key: {
+                'userId': userId
+            },
+            TableName: this.tableName
+        };
+
+        try {
+            await this.documentClient.delete(params).promise();
+            console.log("User address deleted from database");
+        } catch (err) {
+            throw new StorageError("Unable to delete user address from database", err);
+        }
+    }
+}
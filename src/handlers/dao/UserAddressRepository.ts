@@ -0,0 +1,15 @@
+import { UserAddress } from '../../models/UserAddress';
+
+/**
+ * Where the addresses users have set up by voice are kept, keyed by their Alexa userId.
+ */
+export interface UserAddressRepository {
+    /**
+     * Returns null when the user hasn't set up an address, or set one up before properties were stored with it.
+     */
+    getUserAddress(userId: string): Promise<UserAddress>;
+
+    putUserAddress(userAddress: UserAddress): Promise<void>;
+
+    deleteUserAddress(userId: string): Promise<void>;
+}
@@ -0,0 +1,23 @@
+import { UserAddressRepository } from "./UserAddressRepository";
+import { UserAddressDao } from "./UserAddressDao";
+import { JsonFileUserAddressRepository } from "./JsonFileUserAddressRepository";
+import { InMemoryUserAddressRepository } from "./InMemoryUserAddressRepository";
+
+/**
+ * The JSON file named by USER_ADDRESS_DATA_FILE when it is set, for local development, otherwise the
+ * USER_ADDRESS_TABLE table. Running locally with only PROPERTY_DATA_FILE set keeps user addresses in memory,
+ * so nothing is stored in AWS.
+ */
+export function buildUserAddressRepository(env: { [name: string]: string } = process.env): UserAddressRepository {
+    if (env.USER_ADDRESS_DATA_FILE) {
+        console.log("Storing user addresses in " + env.USER_ADDRESS_DATA_FILE);
+        return new JsonFileUserAddressRepository(env.USER_ADDRESS_DATA_FILE);
+    }
+
+    if (env.PROPERTY_DATA_FILE) {
+        console.log("Keeping user addresses in memory");
+        return new InMemoryUserAddressRepository();
+    }
+
+    return new UserAddressDao(env.USER_ADDRESS_TABLE);
+}
@@ -0,0 +1,181 @@
+import * as moment from 'moment';
+import { PropertyData } from '../../models/PropertyData';
+import { assessCachedData, CachePolicy, findExpiryTime } from "../business-logic/CachePolicy";
+import { MigrationSummary, PropertyRepository, StoredProperty } from "./PropertyRepository";
+import {
+    AddressRecord, fromScheduleRecord, isLegacyItem, isNewerSchedule, isUnkeyedLegacyItem, LegacyPropertyItem, PROPERTY_SCHEMA_VERSION,
+    ScheduleChanges, ScheduleRecord, toAddressRecord, toScheduleRecord, upgradeLegacyItem
+} from "./PropertySchema";
+
+/**
+ * The PropertyRepository behaviour shared by every store: address items pointing at schedules kept by UPRN,
+ * with legacy items upgraded when they are read or by migrateLegacyItems. Subclasses only read and write items.
+ */
+export abstract class VersionedPropertyRepository implements PropertyRepository {
+    protected cachePolicy: CachePolicy;
+
+    constructor(cachePolicy: CachePolicy) {
+        this.cachePolicy = cachePolicy;
+    }
+
+    async getPropertyDataFromDatabase(addressLine1: string, postalCode: string, allowStale: boolean = false): Promise<PropertyData> {
+        const addressKey: string = addressLine1 + ":" + postalCode;
+        const item: AddressRecord | LegacyPropertyItem = await this.getAddressItem(addressKey);
+
+        let schedule: ScheduleRecord = null;
+        if (item === null) {
+            // A version 0 item for the address line only moves its collections to the schedule table.
+            const unkeyedItem: AddressRecord | LegacyPropertyItem = await this.getAddressItem(addressLine1);
+            if (unkeyedItem !== null && isLegacyItem(unkeyedItem)) {
+                await this.upgradeOnRead(unkeyedItem);
+            }
+        } else if (isLegacyItem(item)) {
+            schedule = await this.upgradeOnRead(item);
+        } else {
+            schedule = await this.getScheduleItem(item.uprn);
+        }
+
+        return this.usableData(addressKey, schedule, allowStale);
+    }
+
+    async getPropertyDataByPropertyId(addressKey: string, propertyId: string, allowStale: boolean = false): Promise<PropertyData> {
+        return this.usableData(addressKey, await this.getScheduleItem(propertyId), allowStale);
+    }
+
+    async putPropertyDataInDatabase(propertyData: PropertyData): Promise<void> {
+        await this.putScheduleItem(toScheduleRecord(propertyData, this.cachePolicy));
+        await this.linkAddressToProperty(propertyData.addressLine1, propertyData.propertyId);
+    }
+
+    async putScheduleInDatabase(propertyData: PropertyData, expiresAt: number): Promise<void> {
+        await this.putScheduleItem(toScheduleRecord(propertyData, this.cachePolicy, expiresAt));
+    }
+
+    async recordRequest(propertyId: string, addressKey: string): Promise<void> {
+        const requestedAt: string = moment().toISOString();
+        const expiresAt: number = findExpiryTime(requestedAt, this.cachePolicy);
+
+        if (await this.updateScheduleItem(propertyId, { requestedAt, expiresAt }) && addressKey !== null) {
+            await this.putAddressItem(toAddressRecord(addressKey, propertyId, this.cachePolicy, expiresAt));
+        }
+    }
+
+    async recordRemindersSynced(propertyId: string, syncedAt: string): Promise<void> {
+        await this.updateScheduleItem(propertyId, { remindersSyncedAt: syncedAt });
+    }
+
+    async linkAddressToProperty(addressKey: string, propertyId: string): Promise<void> {
+        await this.putAddressItem(toAddressRecord(addressKey, propertyId, this.cachePolicy));
+    }
+
+    async migrateLegacyItems(): Promise<MigrationSummary> {
+        const summary: MigrationSummary = { scanned: 0, upgraded: 0, current: 0, unusable: 0, failed: 0 };
+
+        for (const item of await this.scanAddressItems()) {
+            summary.scanned++;
+            if (!isLegacyItem(item)) {
+                summary.current++;
+                continue;
+            }
+
+            try {
+                if (await this.upgradeItem(item) !== null) {
+                    summary.upgraded++;
+                } else {
+                    summary.unusable++;
+                }
+            } catch (err) {
+                console.error("Unable to upgrade stored item " + item.addressLine1, err);
+                summary.failed++;
+            }
+        }
+
+        console.log("Migration of stored properties finished: " + JSON.stringify(summary));
+        return summary;
+    }
+
+    async listStoredProperties(): Promise<StoredProperty[]> {
+        const addressKeys: { [uprn: string]: string } = {};
+        for (const item of await this.scanAddressItems()) {
+            if (!isLegacyItem(item) && !addressKeys[item.uprn]) {
+                addressKeys[item.uprn] = item.addressLine1;
+            }
+        }
+
+        return (await this.scanScheduleItems())
+            .filter(schedule => addressKeys[schedule.uprn])
+            .map(schedule => ({ propertyData: fromScheduleRecord(addressKeys[schedule.uprn], schedule), expiresAt: schedule.expiresAt }));
+    }
+
+    protected abstract getAddressItem(addressKey: string): Promise<AddressRecord | LegacyPropertyItem>;
+
+    protected abstract putAddressItem(record: AddressRecord): Promise<void>;
+
+    protected abstract deleteAddressItem(addressKey: string): Promise<void>;
+
+    protected abstract scanAddressItems(): Promise<Array<AddressRecord | LegacyPropertyItem>>;
+
+    protected abstract getScheduleItem(uprn: string): Promise<ScheduleRecord>;
+
+    protected abstract putScheduleItem(record: ScheduleRecord): Promise<void>;
+
+    protected abstract scanScheduleItems(): Promise<ScheduleRecord[]>;
+
+    /**
+     * Writes the changes to the schedule without touching its collections, which a refresh may be writing at the
+     * same time. Returns false if there is no schedule for the UPRN.
+     */
+    protected abstract updateScheduleItem(uprn: string, changes: ScheduleChanges): Promise<boolean>;
+
+    private usableData(addressKey: string, schedule: ScheduleRecord, allowStale: boolean): PropertyData {
+        if (schedule === null) {
+            return null;
+        }
+
+        const propertyData: PropertyData = fromScheduleRecord(addressKey, schedule);
+        if (!allowStale && assessCachedData(propertyData, this.cachePolicy) !== "fresh") {
+            return null;
+        }
+
+        return propertyData;
+    }
+
+    /**
+     * Failing to write the upgrade doesn't stop the item being answered from.
+     */
+    private async upgradeOnRead(item: LegacyPropertyItem): Promise<ScheduleRecord> {
+        try {
+            return await this.upgradeItem(item);
+        } catch (err) {
+            console.error("Unable to upgrade stored item " + item.addressLine1 + ", answering from it as it is", err);
+            return upgradeLegacyItem(item, this.cachePolicy);
+        }
+    }
+
+    /**
+     * Moves the legacy item's collections to the schedule table, unless a newer schedule is already there, and
+     * returns the schedule kept, or null for an unusable item. A version 0 item is deleted rather than pointed at
+     * the schedule: without a postcode there's no knowing which address it was for, so the council is asked again.
+     */
+    private async upgradeItem(item: LegacyPropertyItem): Promise<ScheduleRecord> {
+        const upgraded: ScheduleRecord = upgradeLegacyItem(item, this.cachePolicy);
+        if (upgraded === null) {
+            return null;
+        }
+
+        let schedule: ScheduleRecord = await this.getScheduleItem(upgraded.uprn);
+        if (isNewerSchedule(upgraded, schedule)) {
+            await this.putScheduleItem(upgraded);
+            schedule = upgraded;
+        }
+
+        if (isUnkeyedLegacyItem(item)) {
+            await this.deleteAddressItem(item.addressLine1);
+        } else {
+            await this.putAddressItem(toAddressRecord(item.addressLine1, upgraded.uprn, this.cachePolicy, upgraded.expiresAt));
+        }
+        console.log("Upgraded stored item " + item.addressLine1 + " to schema version " + PROPERTY_SCHEMA_VERSION);
+
+        return schedule;
+    }
+}
@@ -0,0 +1,46 @@
+/**
+ * A message that changes with a count, keyed by CLDR plural category. Only "other" is required;
+ * English needs "one" as well, while languages such as Welsh also use "zero", "two", "few" and "many".
+ */
+export interface PluralMessage {
+    zero?: string;
+    one?: string;
+    two?: string;
+    few?: string;
+    many?: string;
+    other: string;
+}
+
+export type Message = string | PluralMessage;
+
+/**
+ * Templates for the dates and times we speak. Templates use {weekday}, {day}, {ordinal}, {month},
+ * {hour12}, {hour24}, {minute} and {period} placeholders so word order and ordinals can vary by locale.
+ */
+export interface DateWording {
+    weekdays: string[];
+    months: string[];
+    periods: string[];
+    ordinal: (day: number) => string;
+    formats: {
+        dayOfMonth: string;
+        fullDate: string;
+        time: string;
+        dateTime: string;
+    };
+}
+
+export interface ListWording {
+    separator: string;
+    finalSeparator: string;
+}
+
+/**
+ * All the wording for one locale. Messages use {name} placeholders for values filled in at runtime.
+ */
+export interface ResourceBundle {
+    locale: string;
+    messages: { [key: string]: Message };
+    dates: DateWording;
+    lists: ListWording;
+}
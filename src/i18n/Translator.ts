@@ -0,0 +1,165 @@
+import { HandlerInput } from "ask-sdk";
+import * as moment from 'moment';
+import { BinType } from "../models/BinType";
+import { Message, PluralMessage, ResourceBundle } from "./ResourceBundle";
+import { EN_GB } from "./resources/en-GB";
+import { EN_US } from "./resources/en-US";
+import { EN_IN } from "./resources/en-IN";
+
+export const DEFAULT_LOCALE = "en-GB";
+
+/** Request attribute holding the Translator set up by LocalisationRequestInterceptor. */
+export const TRANSLATOR_ATTRIBUTE = "translator";
+
+const RESOURCE_BUNDLES: { [locale: string]: ResourceBundle } = {
+    "en-GB": EN_GB,
+    "en-US": EN_US,
+    "en-IN": EN_IN
+};
+
+/**
+ * The ES5 lib doesn't declare Intl.PluralRules, though every Lambda Node.js runtime has it.
+ */
+interface PluralRulesIntl {
+    PluralRules?: new (locale: string) => { select(count: number): string };
+}
+
+export type DateFormat = "dayOfMonth" | "fullDate" | "time" | "dateTime";
+
+export interface MessageParams {
+    [name: string]: string | number;
+}
+
+/**
+ * Looks up and fills in the skill's wording for one locale. locale is the locale the request asked for,
+ * which may be served by a bundle for a neighbouring locale.
+ */
+export class Translator {
+    readonly locale: string;
+    private bundle: ResourceBundle;
+
+    constructor(locale: string, bundle: ResourceBundle) {
+        this.locale = locale;
+        this.bundle = bundle;
+    }
+
+    t(key: string, params: MessageParams = {}): string {
+        const message: Message = this.findMessage(key);
+        if (typeof message !== "string") {
+            throw new Error("Message " + key + " needs a count");
+        }
+
+        return interpolate(message, params);
+    }
+
+    /**
+     * Picks the form of the message for the count, which is also available to the message as {count}.
+     */
+    plural(key: string, count: number, params: MessageParams = {}): string {
+        const message: Message = this.findMessage(key);
+        if (typeof message === "string") {
+            return interpolate(message, { ...params, count });
+        }
+
+        const form: string = (message as PluralMessage)[this.pluralCategory(count)] || message.other;
+        return interpolate(form, { ...params, count });
+    }
+
+    /**
+     * Joins items for speech, e.g. "Silver and Green" or "Black, Silver and Green".
+     */
+    list(items: string[]): string {
+        if (items.length <= 1) {
+            return items.join("");
+        }
+
+        return items.slice(0, -1).join(this.bundle.lists.separator) + this.bundle.lists.finalSeparator + items[items.length - 1];
+    }
+
+    /**
+     * Names a bin for speech. Bins the catalogue doesn't know keep the council's label.
+     */
+    binName(binType: BinType): string {
+        const key: string = "bins." + binType.id;
+        return this.bundle.messages[key] !== undefined ? this.t(key) : binType.spokenName;
+    }
+
+    /**
+     * Names the bins for speech, e.g. "Black bin" or "Silver, Green and Food bins".
+     */
+    describeBins(binTypes: BinType[]): string {
+        return this.plural("bins.described", binTypes.length, { names: this.list(binTypes.map(binType => this.binName(binType))) });
+    }
+
+    formatDate(date: moment.Moment, format: DateFormat): string {
+        const dates = this.bundle.dates;
+        const hour12: number = date.hour() % 12 === 0 ? 12 : date.hour() % 12;
+
+        return interpolate(dates.formats[format], {
+            weekday: dates.weekdays[date.day()],
+            day: date.date(),
+            ordinal: dates.ordinal(date.date()),
+            month: dates.months[date.month()],
+            hour12,
+            hour24: date.format("HH"),
+            minute: date.format("mm"),
+            period: dates.periods[date.hour() < 12 ? 0 : 1]
+        });
+    }
+
+    weekday(date: moment.Moment): string {
+        return this.bundle.dates.weekdays[date.day()];
+    }
+
+    private findMessage(key: string): Message {
+        const message: Message = this.bundle.messages[key];
+        if (message === undefined) {
+            throw new Error("No " + this.locale + " message for " + key);
+        }
+
+        return message;
+    }
+
+    private pluralCategory(count: number): string {
+        const intl: PluralRulesIntl = Intl as PluralRulesIntl;
+        if (intl.PluralRules) {
+            return new intl.PluralRules(this.bundle.locale).select(count);
+        }
+
+        return count === 1 ? "one" : "other";
+    }
+}
+
+/**
+ * Finds the wording for a request locale, falling back to another bundle in the same language
+ * and then to British English.
+ */
+export function translatorFor(locale: string): Translator {
+    const requestedLocale: string = locale || DEFAULT_LOCALE;
+    if (RESOURCE_BUNDLES[requestedLocale]) {
+        return new Translator(requestedLocale, RESOURCE_BUNDLES[requestedLocale]);
+    }
+
+    const language: string = requestedLocale.split("-")[0];
+    for (const bundleLocale of Object.keys(RESOURCE_BUNDLES)) {
+        if (bundleLocale.split("-")[0] === language) {
+            return new Translator(requestedLocale, RESOURCE_BUNDLES[bundleLocale]);
+        }
+    }
+
+    console.log("No resource bundle for " + requestedLocale + ", using " + DEFAULT_LOCALE);
+    return new Translator(requestedLocale, RESOURCE_BUNDLES[DEFAULT_LOCALE]);
+}
+
+/**
+ * Returns the Translator for the request, set up by LocalisationRequestInterceptor.
+ */
+export function getTranslator(handlerInput: HandlerInput): Translator {
+    const requestAttributes = handlerInput.attributesManager ? handlerInput.attributesManager.getRequestAttributes() : {};
+
+    return requestAttributes[TRANSLATOR_ATTRIBUTE] || translatorFor(handlerInput.requestEnvelope.request.locale);
+}
+
+function interpolate(message: string, params: MessageParams): string {
+    return message.replace(/{(\w+)}/g, (placeholder, name) => params[name] !== undefined ? String(params[name]) : placeholder);
+}
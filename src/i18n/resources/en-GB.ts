@@ -0,0 +1,157 @@
+import { ResourceBundle } from "../ResourceBundle";
+
+export function englishOrdinal(day: number): string {
+    const lastTwoDigits: number = day % 100;
+    if (lastTwoDigits >= 11 && lastTwoDigits <= 13) {
+        return day + "th";
+    }
+
+    switch (day % 10) {
+        case 1:
+            return day + "st";
+        case 2:
+            return day + "nd";
+        case 3:
+            return day + "rd";
+        default:
+            return day + "th";
+    }
+}
+
+export const EN_GB: ResourceBundle = {
+    locale: "en-GB",
+    messages: {
+        "bins.Black": "Black",
+        "bins.Silver": "Silver",
+        "bins.Green": "Green",
+        "bins.Food": "Food",
+        "bins.Glass": "Glass",
+        "bins.Bulky": "Bulky Waste",
+        "bins.described": { one: "{names} bin", other: "{names} bins" },
+
+        "collection.today": "Today",
+        "collection.tomorrow": "Tomorrow",
+        "collection.onDay": "on {weekday}",
+        "collection.due": { one: "Your {bins} is due {day}.", other: "Your {bins} are due {day}." },
+        "collection.probablyDue": {
+            one: "Your {bins} is probably due {day}. I couldn't check with your council, so that's going by your usual collections.",
+            other: "Your {bins} are probably due {day}. I couldn't check with your council, so that's going by your usual collections."
+        },
+        "collection.late": { one: "Your {bins} is {days} late this week, {day}{reason}.", other: "Your {bins} are {days} late this week, {day}{reason}." },
+        "collection.early": { one: "Your {bins} is {days} early this week, {day}{reason}.", other: "Your {bins} are {days} early this week, {day}{reason}." },
+        "collection.putOutSeparately": "Put your {bins} out separately.",
+        "collection.daysMoved": { one: "a day", other: "{count} days" },
+        "collection.becauseOfBankHoliday": ", because of the bank holiday",
+        "collection.gardenSuspended": "There are no {bin} bin collections scheduled at the moment. " +
+            "Garden waste collections are usually suspended over the winter.",
+        "collection.notFound": "Sorry, I couldn't find an upcoming collection for your {bin} bin.",
+        "collection.whichBin": "Which bin would you like to know about? You can say black, silver or green.",
+        "collection.binNotUnderstood": "Sorry, I didn't catch which bin you meant. {reprompt}",
+
+        "schedule.none": "You don't have any bin collections in that time.",
+        "schedule.summary": "Your collections are {collections}.",
+        "schedule.item": "{bins} on {date}",
+        "schedule.probableItem": "{bins} probably on {date}",
+        "schedule.separately": ", with your {bins} out separately",
+        "schedule.then": ", then ",
+        "schedule.cardNone": "No bin collections found.",
+        "schedule.cardItem": "{date}: {bins}",
+        "schedule.cardSeparately": " (out separately)",
+        "schedule.cardProbableItem": "{date}: {bins} (predicted)",
+
+        "reminders.whatTime": "What time would you like reminding the evening before your bins are collected?",
+        "reminders.noneToSet": "I couldn't find any upcoming collections to remind you about.",
+        "reminders.onlyPredicted": "I couldn't check your collections with your council just now, so I haven't set any reminders. " +
+            "Please try again later.",
+        "reminders.set": {
+            one: "OK, I'll remind you at {time} the evening before your next collection.",
+            other: "OK, I'll remind you at {time} the evening before each of your next {count} collections."
+        },
+        "reminders.text": "Put your {bins} out tonight, they're collected tomorrow.",
+        "reminders.noneSet": "You don't have any bin reminders set. You can say, remind me to put the bins out.",
+        "reminders.summary": {
+            one: "You have {count} bin reminder. The next one is {time}.",
+            other: "You have {count} bin reminders. The next one is {time}."
+        },
+        "reminders.cardItem": "{time}: {text}",
+        "reminders.noneToCancel": "You don't have any bin reminders to cancel.",
+        "reminders.cancelled": {
+            one: "OK, I've cancelled your {count} bin reminder.",
+            other: "OK, I've cancelled your {count} bin reminders."
+        },
+
+        "address.unexpectedChoice": "Sorry, I wasn't expecting you to choose an address. Ask me when your next bin collection is.",
+        "address.invalidChoice": "Sorry, that isn't one of the addresses I found. {reprompt}",
+        "address.foundSeveral": {
+            one: "I couldn't find your exact address, but found one like it. {reprompt}",
+            other: "I found more than one address like yours. {reprompt}"
+        },
+        "address.whichProperty": {
+            one: "Is this your address? {options}. If it is, say the number 1.",
+            other: "Which is your address? {options}. Say the number of your address."
+        },
+        "address.propertyOption": "{number}: {address}",
+        "address.propertyOptionSeparator": ". ",
+        "address.choiceRemembered": "Thanks, I'll remember that. {collection}",
+        "address.whatPostcode": "What's your postcode?",
+        "address.postcodeNotRecognised": "Sorry, I didn't recognise that postcode. {reprompt}",
+        "address.whatHouse": "What's your house name or number?",
+        "address.houseNotFound": "Sorry, I couldn't find {house} at that postcode. Let's try again. {reprompt}",
+        "address.tooManyToRead": "There are too many addresses like that for me to read out. {reprompt}",
+        "address.whatFullHouse": "What's your full house name or number?",
+        "address.saved": "Thanks, I've saved your address as {address}. {collection}",
+        "address.cleared": "OK, I've forgotten the address you gave me. I'll use your device's address from now on.",
+
+        "errors.unknownCommand": "Unknown bin collection command. Chow.",
+        "errors.generic": "Sorry, something went wrong finding your bin collections. Please try again later.",
+        "errors.reminderPermission": "I need permission to set reminders before I can remind you to put your bins out. " +
+            "Please grant this skill access to reminders in the Amazon Alexa App.",
+        "errors.addressPermission": "No Permissions found. If you want me to be able to tell you when your bins are due " +
+            "please grant this skill access to full address information in the Amazon Alexa App, " +
+            "or say 'set my address' to tell me your postcode instead.",
+        "errors.incompleteAddress": "Sorry, the address assigned to your Alexa device is missing its first line or postcode. " +
+            "Please add your full address to the device in the Amazon Alexa App.",
+        "errors.unsupportedArea": "Sorry, I can't look up bin collections for your area yet.",
+        "errors.addressNotFound": "Sorry, I couldn't find your bin collections in your council's records. " +
+            "Please check the address assigned to your Alexa device is correct.",
+        "errors.addressNotFoundAtCouncil": "Sorry, I couldn't find your bin collections in {council}'s records. " +
+            "Please check the address assigned to your Alexa device is correct.",
+        "errors.tooManyAddresses": "Sorry, your council lists too many addresses like yours for me to read out. " +
+            "Please add your house or flat number to the address assigned to your Alexa device.",
+        "errors.councilUnreachable": "Sorry, I couldn't reach the {council} website just now. " +
+            "Please try again in a little while.",
+        "errors.councilFormatChanged": "Sorry, {council} has changed its website and I can't read " +
+            "your bin collections at the moment. Please try again in a few days.",
+        "errors.storage": "Sorry, I'm having trouble with my records at the moment. Please try again later.",
+
+        "cards.nextCollection": "Next Bin Collection",
+        "cards.nextCollectionOfType": "Next {bin} Bin Collection",
+        "cards.upcomingCollections": "Upcoming Bin Collections",
+        "cards.calendarFeed": "Add your bin days to your calendar: {url}",
+        "cards.reminders": "Bin Reminders",
+        "cards.generic": "Bin Collection",
+        "cards.addressNeeded": "Bin Collection - Address Needed",
+        "cards.addressNotFound": "Bin Collection - Address Not Found",
+        "cards.addressSaved": "Bin Collection - Address Saved",
+        "cards.addressCleared": "Bin Collection - Address Cleared",
+        "cards.councilUnavailable": "Bin Collection - Council Unavailable",
+        "cards.temporarilyUnavailable": "Bin Collection - Temporarily Unavailable"
+    },
+    dates: {
+        weekdays: ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"],
+        months: ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October",
+            "November", "December"],
+        periods: ["AM", "PM"],
+        ordinal: englishOrdinal,
+        formats: {
+            dayOfMonth: "{weekday} the {ordinal}",
+            fullDate: "{weekday} {ordinal} {month}",
+            time: "{hour12}:{minute} {period}",
+            dateTime: "{weekday} the {ordinal} at {hour12}:{minute} {period}"
+        }
+    },
+    lists: {
+        separator: ", ",
+        finalSeparator: " and "
+    }
+};
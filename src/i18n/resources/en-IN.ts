@@ -0,0 +1,21 @@
+import { ResourceBundle } from "../ResourceBundle";
+import { EN_GB } from "./en-GB";
+
+export const EN_IN: ResourceBundle = {
+    locale: "en-IN",
+    messages: {
+        ...EN_GB.messages,
+        "errors.unknownCommand": "Unknown bin collection command. Goodbye."
+    },
+    dates: {
+        ...EN_GB.dates,
+        periods: ["am", "pm"],
+        formats: {
+            dayOfMonth: "{weekday}, {day} {month}",
+            fullDate: "{weekday}, {day} {month}",
+            time: "{hour12}:{minute} {period}",
+            dateTime: "{weekday}, {day} {month} at {hour12}:{minute} {period}"
+        }
+    },
+    lists: EN_GB.lists
+};
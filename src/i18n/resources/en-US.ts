@@ -0,0 +1,24 @@
+import { ResourceBundle } from "../ResourceBundle";
+import { EN_GB } from "./en-GB";
+
+export const EN_US: ResourceBundle = {
+    locale: "en-US",
+    messages: {
+        ...EN_GB.messages,
+        "reminders.whatTime": "What time would you like to be reminded the evening before your bins are collected?",
+        "errors.unknownCommand": "Unknown bin collection command. Bye."
+    },
+    dates: {
+        ...EN_GB.dates,
+        formats: {
+            dayOfMonth: "{weekday} the {ordinal}",
+            fullDate: "{weekday}, {month} {ordinal}",
+            time: "{hour12}:{minute} {period}",
+            dateTime: "{weekday}, {month} {ordinal} at {hour12}:{minute} {period}"
+        }
+    },
+    lists: {
+        separator: ", ",
+        finalSeparator: ", and "
+    }
+};
@@ -1,20 +1,91 @@
 import { SkillBuilders } from "ask-sdk";
 import { LambdaHandler } from "ask-sdk-core/dist/skill/factory/BaseSkillFactory";
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context, ScheduledEvent } from "aws-lambda";
 
 import { LaunchRequestHandler } from "./handlers/LaunchRequestHandler";
+import { NextBinOfTypeIntentHandler } from "./handlers/NextBinOfTypeIntentHandler";
+import { CollectionScheduleIntentHandler } from "./handlers/CollectionScheduleIntentHandler";
+import { SetBinRemindersIntentHandler } from "./handlers/SetBinRemindersIntentHandler";
+import { ListBinRemindersIntentHandler } from "./handlers/ListBinRemindersIntentHandler";
+import { CancelBinRemindersIntentHandler } from "./handlers/CancelBinRemindersIntentHandler";
+import { ChoosePropertyIntentHandler } from "./handlers/ChoosePropertyIntentHandler";
+import { SetMyAddressIntentHandler } from "./handlers/SetMyAddressIntentHandler";
+import { ClearMyAddressIntentHandler } from "./handlers/ClearMyAddressIntentHandler";
 import { SessionEndedHandler } from "./handlers/SessionEndedHandler";
+import { LocalisationRequestInterceptor } from "./handlers/LocalisationRequestInterceptor";
+import { MissingPermissionErrorHandler } from "./handlers/MissingPermissionErrorHandler";
+import { IncompleteAddressErrorHandler } from "./handlers/IncompleteAddressErrorHandler";
+import { AmbiguousAddressErrorHandler } from "./handlers/AmbiguousAddressErrorHandler";
+import { AddressNotFoundErrorHandler } from "./handlers/AddressNotFoundErrorHandler";
+import { CouncilUnreachableErrorHandler } from "./handlers/CouncilUnreachableErrorHandler";
+import { CouncilFormatChangedErrorHandler } from "./handlers/CouncilFormatChangedErrorHandler";
+import { StorageErrorHandler } from "./handlers/StorageErrorHandler";
 import { GenericErrorHandler } from "./handlers/GenericErrorHandler";
+import { handleApiRequest } from "./api/ApiGatewayHandler";
+import { handleScheduledRefresh } from "./refresh/ScheduledRefreshHandler";
+import { PreRefreshSummary } from "./handlers/business-logic/PreRefresh";
+import { settleBackgroundRefreshes } from "./handlers/business-logic/PropertyDataCache";
+import { getDefaultLookupDependencies, LookupDependencies } from "./handlers/business-logic/LookupDependencies";
 
 
-function buildLambdaSkill(): LambdaHandler {
+function buildLambdaSkill(dependencies: LookupDependencies): LambdaHandler {
     return SkillBuilders.standard()
+    .addRequestInterceptors(new LocalisationRequestInterceptor())
     .addRequestHandlers(
-        new LaunchRequestHandler(),
+        new LaunchRequestHandler(dependencies),
+        new NextBinOfTypeIntentHandler(dependencies),
+        new CollectionScheduleIntentHandler(dependencies),
+        new SetBinRemindersIntentHandler(dependencies),
+        new ListBinRemindersIntentHandler(),
+        new CancelBinRemindersIntentHandler(),
+        new ChoosePropertyIntentHandler(dependencies),
+        new SetMyAddressIntentHandler(dependencies),
+        new ClearMyAddressIntentHandler(dependencies),
         new SessionEndedHandler()
     )
-    .addErrorHandlers(new GenericErrorHandler())
+    .addErrorHandlers(
+        new MissingPermissionErrorHandler(),
+        new IncompleteAddressErrorHandler(),
+        new AmbiguousAddressErrorHandler(),
+        new AddressNotFoundErrorHandler(),
+        new CouncilUnreachableErrorHandler(),
+        new CouncilFormatChangedErrorHandler(),
+        new StorageErrorHandler(),
+        new GenericErrorHandler()
+    )
     .lambda();
  }
 
+ /**
+  * The skill's Lambda handler, looking addresses and bin data up through the dependencies. Background refreshes
+  * of stale bin data get the cache policy's revalidateWaitMs to finish before the response goes; Lambda may freeze
+  * any still running then, so they are abandoned and the stale data is left for the scheduled refresh.
+  */
+ export function buildSkillHandler(dependencies: LookupDependencies): LambdaHandler {
+     const skillHandler: LambdaHandler = buildLambdaSkill(dependencies);
+
+     return (event, context, callback) => {
+         context.callbackWaitsForEmptyEventLoop = false;
+         return skillHandler(event, context, (err, result) => {
+             settleBackgroundRefreshes(dependencies.cachePolicy.revalidateWaitMs)
+                 .then(() => callback(err, result));
+         });
+     };
+ }
+
+ // Where addresses and bin data are stored, chosen from the environment: see buildLookupDependencies.
+ const dependencies: LookupDependencies = getDefaultLookupDependencies();
+
  // Lambda handler - entry point for skill
- export let handler = buildLambdaSkill();
\ No newline at end of file
+ export let handler: LambdaHandler = buildSkillHandler(dependencies);
+
+ // Lambda handler - entry point for the JSON API behind API Gateway
+ export let apiHandler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+     const result: APIGatewayProxyResult = await handleApiRequest(event, dependencies);
+     await settleBackgroundRefreshes(dependencies.cachePolicy.revalidateWaitMs);
+     return result;
+ };
+
+ // Lambda handler - entry point for the EventBridge schedule that refreshes stored bin data before it goes stale
+ export let refreshHandler = (event: ScheduledEvent, context: Context): Promise<PreRefreshSummary> =>
+     handleScheduledRefresh(event, () => context.getRemainingTimeInMillis(), dependencies);
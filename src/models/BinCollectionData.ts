@@ -1,11 +1,17 @@
 export class BinCollectionData {
     collectionDay: string;
     collectionDate: string;
+    /** Id of the bin type in the BinTypeCatalogue, or "Unknown" when the council's label wasn't recognised. */
     binType: string;
+    /** The council's own name for the collection, kept so unrecognised collections can still be reported. */
+    councilLabel: string;
+    /** Set on collections projected from the stored history when the council couldn't be reached. Never stored. */
+    predicted?: boolean;
 
-    constructor(collectionDay: string, collectionDate: string, binType: string) {
+    constructor(collectionDay: string, collectionDate: string, binType: string, councilLabel: string = null) {
         this.collectionDay = collectionDay;
         this.collectionDate = collectionDate;
         this.binType = binType;
+        this.councilLabel = councilLabel;
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,20 @@
+import { BinType } from "./BinType";
+import { Rescheduling } from "./Rescheduling";
+
+export class BinCollectionGroup {
+    collectionDay: string;
+    collectionDate: string;
+    binTypes: BinType[];
+    /** Set when the collection has moved from the property's usual day; null otherwise or when that isn't known. */
+    rescheduling: Rescheduling = null;
+    /** Whether any of the collections on the date were predicted rather than listed by the council. */
+    predicted: boolean = false;
+    /** Bins in the group the council empties on a round of their own, so they are put out separately from the others. */
+    collectedAlone: BinType[] = [];
+
+    constructor(collectionDay: string, collectionDate: string, binTypes: BinType[]) {
+        this.collectionDay = collectionDay;
+        this.collectionDate = collectionDate;
+        this.binTypes = binTypes;
+    }
+}
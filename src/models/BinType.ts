@@ -0,0 +1,15 @@
+export type MaterialStream = "general" | "recycling" | "garden" | "food" | "glass" | "bulky" | "unknown";
+
+export class BinType {
+    id: string;
+    colour: string;
+    materialStream: MaterialStream;
+    spokenName: string;
+
+    constructor(id: string, colour: string, materialStream: MaterialStream, spokenName: string) {
+        this.id = id;
+        this.colour = colour;
+        this.materialStream = materialStream;
+        this.spokenName = spokenName;
+    }
+}
@@ -0,0 +1,15 @@
+/**
+ * Quirks of a council's collection rounds that can't be read from its listings.
+ */
+export interface CollectionRules {
+    /**
+     * Bin types the council empties on a round of their own. When a listing puts one on the same date as
+     * other bins it stays in that date's collection, with a note to put it out separately.
+     */
+    collectedAlone?: string[];
+    /**
+     * Bank holidays (YYYY-MM-DD) in the council's area, used to explain collections that have moved from the
+     * property's usual day. Moved collections are still spotted without them.
+     */
+    bankHolidays?: string[];
+}
@@ -0,0 +1,9 @@
+export class PropertyCandidate {
+    propertyId: string;
+    displayAddress: string;
+
+    constructor(propertyId: string, displayAddress: string) {
+        this.propertyId = propertyId;
+        this.displayAddress = displayAddress;
+    }
+}
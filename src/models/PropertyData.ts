@@ -1,13 +1,29 @@
 import {BinCollectionData} from './BinCollectionData';
+import { CollectionRules } from './CollectionRules';
 
 export class PropertyData {
     addressLine1: string;
     propertyId: string;
     binCollectionData: BinCollectionData[];
+    /** The council's collection rules. Not stored; filled in from the council provider on lookup. */
+    collectionRules: CollectionRules;
+    /** When the council was asked for the data (ISO 8601), or null for data stored before this was recorded. */
+    fetchedAt: string;
+    /** When a lookup last recorded answering from the stored data (ISO 8601), or null if none has. */
+    requestedAt: string;
+    /** When the council's collections last differed from those stored (ISO 8601), or null if not known. */
+    changedAt: string;
+    /** When reminders were last made to match the collections (ISO 8601), or null if they haven't been. */
+    remindersSyncedAt: string;
 
     constructor(addressLine1: string, propertyId: string, binCollectionData: BinCollectionData[]) {
         this.addressLine1 = addressLine1;
         this.propertyId = propertyId;
         this.binCollectionData = binCollectionData;
+        this.collectionRules = {};
+        this.fetchedAt = null;
+        this.requestedAt = null;
+        this.changedAt = null;
+        this.remindersSyncedAt = null;
     }
 }
\ No newline at end of file
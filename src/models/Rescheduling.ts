@@ -0,0 +1,17 @@
+/**
+ * A collection that isn't on the property's usual collection day, e.g. one moved by a bank holiday.
+ */
+export class Rescheduling {
+    /** The date the collection would usually have been, as DD/MM/YYYY. */
+    usualDate: string;
+    /** Days the collection has moved by, positive when it is late. */
+    daysMoved: number;
+    /** The bank holiday (YYYY-MM-DD) that explains the move, or null when none is known. */
+    bankHoliday: string;
+
+    constructor(usualDate: string, daysMoved: number, bankHoliday: string = null) {
+        this.usualDate = usualDate;
+        this.daysMoved = daysMoved;
+        this.bankHoliday = bankHoliday;
+    }
+}
@@ -1,10 +1,16 @@
 export class ShortAddress {
     addressLine1: string;
     postCode: string;
+    /**
+     * The property a user chose for the address when they set it up by voice. Their bins are looked up by it rather
+     * than by the address, which other users may have chosen another property for.
+     */
+    propertyId: string;
 
-    constructor (addressLine1: string, postCode: string) {
+    constructor (addressLine1: string, postCode: string, propertyId: string = null) {
         this.addressLine1 = addressLine1;
         this.postCode = postCode;
+        this.propertyId = propertyId;
     }
 
 }
\ No newline at end of file
@@ -0,0 +1,13 @@
+export class UserAddress {
+    userId: string;
+    addressLine1: string;
+    postCode: string;
+    propertyId: string;
+
+    constructor(userId: string, addressLine1: string, postCode: string, propertyId: string) {
+        this.userId = userId;
+        this.addressLine1 = addressLine1;
+        this.postCode = postCode;
+        this.propertyId = propertyId;
+    }
+}
@@ -0,0 +1,20 @@
+import { ScheduledEvent } from "aws-lambda";
+import { getDefaultLookupDependencies, LookupDependencies } from "../handlers/business-logic/LookupDependencies";
+import { loadPreRefreshPolicy, PreRefreshPolicy, preRefreshProperties, PreRefreshSummary } from "../handlers/business-logic/PreRefresh";
+
+/**
+ * Entry point for an EventBridge schedule, refreshing stored properties before they go stale. The summary is
+ * logged in a form a CloudWatch metric filter can read, e.g. { $.preRefresh.failed > 0 }. remainingTimeMs is the
+ * Lambda context's getRemainingTimeInMillis, so the run stops starting refreshes before it times out.
+ */
+export async function handleScheduledRefresh(event: ScheduledEvent, remainingTimeMs: () => number,
+                                             dependencies: LookupDependencies = getDefaultLookupDependencies(),
+                                             policy: PreRefreshPolicy = loadPreRefreshPolicy()): Promise<PreRefreshSummary> {
+    console.log("Scheduled refresh triggered by " + event.source + " at " + event.time);
+
+    const summary: PreRefreshSummary = await preRefreshProperties(dependencies.propertyRepository,
+        dependencies.councilProviderRegistry, dependencies.cachePolicy, policy, undefined, remainingTimeMs);
+    console.log(JSON.stringify({ preRefresh: summary }));
+
+    return summary;
+}
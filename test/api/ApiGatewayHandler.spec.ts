@@ -0,0 +1,147 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
+import { FakeHttpServer } from '../support/FakeHttpServer';
+import { addCheshireEastRoutes, CHESHIRE_EAST_PATH, POSTCODES } from '../support/FakeCheshireEast';
+import { InMemoryDao } from '../support/InMemoryDao';
+import { inMemoryLookupDependencies } from '../support/InMemoryLookupDependencies';
+import { clearPropertyDataCache, settleBackgroundRefreshes } from '../../src/handlers/business-logic/PropertyDataCache';
+import { LookupDependencies } from '../../src/handlers/business-logic/LookupDependencies';
+import { handleApiRequest } from '../../src/api/ApiGatewayHandler';
+
+const server = new FakeHttpServer();
+let dependencies: LookupDependencies;
+
+function get(path: string, queryStringParameters: { [name: string]: string } = null): Promise<APIGatewayProxyResult> {
+    return handleApiRequest({ httpMethod: "GET", path, queryStringParameters } as APIGatewayProxyEvent, dependencies);
+}
+
+function bodyOf(result: APIGatewayProxyResult) {
+    return JSON.parse(result.body);
+}
+
+beforeAll(async () => {
+    jest.useFakeTimers({
+        now: new Date("2026-10-19T09:00:00Z"),
+        doNotFake: ["nextTick", "setImmediate", "clearImmediate", "setTimeout", "clearTimeout",
+            "setInterval", "clearInterval", "queueMicrotask", "hrtime", "performance"]
+    });
+
+    const baseUrl: string = await addCheshireEastRoutes(server).start();
+    process.env.CHESHIRE_EAST_BASE_URL = baseUrl + CHESHIRE_EAST_PATH;
+    dependencies = inMemoryLookupDependencies();
+});
+
+afterAll(async () => {
+    await server.stop();
+    jest.useRealTimers();
+    delete process.env.CHESHIRE_EAST_BASE_URL;
+});
+
+beforeEach(async () => {
+    await settleBackgroundRefreshes();
+    clearPropertyDataCache();
+    InMemoryDao.clear();
+    server.requests = [];
+});
+
+test('lists the properties matching an address', async () => {
+    const result = await get("/properties", { postcode: "sk11 7xx", address: "flat 2, 12 acacia avenue" });
+
+    expect(result.statusCode).toBe(200);
+    expect(result.headers["Content-Type"]).toBe("application/json");
+    expect(bodyOf(result).properties).toEqual([{ uprn: "100010000002", address: expect.stringContaining("FLAT 2") }]);
+});
+
+test('lists collections between two dates and caches them like the skill', async () => {
+    const query = { postcode: POSTCODES.SINGLE_MATCH, address: "1 Acacia Avenue", from: "2026-10-19", to: "2026-10-28" };
+
+    const result = await get("/properties/100010123456/collections", query);
+
+    expect(result.statusCode).toBe(200);
+    expect(bodyOf(result)).toEqual({
+        uprn: "100010123456",
+        from: "2026-10-19",
+        to: "2026-10-28",
+        collections: [
+            { date: "2026-10-20", bins: [
+                { id: "Silver", name: "Silver", colour: "silver", materialStream: "recycling" },
+                { id: "Green", name: "Green", colour: "green", materialStream: "garden" }
+            ] },
+            { date: "2026-10-27", bins: [{ id: "Black", name: "Black", colour: "black", materialStream: "general" }] }
+        ]
+    });
+    expect(InMemoryDao.items["1%20ACACIA%20AVENUE:SK11 3AB"].uprn).toBe("100010123456");
+
+    server.requests = [];
+    expect((await get("/properties/100010123456/collections", query)).statusCode).toBe(200);
+    expect(server.requests).toHaveLength(0);
+});
+
+test('serves the collections as an iCalendar feed', async () => {
+    const result = await get("/properties/100010123456/collections.ics",
+        { postcode: POSTCODES.SINGLE_MATCH, address: "1 Acacia Avenue", alarm: "19:00" });
+
+    expect(result.statusCode).toBe(200);
+    expect(result.headers["Content-Type"]).toBe("text/calendar; charset=utf-8");
+    expect(result.body).toContain("UID:100010123456-20261020@bincollectionday\r\n");
+    expect(result.body).toContain("TRIGGER:-PT5H\r\n");
+
+    const badAlarm = await get("/properties/100010123456/collections.ics",
+        { postcode: POSTCODES.SINGLE_MATCH, address: "1 Acacia Avenue", alarm: "7pm" });
+    expect(badAlarm.statusCode).toBe(400);
+});
+
+test('leaves a stored choice of property alone when asked about another', async () => {
+    InMemoryDao.items["12%20ACACIA%20AVENUE:SK11 7XX"] = { propertyId: "100010000001", binCollectionData: "[]" };
+
+    const result = await get("/properties/100010000002/collections", { postcode: POSTCODES.MULTIPLE_MATCHES, address: "12 Acacia Avenue" });
+
+    expect(result.statusCode).toBe(200);
+    expect(InMemoryDao.items["12%20ACACIA%20AVENUE:SK11 7XX"].uprn).toBe("100010000001");
+});
+
+test('refuses a property the council does not list at the address, storing nothing', async () => {
+    const result = await get("/properties/100010000002/collections", { postcode: POSTCODES.SINGLE_MATCH, address: "1 Acacia Avenue" });
+
+    expect(result.statusCode).toBe(404);
+    expect(bodyOf(result).error.code).toBe("NOT_FOUND");
+    expect(InMemoryDao.items["1%20ACACIA%20AVENUE:SK11 3AB"]).toBeUndefined();
+    expect(InMemoryDao.schedules["100010000002"]).toBeUndefined();
+    expect(server.requests.filter(url => url.indexOf("GetBartecJobList") !== -1)).toHaveLength(0);
+});
+
+test('rejects invalid parameters', async () => {
+    const cases: Array<[string, { [name: string]: string }]> = [
+        ["/properties", {}],
+        ["/properties", { postcode: "not a postcode" }],
+        ["/properties/100010123456/collections", { postcode: POSTCODES.SINGLE_MATCH }],
+        ["/properties/100010123456/collections", { postcode: POSTCODES.SINGLE_MATCH, address: "1", from: "19/10/2026" }],
+        ["/properties/100010123456/collections", { postcode: POSTCODES.SINGLE_MATCH, address: "1", from: "2026-10-20", to: "2026-10-19" }],
+        ["/properties/100010123456/collections", { postcode: POSTCODES.SINGLE_MATCH, address: "1", from: "2026-01-01", to: "2027-12-31" }],
+        ["/properties/not%20an%20id/collections", { postcode: POSTCODES.SINGLE_MATCH, address: "1" }]
+    ];
+
+    for (const [path, query] of cases) {
+        const result = await get(path, query);
+        expect(result.statusCode).toBe(400);
+        expect(bodyOf(result).error.code).toBe("INVALID_REQUEST");
+    }
+    expect(server.requests).toHaveLength(0);
+});
+
+test('maps the skill errors to HTTP statuses', async () => {
+    expect((await get("/properties", { postcode: "ZZ1 1AA" })).statusCode).toBe(404);
+    expect(bodyOf(await get("/properties", { postcode: "ZZ1 1AA" })).error.code).toBe("UNSUPPORTED_AREA");
+    expect((await get("/properties", { postcode: POSTCODES.NO_MATCHES })).statusCode).toBe(404);
+
+    const unreachable = await get("/properties", { postcode: POSTCODES.SERVER_ERROR });
+    expect(unreachable.statusCode).toBe(503);
+    expect(unreachable.body).not.toContain("500");
+});
+
+test('rejects unknown routes and methods', async () => {
+    expect((await get("/bins")).statusCode).toBe(404);
+
+    const post = await handleApiRequest({ httpMethod: "POST", path: "/properties" } as APIGatewayProxyEvent, dependencies);
+    expect(post.statusCode).toBe(405);
+    expect(post.headers.Allow).toBe("GET");
+});
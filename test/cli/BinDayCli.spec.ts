@@ -0,0 +1,108 @@
+import { FakeHttpServer } from '../support/FakeHttpServer';
+import { addCheshireEastRoutes, CHESHIRE_EAST_PATH, POSTCODES } from '../support/FakeCheshireEast';
+import { InMemoryDao } from '../support/InMemoryDao';
+import { BinCollectionData } from '../../src/models/BinCollectionData';
+import { PropertyRepository } from '../../src/handlers/dao/PropertyRepository';
+
+const server = new FakeHttpServer();
+let runBinDay: (args: string[], write: (text: string) => void, httpClient: undefined, repository: PropertyRepository) => Promise<number>;
+
+async function run(...args: string[]): Promise<{ status: number, output: string }> {
+    let output: string = "";
+    const status: number = await runBinDay(args, text => output += text, undefined, new InMemoryDao());
+    return { status, output };
+}
+
+beforeAll(async () => {
+    jest.useFakeTimers({
+        now: new Date("2026-10-19T09:00:00Z"),
+        doNotFake: ["nextTick", "setImmediate", "clearImmediate", "setTimeout", "clearTimeout",
+            "setInterval", "clearInterval", "queueMicrotask", "hrtime", "performance"]
+    });
+
+    const baseUrl: string = await addCheshireEastRoutes(server).start();
+    process.env.CHESHIRE_EAST_BASE_URL = baseUrl + CHESHIRE_EAST_PATH;
+    runBinDay = require('../../src/cli/BinDayCli').runBinDay;
+});
+
+afterAll(async () => {
+    await server.stop();
+    jest.useRealTimers();
+    delete process.env.CHESHIRE_EAST_BASE_URL;
+});
+
+beforeEach(() => {
+    InMemoryDao.clear();
+    server.requests = [];
+});
+
+test('reports the council lookup as JSON without caching it', async () => {
+    const { status, output } = await run(POSTCODES.SINGLE_MATCH, "1", "Acacia", "Avenue", "--json");
+    const report = JSON.parse(output);
+
+    expect(status).toBe(0);
+    expect(report).toMatchObject({
+        postCode: "SK11 3AB",
+        addressLine1: "1 ACACIA AVENUE",
+        council: "Cheshire East",
+        uprn: "100010123456",
+        cache: "miss",
+        date: "2026-10-19",
+        error: null
+    });
+    expect(report.rawResponses).toHaveLength(2);
+    expect(report.collections.length).toBeGreaterThan(0);
+    expect(report.speech).toMatch(/^Your .+ (is|are) due /);
+    expect(InMemoryDao.items).toEqual({});
+});
+
+test('answers from fresh stored data unless the cache is skipped', async () => {
+    InMemoryDao.items["1%20ACACIA%20AVENUE:SK11 3AB"] = {
+        propertyId: "100010123456",
+        binCollectionData: JSON.stringify([
+            new BinCollectionData("Wednesday", "21/10/2026", "Black"),
+            new BinCollectionData("Wednesday", "28/10/2026", "Silver"),
+            new BinCollectionData("Wednesday", "04/11/2026", "Black"),
+            new BinCollectionData("Wednesday", "11/11/2026", "Silver")
+        ])
+    };
+
+    const cached = await run(POSTCODES.SINGLE_MATCH, "1 Acacia Avenue");
+    expect(cached.output).toContain("Cache:       fresh");
+    expect(cached.output).toContain("Speech:      Your Black bin is due on Wednesday.");
+    expect(cached.output).toContain("none, answered from the database");
+    expect(server.requests).toHaveLength(0);
+
+    const uncached = await run(POSTCODES.SINGLE_MATCH, "1 Acacia Avenue", "--no-cache", "--json");
+    expect(JSON.parse(uncached.output).cache).toBe("skipped");
+    expect(server.requests.length).toBeGreaterThan(0);
+});
+
+test('speaks the sentence for a simulated date', async () => {
+    InMemoryDao.items["1%20ACACIA%20AVENUE:SK11 3AB"] = {
+        propertyId: "100010123456",
+        binCollectionData: JSON.stringify([
+            new BinCollectionData("Wednesday", "21/10/2026", "Black"),
+            new BinCollectionData("Wednesday", "28/10/2026", "Silver"),
+            new BinCollectionData("Wednesday", "04/11/2026", "Black"),
+            new BinCollectionData("Wednesday", "11/11/2026", "Silver")
+        ])
+    };
+
+    const { output } = await run(POSTCODES.SINGLE_MATCH, "1 Acacia Avenue", "--date", "2026-10-27", "--json");
+
+    expect(JSON.parse(output).speech).toBe("Your Silver bin is due Tomorrow.");
+});
+
+test('reports lookup errors with a failing status', async () => {
+    const { status, output } = await run(POSTCODES.MULTIPLE_MATCHES, "12 Acacia Avenue", "--json");
+
+    expect(status).toBe(1);
+    expect(JSON.parse(output).error).toContain("100010000002");
+});
+
+test('prints usage for unusable arguments', async () => {
+    expect((await run("not a postcode", "1 Acacia Avenue")).status).toBe(2);
+    expect((await run(POSTCODES.SINGLE_MATCH)).status).toBe(2);
+    expect((await run(POSTCODES.SINGLE_MATCH, "1 Acacia Avenue", "--date", "22/10/2026")).output).toMatch(/^Usage: bin-day/);
+});
@@ -0,0 +1,18 @@
+import { runMigrateProperties } from '../../src/cli/MigratePropertiesCli';
+import { InMemoryPropertyRepository } from '../../src/handlers/dao/InMemoryPropertyRepository';
+import { DEFAULT_CACHE_POLICY } from '../../src/handlers/business-logic/CachePolicy';
+
+test('prints a summary of the migration', async () => {
+    const repository = new InMemoryPropertyRepository(DEFAULT_CACHE_POLICY, {
+        "1%20ACACIA%20AVENUE:SK11 3AB": {
+            addressLine1: "1%20ACACIA%20AVENUE:SK11 3AB",
+            propertyId: "100010123456",
+            binCollectionData: JSON.stringify([{ collectionDay: "Tuesday", collectionDate: "20/10/2026", binType: "Black" }])
+        }
+    });
+    let output = "";
+
+    expect(await runMigrateProperties(text => output += text, repository)).toBe(0);
+
+    expect(JSON.parse(output)).toEqual({ scanned: 1, upgraded: 1, current: 0, unusable: 0, failed: 0 });
+});
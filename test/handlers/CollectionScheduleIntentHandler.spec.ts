@@ -0,0 +1,68 @@
+import * as moment from 'moment';
+import { buildScheduleCard, buildScheduleString, parseCollectionWindow } from '../../src/handlers/CollectionScheduleIntentHandler';
+import { findCollectionsBetween } from '../../src/handlers/business-logic/BinCollectionFinder';
+import { BinCollectionData } from '../../src/models/BinCollectionData';
+import { PropertyData } from '../../src/models/PropertyData';
+import { translatorFor } from '../../src/i18n/Translator';
+
+const NOW = moment.utc("19/10/2026", "DD/MM/YYYY");
+
+const propertyData = new PropertyData("TEST", "1", [
+    new BinCollectionData("Tuesday", "13/10/2026", "Black"),
+    new BinCollectionData("Tuesday", "20/10/2026", "Silver"),
+    new BinCollectionData("Tuesday", "20/10/2026", "Green"),
+    new BinCollectionData("Tuesday", "27/10/2026", "Black"),
+    new BinCollectionData("Tuesday", "03/11/2026", "Silver"),
+    new BinCollectionData("Tuesday", "03/11/2026", "Green")
+]);
+
+test('defaults to a two week window', () => {
+    const window = parseCollectionWindow(undefined, undefined, NOW);
+
+    expect(window.from.format("DD/MM/YYYY")).toBe("19/10/2026");
+    expect(window.to.format("DD/MM/YYYY")).toBe("02/11/2026");
+});
+
+test('uses a requested duration', () => {
+    const window = parseCollectionWindow("P1M", undefined, NOW);
+
+    expect(window.to.format("DD/MM/YYYY")).toBe("19/11/2026");
+});
+
+test('clips this week to start from today', () => {
+    const window = parseCollectionWindow(undefined, "2026-W43", NOW);
+
+    expect(window.from.format("DD/MM/YYYY")).toBe("19/10/2026");
+    expect(window.to.format("DD/MM/YYYY")).toBe("25/10/2026");
+});
+
+test('groups collections by date and summarises them', () => {
+    const window = parseCollectionWindow("P3W", undefined, NOW);
+    const groups = findCollectionsBetween(propertyData, window.from, window.to);
+
+    expect(buildScheduleString(groups, translatorFor("en-GB"))).toBe("Your collections are Silver and Green on Tuesday the 20th, "
+        + "then Black on Tuesday the 27th, then Silver and Green on Tuesday the 3rd.");
+    expect(buildScheduleCard(groups, translatorFor("en-GB"))).toBe("Tuesday the 20th: Silver, Green\n"
+        + "Tuesday the 27th: Black\n"
+        + "Tuesday the 3rd: Silver, Green");
+});
+
+test('lists a bin the council collects alone with the others on its date', () => {
+    const collectedAlone = new PropertyData("TEST", "1", [
+        new BinCollectionData("Tuesday", "20/10/2026", "Black"),
+        new BinCollectionData("Tuesday", "20/10/2026", "Silver"),
+        new BinCollectionData("Tuesday", "27/10/2026", "Black")
+    ]);
+    collectedAlone.collectionRules = { collectedAlone: ["Black"] };
+    const window = parseCollectionWindow("P2W", undefined, NOW);
+    const groups = findCollectionsBetween(collectedAlone, window.from, window.to);
+
+    expect(buildScheduleString(groups, translatorFor("en-GB"))).toBe("Your collections are Black and Silver on Tuesday the 20th, "
+        + "with your Black bin out separately, then Black on Tuesday the 27th.");
+    expect(buildScheduleCard(groups, translatorFor("en-GB"))).toBe("Tuesday the 20th: Black (out separately), Silver\n"
+        + "Tuesday the 27th: Black");
+});
+
+test('reports an empty window', () => {
+    expect(buildScheduleString([], translatorFor("en-GB"))).toBe("You don't have any bin collections in that time.");
+});
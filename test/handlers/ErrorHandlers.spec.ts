@@ -0,0 +1,63 @@
+import { HandlerInput, ResponseFactory } from 'ask-sdk';
+import { AddressNotFoundErrorHandler } from '../../src/handlers/AddressNotFoundErrorHandler';
+import { CouncilUnreachableErrorHandler } from '../../src/handlers/CouncilUnreachableErrorHandler';
+import { GenericErrorHandler } from '../../src/handlers/GenericErrorHandler';
+import { MissingPermissionErrorHandler } from '../../src/handlers/MissingPermissionErrorHandler';
+import { AddressNotFoundError } from '../../src/errors/AddressNotFoundError';
+import { CouncilUnreachableError } from '../../src/errors/CouncilUnreachableError';
+import { MissingPermissionError } from '../../src/errors/MissingPermissionError';
+import { UnsupportedAreaError } from '../../src/errors/UnsupportedAreaError';
+import { PERMISSIONS } from '../../src/handlers/business-logic/PropertyLookup';
+
+function handlerInput(): HandlerInput {
+    return {
+        requestEnvelope: { request: { type: 'LaunchRequest' } },
+        responseBuilder: ResponseFactory.init()
+    } as any;
+}
+
+function speechOf(response): string {
+    return response.outputSpeech.ssml;
+}
+
+test('typed errors keep their class through the ES5 compile', () => {
+    const error = new UnsupportedAreaError("ZZ1 1AA");
+
+    expect(error).toBeInstanceOf(UnsupportedAreaError);
+    expect(error).toBeInstanceOf(AddressNotFoundError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe("UnsupportedAreaError");
+});
+
+test('each error is picked up by its own handler', () => {
+    const error = new CouncilUnreachableError("Cheshire East", new Error("ETIMEDOUT"));
+
+    expect(new CouncilUnreachableErrorHandler().canHandle(handlerInput(), error)).toBe(true);
+    expect(new AddressNotFoundErrorHandler().canHandle(handlerInput(), error)).toBe(false);
+});
+
+test('never speaks the internal message of an unknown error', () => {
+    const response = new GenericErrorHandler().handle(handlerInput(), new Error("connect ECONNREFUSED 10.0.0.1:443"));
+
+    expect(speechOf(response)).not.toContain("ECONNREFUSED");
+    expect(speechOf(response)).toContain("Sorry, something went wrong");
+});
+
+test('never speaks the internal message of a council failure', () => {
+    const response = new CouncilUnreachableErrorHandler().handle(handlerInput(), new CouncilUnreachableError("Cheshire East", new Error("ETIMEDOUT")));
+
+    expect(speechOf(response)).not.toContain("ETIMEDOUT");
+    expect(speechOf(response)).toContain("couldn't reach the Cheshire East website");
+});
+
+test('tells users outside supported areas', () => {
+    const response = new AddressNotFoundErrorHandler().handle(handlerInput(), new UnsupportedAreaError("ZZ1 1AA"));
+
+    expect(speechOf(response)).toContain("can't look up bin collections for your area");
+});
+
+test('asks for the missing permissions with a consent card', () => {
+    const response = new MissingPermissionErrorHandler().handle(handlerInput(), new MissingPermissionError(PERMISSIONS));
+
+    expect(response.card).toEqual({ type: 'AskForPermissionsConsent', permissions: PERMISSIONS });
+});
@@ -0,0 +1,77 @@
+import * as moment from 'moment';
+import { Slot } from "ask-sdk-model";
+import { buildBinOfTypeString, parseBinTypeSlot } from '../../src/handlers/NextBinOfTypeIntentHandler';
+import { BinCollectionData } from '../../src/models/BinCollectionData';
+import { PropertyData } from '../../src/models/PropertyData';
+import { findBinType } from '../../src/handlers/business-logic/BinTypeCatalogue';
+import { translatorFor } from '../../src/i18n/Translator';
+
+const TODAY = moment.utc("2026-10-19");
+
+function collectionInDays(days: number, binType: string): BinCollectionData {
+    const date = TODAY.clone().add(days, 'day');
+    return new BinCollectionData(date.format("dddd"), date.format("DD/MM/YYYY"), binType);
+}
+
+test('parses a spoken bin colour', () => {
+    const slot: Slot = { name: "binType", value: "recycling bin", confirmationStatus: "NONE" };
+
+    expect(parseBinTypeSlot(slot).id).toBe("Silver");
+});
+
+test('prefers the entity resolution match', () => {
+    const slot: Slot = {
+        name: "binType",
+        value: "garden stuff",
+        confirmationStatus: "NONE",
+        resolutions: {
+            resolutionsPerAuthority: [{
+                authority: "amzn1.er-authority.echo-sdk.test.BIN_TYPE",
+                status: { code: "ER_SUCCESS_MATCH" },
+                values: [{ value: { name: "green", id: "GREEN" } }]
+            }]
+        }
+    };
+
+    expect(parseBinTypeSlot(slot).id).toBe("Green");
+});
+
+test('returns null for an unknown bin', () => {
+    const slot: Slot = { name: "binType", value: "purple", confirmationStatus: "NONE" };
+
+    expect(parseBinTypeSlot(slot)).toBeNull();
+});
+
+test('skips earlier collections of other bins', () => {
+    const propertyData = new PropertyData("TEST", "1", [
+        collectionInDays(-7, "Silver"),
+        collectionInDays(3, "Black"),
+        collectionInDays(10, "Silver"),
+        collectionInDays(10, "Green")
+    ]);
+
+    const expectedDay = TODAY.clone().add(10, 'day').format("dddd");
+    expect(buildBinOfTypeString(propertyData, findBinType("Silver"), TODAY, translatorFor("en-GB"))).toBe("Your Silver bin is due on " + expectedDay + ".");
+});
+
+test('explains when the green bin is suspended for winter', () => {
+    const propertyData = new PropertyData("TEST", "1", [
+        collectionInDays(-14, "Green"),
+        collectionInDays(3, "Black"),
+        collectionInDays(10, "Silver")
+    ]);
+
+    expect(buildBinOfTypeString(propertyData, findBinType("Green"), TODAY, translatorFor("en-GB"))).toContain("suspended over the winter");
+});
+
+test('says when the bin is late this week', () => {
+    const propertyData = new PropertyData("TEST", "1", [
+        collectionInDays(-6, "Black"),
+        collectionInDays(1, "Silver"),
+        collectionInDays(9, "Black"),
+        collectionInDays(15, "Silver")
+    ]);
+
+    expect(buildBinOfTypeString(propertyData, findBinType("Black"), TODAY, translatorFor("en-GB")))
+        .toBe("Your Black bin is a day late this week, on Wednesday.");
+});
@@ -0,0 +1,14 @@
+import { parsePostcode } from '../../src/handlers/SetMyAddressIntentHandler';
+
+test('normalises spoken postcodes', () => {
+    expect(parsePostcode("SK11 3AB")).toBe("SK11 3AB");
+    expect(parsePostcode("s k 11 3 a b.")).toBe("SK11 3AB");
+    expect(parsePostcode("cw12ab")).toBe("CW1 2AB");
+    expect(parsePostcode("SW1A 1AA")).toBe("SW1A 1AA");
+});
+
+test('rejects things that are not postcodes', () => {
+    expect(parsePostcode(undefined)).toBeNull();
+    expect(parsePostcode("macclesfield")).toBeNull();
+    expect(parsePostcode("SK11")).toBeNull();
+});
@@ -0,0 +1,40 @@
+import { findMatchingCandidates, selectPropertyCandidate } from '../../../src/handlers/business-logic/AddressMatcher';
+import { PropertyCandidate } from '../../../src/models/PropertyCandidate';
+import { ShortAddress } from '../../../src/models/ShortAddress';
+import { AmbiguousAddressError } from '../../../src/errors/AmbiguousAddressError';
+import { AddressNotFoundError } from '../../../src/errors/AddressNotFoundError';
+
+const FLAT_1 = new PropertyCandidate("1", "FLAT 1, 12 ACACIA AVENUE, MACCLESFIELD, SK11 7XX");
+const FLAT_2 = new PropertyCandidate("2", "FLAT 2, 12 ACACIA AVENUE, MACCLESFIELD, SK11 7XX");
+const HOUSE_12 = new PropertyCandidate("3", "12 ACACIA AVENUE, MACCLESFIELD, SK11 7XX");
+const HOUSE_120 = new PropertyCandidate("4", "120 ACACIA AVENUE, MACCLESFIELD, SK11 7XX");
+
+test('picks the only candidate when it matches', () => {
+    expect(selectPropertyCandidate(new ShortAddress("FLAT 1", "SK11 7XX"), [FLAT_1])).toBe(FLAT_1);
+});
+
+test('asks the user to confirm the only candidate when it does not match', () => {
+    expect(() => selectPropertyCandidate(new ShortAddress("ROSE COTTAGE", "SK11 7XX"), [FLAT_1])).toThrow(AmbiguousAddressError);
+});
+
+test('finds no property when the council lists none', () => {
+    expect(() => selectPropertyCandidate(new ShortAddress("ROSE COTTAGE", "SK11 7XX"), [])).toThrow(AddressNotFoundError);
+});
+
+test('picks the candidate that starts with the first line of the address', () => {
+    expect(selectPropertyCandidate(new ShortAddress("FLAT 2, 12 ACACIA AVENUE", "SK11 7XX"), [FLAT_1, FLAT_2])).toBe(FLAT_2);
+    expect(selectPropertyCandidate(new ShortAddress("12 ACACIA AVENUE", "SK11 7XX"), [FLAT_1, HOUSE_12, HOUSE_120])).toBe(HOUSE_12);
+});
+
+test('ignores punctuation differences', () => {
+    expect(selectPropertyCandidate(new ShortAddress("FLAT 2 12 ACACIA AVENUE.", "SK11 7XX"), [FLAT_1, FLAT_2])).toBe(FLAT_2);
+});
+
+test('offers the candidates containing the first line when none start with it', () => {
+    expect(findMatchingCandidates(new ShortAddress("12 ACACIA AVENUE", "SK11 7XX"), [FLAT_1, FLAT_2, HOUSE_120])).toEqual([FLAT_1, FLAT_2]);
+    expect(() => selectPropertyCandidate(new ShortAddress("12 ACACIA AVENUE", "SK11 7XX"), [FLAT_1, FLAT_2])).toThrow(AmbiguousAddressError);
+});
+
+test('offers every candidate when none match', () => {
+    expect(findMatchingCandidates(new ShortAddress("ROSE COTTAGE", "SK11 7XX"), [FLAT_1, FLAT_2])).toEqual([FLAT_1, FLAT_2]);
+});
@@ -0,0 +1,60 @@
+import * as moment from 'moment';
+import { buildBinString, findNextCollectionGroup, groupCollectionsByDate } from '../../../src/handlers/business-logic/BinCollectionFinder';
+import { BinCollectionData } from '../../../src/models/BinCollectionData';
+import { PropertyData } from '../../../src/models/PropertyData';
+import { translatorFor } from '../../../src/i18n/Translator';
+
+const TODAY = moment.utc("2026-10-19");
+
+test('groups any number of bins collected on the same date', () => {
+    const propertyData = new PropertyData("TEST", "1", [
+        new BinCollectionData("Tuesday", "20/10/2026", "Silver"),
+        new BinCollectionData("Tuesday", "20/10/2026", "Green"),
+        new BinCollectionData("Tuesday", "20/10/2026", "Food"),
+        new BinCollectionData("Tuesday", "27/10/2026", "Black")
+    ]);
+
+    expect(buildBinString(propertyData, TODAY, translatorFor("en-GB"))).toBe("Your Silver, Green and Food bins are due Tomorrow.");
+});
+
+test('groups a black bin with others when the council lists them together', () => {
+    const propertyData = new PropertyData("TEST", "1", [
+        new BinCollectionData("Tuesday", "27/10/2026", "Black"),
+        new BinCollectionData("Tuesday", "27/10/2026", "Food")
+    ]);
+
+    expect(buildBinString(propertyData, TODAY, translatorFor("en-GB"))).toBe("Your Black and Food bins are due on Tuesday.");
+});
+
+test('sorts collections that are listed out of order', () => {
+    const propertyData = new PropertyData("TEST", "1", [
+        new BinCollectionData("Tuesday", "27/10/2026", "Black"),
+        new BinCollectionData("Tuesday", "20/10/2026", "Glass")
+    ]);
+
+    expect(findNextCollectionGroup(propertyData, TODAY).collectionDate).toBe("20/10/2026");
+});
+
+test('notes bins the council collects alone on the group for their date', () => {
+    const groups = groupCollectionsByDate([
+        new BinCollectionData("Tuesday", "20/10/2026", "Silver"),
+        new BinCollectionData("Tuesday", "20/10/2026", "Black"),
+        new BinCollectionData("Tuesday", "20/10/2026", "Green"),
+        new BinCollectionData("Tuesday", "27/10/2026", "Black")
+    ], { collectedAlone: ["Black"] });
+
+    expect(groups.map(group => group.binTypes.map(binType => binType.id))).toEqual([["Silver", "Black", "Green"], ["Black"]]);
+    expect(groups.map(group => group.collectedAlone.map(binType => binType.id))).toEqual([["Black"], []]);
+});
+
+test('says every bin due next when one the council collects alone shares the date', () => {
+    const propertyData = new PropertyData("TEST", "1", [
+        new BinCollectionData("Tuesday", "20/10/2026", "Black"),
+        new BinCollectionData("Tuesday", "20/10/2026", "Silver"),
+        new BinCollectionData("Tuesday", "27/10/2026", "Green")
+    ]);
+    propertyData.collectionRules = { collectedAlone: ["Black"] };
+
+    expect(buildBinString(propertyData, TODAY, translatorFor("en-GB")))
+        .toBe("Your Black and Silver bins are due Tomorrow. Put your Black bin out separately.");
+});
@@ -0,0 +1,98 @@
+import * as moment from 'moment';
+import { services } from "ask-sdk-model";
+import { buildReminderRequests, cancelBinReminders, parseReminderTime, syncBinReminders } from '../../../src/handlers/business-logic/BinReminders';
+import { BinCollectionData } from '../../../src/models/BinCollectionData';
+import { PropertyData } from '../../../src/models/PropertyData';
+import { translatorFor } from '../../../src/i18n/Translator';
+
+const NOW = moment("2026-10-19T12:00:00");
+
+const propertyData = new PropertyData("TEST", "1", [
+    new BinCollectionData("Monday", "19/10/2026", "Black"),
+    new BinCollectionData("Tuesday", "20/10/2026", "Silver"),
+    new BinCollectionData("Tuesday", "20/10/2026", "Green"),
+    new BinCollectionData("Tuesday", "27/10/2026", "Black")
+]);
+
+type ReminderManagementServiceClient = services.reminderManagement.ReminderManagementServiceClient;
+
+/**
+ * The reminder calls as mocks, and client, the same mocks standing in for the service client.
+ */
+function fakeReminderClient(alerts: services.reminderManagement.Reminder[]) {
+    const calls = {
+        getReminders: jest.fn().mockResolvedValue({ alerts }),
+        createReminder: jest.fn().mockResolvedValue({}),
+        deleteReminder: jest.fn().mockResolvedValue(undefined)
+    };
+    const client: Partial<ReminderManagementServiceClient> = calls;
+
+    return { ...calls, client: client as ReminderManagementServiceClient };
+}
+
+function existingReminder(alertToken: string, scheduledTime: string, text: string): services.reminderManagement.Reminder {
+    return {
+        alertToken,
+        status: 'ON',
+        trigger: { type: 'SCHEDULED_ABSOLUTE', scheduledTime },
+        alertInfo: { spokenInfo: { content: [{ locale: "en-GB", text }] } }
+    };
+}
+
+test('parses reminder times', () => {
+    expect(parseReminderTime("20:30")).toBe("20:30");
+    expect(parseReminderTime("EV")).toBe("19:00");
+    expect(parseReminderTime("MO")).toBeNull();
+    expect(parseReminderTime(undefined)).toBeNull();
+});
+
+test('builds a reminder the evening before each future collection', () => {
+    const reminders = buildReminderRequests(propertyData, "19:00", translatorFor("en-GB"), NOW);
+
+    expect(reminders.map(reminder => reminder.trigger.scheduledTime)).toEqual(["2026-10-19T19:00:00", "2026-10-26T19:00:00"]);
+    expect(reminders[0].alertInfo.spokenInfo.content[0].text).toBe("Put your Silver and Green bins out tonight, they're collected tomorrow.");
+    expect(reminders[1].alertInfo.spokenInfo.content[0].text).toBe("Put your Black bin out tonight, they're collected tomorrow.");
+});
+
+test('leaves predicted collections out of reminders', () => {
+    const predicted = new BinCollectionData("Tuesday", "03/11/2026", "Silver");
+    predicted.predicted = true;
+    const withPrediction = new PropertyData("TEST", "1", propertyData.binCollectionData.concat([predicted]));
+
+    const reminders = buildReminderRequests(withPrediction, "19:00", translatorFor("en-GB"), NOW);
+
+    expect(reminders.map(reminder => reminder.trigger.scheduledTime)).toEqual(["2026-10-19T19:00:00", "2026-10-26T19:00:00"]);
+});
+
+test('schedules reminders in the device time zone', () => {
+    const lateEvening = moment.parseZone("2026-10-19T20:30:00+01:00");
+
+    const reminders = buildReminderRequests(propertyData, "19:00", translatorFor("en-GB"), lateEvening, "Europe/London");
+
+    expect(reminders.map(reminder => reminder.trigger.scheduledTime)).toEqual(["2026-10-26T19:00:00"]);
+    expect(reminders[0].trigger.timeZoneId).toBe("Europe/London");
+});
+
+test('only creates reminders that are missing and deletes stale ones', async () => {
+    const reminderClient = fakeReminderClient([
+        existingReminder("kept", "2026-10-19T19:00:00.000", "Put your Silver and Green bins out tonight, they're collected tomorrow."),
+        existingReminder("moved", "2026-10-25T19:00:00.000", "Put your Black bin out tonight, they're collected tomorrow.")
+    ]);
+
+    const result = await syncBinReminders(reminderClient.client, propertyData, "19:00", translatorFor("en-GB"), NOW);
+
+    expect(result.created).toBe(1);
+    expect(result.deleted).toBe(1);
+    expect(reminderClient.deleteReminder).toHaveBeenCalledWith("moved");
+    expect(reminderClient.createReminder.mock.calls[0][0].trigger.scheduledTime).toBe("2026-10-26T19:00:00");
+});
+
+test('cancels every active reminder', async () => {
+    const reminderClient = fakeReminderClient([
+        existingReminder("first", "2026-10-19T19:00:00.000", "first"),
+        { ...existingReminder("done", "2026-10-12T19:00:00.000", "done"), status: 'COMPLETED' }
+    ]);
+
+    expect(await cancelBinReminders(reminderClient.client)).toBe(1);
+    expect(reminderClient.deleteReminder).toHaveBeenCalledTimes(1);
+});
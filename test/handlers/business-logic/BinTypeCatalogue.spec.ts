@@ -0,0 +1,45 @@
+import * as moment from 'moment';
+import { findBinType, resolveBinType } from '../../../src/handlers/business-logic/BinTypeCatalogue';
+import { buildBinString, findCollectionsBetween } from '../../../src/handlers/business-logic/BinCollectionFinder';
+import { BinCollectionData } from '../../../src/models/BinCollectionData';
+import { PropertyData } from '../../../src/models/PropertyData';
+import { translatorFor } from '../../../src/i18n/Translator';
+
+const TODAY = moment.utc("2026-10-19");
+
+test('describes catalogued bin types', () => {
+    const food = findBinType("Food");
+
+    expect(food.materialStream).toBe("food");
+    expect(food.spokenName).toBe("Food");
+    expect(findBinType("Purple")).toBeNull();
+});
+
+test('describes an unrecognised collection by its council label', () => {
+    const binType = resolveBinType(new BinCollectionData("Tuesday", "20/10/2026", "Unknown", "Textiles"));
+
+    expect(binType.id).toBe("Unknown");
+    expect(binType.materialStream).toBe("unknown");
+    expect(binType.spokenName).toBe("Textiles");
+});
+
+test('speaks unrecognised collections rather than treating them as general waste', () => {
+    const propertyData = new PropertyData("TEST", "1", [
+        new BinCollectionData("Tuesday", "20/10/2026", "Silver"),
+        new BinCollectionData("Tuesday", "20/10/2026", "Unknown", "Textiles")
+    ]);
+
+    expect(buildBinString(propertyData, TODAY, translatorFor("en-GB"))).toBe("Your Silver and Textiles bins are due Tomorrow.");
+});
+
+test('keeps differently labelled unknown collections apart when grouping', () => {
+    const propertyData = new PropertyData("TEST", "1", [
+        new BinCollectionData("Tuesday", "20/10/2026", "Unknown", "Textiles"),
+        new BinCollectionData("Tuesday", "20/10/2026", "Unknown", "Batteries"),
+        new BinCollectionData("Tuesday", "20/10/2026", "Unknown", "Textiles")
+    ]);
+
+    const groups = findCollectionsBetween(propertyData, TODAY, TODAY.clone().add(7, 'day'));
+
+    expect(groups[0].binTypes.map(binType => binType.spokenName)).toEqual(["Textiles", "Batteries"]);
+});
@@ -0,0 +1,42 @@
+import { assessCachedData, DEFAULT_CACHE_POLICY, findExpiryTime, loadCachePolicy } from '../../../src/handlers/business-logic/CachePolicy';
+import { BinCollectionData } from '../../../src/models/BinCollectionData';
+import { PropertyData } from '../../../src/models/PropertyData';
+
+const clock = () => new Date("2026-10-19T09:00:00Z");
+
+function storedData(collectionDates: string[], fetchedAt: string): PropertyData {
+    const propertyData = new PropertyData("TEST", "1", collectionDates.map(date => new BinCollectionData("Tuesday", date, "Black")));
+    propertyData.fetchedAt = fetchedAt;
+    return propertyData;
+}
+
+const FOUR_UPCOMING = ["20/10/2026", "27/10/2026", "03/11/2026", "10/11/2026"];
+
+test('reads the policy from the environment, ignoring unusable values', () => {
+    expect(loadCachePolicy({})).toEqual(DEFAULT_CACHE_POLICY);
+
+    expect(loadCachePolicy({
+        CACHE_FRESH_FOR_HOURS: "6",
+        CACHE_STALE_WHILE_REVALIDATE: "false",
+        CACHE_MEMORY_SECONDS: "0",
+        CACHE_TTL_DAYS: "soon"
+    })).toEqual({ ...DEFAULT_CACHE_POLICY, freshForHours: 6, staleWhileRevalidate: false, memoryCacheSeconds: 0 });
+});
+
+test('judges stored data by its age and upcoming collections', () => {
+    expect(assessCachedData(storedData(FOUR_UPCOMING, "2026-10-19T03:00:00Z"), DEFAULT_CACHE_POLICY, clock)).toBe("fresh");
+    expect(assessCachedData(storedData(FOUR_UPCOMING, "2026-10-17T09:00:00Z"), DEFAULT_CACHE_POLICY, clock)).toBe("stale");
+    expect(assessCachedData(storedData(FOUR_UPCOMING.slice(1), "2026-10-19T03:00:00Z"), DEFAULT_CACHE_POLICY, clock)).toBe("stale");
+    expect(assessCachedData(storedData(FOUR_UPCOMING, "2026-09-19T09:00:00Z"), DEFAULT_CACHE_POLICY, clock)).toBe("expired");
+    expect(assessCachedData(storedData(["13/10/2026"], "2026-10-19T03:00:00Z"), DEFAULT_CACHE_POLICY, clock)).toBe("expired");
+});
+
+test('judges data stored without a fetch time by its upcoming collections', () => {
+    expect(assessCachedData(storedData(FOUR_UPCOMING, null), DEFAULT_CACHE_POLICY, clock)).toBe("fresh");
+    expect(assessCachedData(storedData(FOUR_UPCOMING.slice(2), null), DEFAULT_CACHE_POLICY, clock)).toBe("stale");
+    expect(assessCachedData(storedData([], null), DEFAULT_CACHE_POLICY, clock)).toBe("expired");
+});
+
+test('expires stored data the configured number of days after it was fetched', () => {
+    expect(findExpiryTime("2026-10-19T09:00:00.000Z", DEFAULT_CACHE_POLICY)).toBe(Date.parse("2027-01-17T09:00:00Z") / 1000);
+});
@@ -0,0 +1,85 @@
+import * as moment from 'moment';
+import { buildCalendarFeed, buildCalendarFeedUrl } from '../../../src/handlers/business-logic/CalendarFeed';
+import { BinCollectionData } from '../../../src/models/BinCollectionData';
+import { PropertyData } from '../../../src/models/PropertyData';
+import { ShortAddress } from '../../../src/models/ShortAddress';
+import { translatorFor } from '../../../src/i18n/Translator';
+
+const NOW = moment.utc("2026-10-19T09:00:00Z");
+
+const propertyData = new PropertyData("TEST", "100010123456", [
+    new BinCollectionData("Tuesday", "20/10/2026", "Silver"),
+    new BinCollectionData("Tuesday", "20/10/2026", "Green"),
+    new BinCollectionData("Tuesday", "27/10/2026", "Black"),
+    new BinCollectionData("Tuesday", "27/10/2026", "Unknown", "Textiles; Shoes, Bags")
+]);
+
+function unfold(ics: string): string[] {
+    return ics.replace(/\r\n /g, "").split("\r\n");
+}
+
+test('renders one all-day event per collection date with stable UIDs', () => {
+    const lines = unfold(buildCalendarFeed(propertyData, translatorFor("en-GB"), NOW));
+
+    expect(lines[0]).toBe("BEGIN:VCALENDAR");
+    expect(lines.filter(line => line === "BEGIN:VEVENT")).toHaveLength(2);
+    expect(lines).toContain("UID:100010123456-20261020@bincollectionday");
+    expect(lines).toContain("DTSTART;VALUE=DATE:20261020");
+    expect(lines).toContain("DTEND;VALUE=DATE:20261021");
+    expect(lines).toContain("DTSTAMP:20261019T090000Z");
+    expect(lines).toContain("SUMMARY:Silver and Green bins");
+    expect(lines).toContain("SUMMARY:Black and Textiles\\; Shoes\\, Bags bins");
+    expect(lines).not.toContain("BEGIN:VALARM");
+});
+
+test('keeps UIDs the same when the bins on a date change', () => {
+    const changed = new PropertyData("TEST", "100010123456", [new BinCollectionData("Tuesday", "20/10/2026", "Silver")]);
+
+    const uids = (data: PropertyData) => unfold(buildCalendarFeed(data, translatorFor("en-GB"), NOW)).filter(line => line.indexOf("UID:") === 0);
+
+    expect(uids(changed)).toEqual([uids(propertyData)[0]]);
+});
+
+test('keeps bins collected on their own rounds in the one event for their date', () => {
+    const collectedAlone = new PropertyData("TEST", "100010123456", [
+        new BinCollectionData("Tuesday", "20/10/2026", "Black"),
+        new BinCollectionData("Tuesday", "20/10/2026", "Silver")
+    ]);
+    collectedAlone.collectionRules = { collectedAlone: ["Black"] };
+
+    const lines = unfold(buildCalendarFeed(collectedAlone, translatorFor("en-GB"), NOW));
+
+    expect(lines.filter(line => line === "UID:100010123456-20261020@bincollectionday")).toHaveLength(1);
+    expect(lines).toContain("SUMMARY:Black and Silver bins");
+});
+
+test('adds an alarm on the evening before', () => {
+    const lines = unfold(buildCalendarFeed(propertyData, translatorFor("en-GB"), NOW, "19:30"));
+
+    expect(lines).toContain("BEGIN:VALARM");
+    expect(lines).toContain("TRIGGER:-PT4H30M");
+    expect(lines).toContain("DESCRIPTION:Put your Silver and Green bins out tonight\\, they're collected tomorrow.");
+});
+
+test('folds long lines at 75 octets', () => {
+    const longLabel = new PropertyData("TEST", "1", [new BinCollectionData("Tuesday", "20/10/2026", "Unknown", "Ŵ".repeat(60))]);
+
+    const physicalLines = buildCalendarFeed(longLabel, translatorFor("en-GB"), NOW).split("\r\n");
+
+    expect(physicalLines.every(line => Buffer.byteLength(line, "utf8") <= 75)).toBe(true);
+    expect(unfold(physicalLines.join("\r\n"))).toContain("SUMMARY:" + "Ŵ".repeat(60) + " bin");
+});
+
+test('links to the feed when the API address is configured', () => {
+    const address = new ShortAddress("1 ACACIA AVENUE", "SK11 3AB");
+    delete process.env.API_BASE_URL;
+    expect(buildCalendarFeedUrl(address, "100010123456")).toBeNull();
+
+    process.env.API_BASE_URL = "https://api.example.com/prod/";
+    try {
+        expect(buildCalendarFeedUrl(address, "100010123456"))
+            .toBe("https://api.example.com/prod/properties/100010123456/collections.ics?postcode=SK11%203AB&address=1%20ACACIA%20AVENUE");
+    } finally {
+        delete process.env.API_BASE_URL;
+    }
+});
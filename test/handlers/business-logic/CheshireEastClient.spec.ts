@@ -1,15 +1,135 @@
-import { mocked } from 'ts-jest/utils'
-import { services } from "ask-sdk-model";
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { BinCollectionData } from '../../../src/models/BinCollectionData';
+import { PropertyCandidate } from '../../../src/models/PropertyCandidate';
 import {ShortAddress} from '../../../src/models/ShortAddress';
+import { FakeHttpServer } from '../../support/FakeHttpServer';
+import { addCheshireEastRoutes, CHESHIRE_EAST_PATH, POSTCODES } from '../../support/FakeCheshireEast';
 import {CheshireEastClient} from '../../../src/handlers/business-logic/CheshireEastClient';
+import { CouncilFormatChangedError } from '../../../src/errors/CouncilFormatChangedError';
+import { AddressNotFoundError } from '../../../src/errors/AddressNotFoundError';
+import { AmbiguousAddressError } from '../../../src/errors/AmbiguousAddressError';
+import { CouncilUnreachableError } from '../../../src/errors/CouncilUnreachableError';
 
-test('test1', () => {
-    const testSubject = new CheshireEastClient();
+describe('calling the council website', () => {
+    const server = addCheshireEastRoutes(new FakeHttpServer());
+    let baseUrl: string;
 
-    const address = new ShortAddress("Test", "SK11 3AB");
+    beforeAll(async () => {
+        baseUrl = await server.start();
+    });
 
-    const result = testSubject.getPropertyIdFromWebservice(address);
+    afterAll(() => server.stop());
 
-    console.log("Property ID is : " + result);
+    test('looks up the property id for an address', async () => {
+        const testSubject = new CheshireEastClient(undefined, baseUrl + CHESHIRE_EAST_PATH);
 
+        const address = new ShortAddress("1 ACACIA AVENUE", POSTCODES.SINGLE_MATCH);
+
+        expect(await testSubject.getPropertyIdFromWebservice(address)).toBe("100010123456");
+        expect(server.requests).toContain(CHESHIRE_EAST_PATH + "/SearchByAjax/Search?postcode=SK11%203AB&propertyname=1");
+    });
+
+    test('picks the property matching the address from several search results', async () => {
+        const testSubject = new CheshireEastClient(undefined, baseUrl + CHESHIRE_EAST_PATH);
+
+        const address = new ShortAddress("FLAT 2, 12 ACACIA AVENUE", POSTCODES.MULTIPLE_MATCHES);
+
+        expect(await testSubject.getPropertyIdFromWebservice(address)).toBe("100010000002");
+    });
+
+    test('asks which property is meant when the address matches several', async () => {
+        const testSubject = new CheshireEastClient(undefined, baseUrl + CHESHIRE_EAST_PATH);
+
+        const address = new ShortAddress("12 ACACIA AVENUE", POSTCODES.MULTIPLE_MATCHES);
+
+        await expect(testSubject.getPropertyIdFromWebservice(address)).rejects.toThrow(AmbiguousAddressError);
+    });
+
+    test('fetches the collections for a property', async () => {
+        const testSubject = new CheshireEastClient(undefined, baseUrl + CHESHIRE_EAST_PATH);
+
+        const result = await testSubject.getBinDataFromWebService("100010123456");
+
+        expect(result[0]).toMatchObject({ collectionDate: "20/10/2026", binType: "Silver" });
+    });
+});
+
+describe('parsing recorded responses', () => {
+    const fixture = (name: string) => readFileSync(join(__dirname, '../../fixtures/cheshire-east', name), 'utf8');
+
+    test('parses the properties from a search response', () => {
+        const testSubject = new CheshireEastClient();
+
+        expect(testSubject.parsePropertyCandidatesResponse(fixture('search-multiple-matches.html'))).toEqual([
+            new PropertyCandidate("100010000001", "FLAT 1, 12 ACACIA AVENUE, MACCLESFIELD, SK11 7XX"),
+            new PropertyCandidate("100010000002", "FLAT 2, 12 ACACIA AVENUE, MACCLESFIELD, SK11 7XX")
+        ]);
+    });
+
+    test('falls back to the result row for the address of a property', () => {
+        const testSubject = new CheshireEastClient();
+
+        const response = '<table><tr><td> 3 ACACIA AVENUE, MACCLESFIELD </td><td><a data-uprn="100010000003">Select</a></td></tr></table>';
+
+        expect(testSubject.parsePropertyCandidatesResponse(response)).toEqual([
+            new PropertyCandidate("100010000003", "3 ACACIA AVENUE, MACCLESFIELD")
+        ]);
+    });
+
+    test('parses collections from a job list response', () => {
+        const testSubject = new CheshireEastClient();
+
+        const result = testSubject.parseBinResponse(fixture('job-list.html'));
+
+        expect(result).toHaveLength(9);
+        expect(result[0]).toEqual(new BinCollectionData("Tuesday", "20/10/2026", "Silver", "Empty Standard Mixed Recycling"));
+        expect(result[1]).toEqual(new BinCollectionData("Tuesday", "20/10/2026", "Green", "Empty Standard Garden Waste"));
+        expect(result[2]).toEqual(new BinCollectionData("Tuesday", "27/10/2026", "Black", "Empty Standard General Waste"));
+    });
+
+    test('rejects a search response with no properties', () => {
+        const testSubject = new CheshireEastClient();
+
+        expect(() => testSubject.parsePropertyCandidatesResponse(fixture('search-no-results.html'))).toThrow(AddressNotFoundError);
+    });
+
+    test('rejects a job list with no collections', () => {
+        const testSubject = new CheshireEastClient();
+
+        expect(() => testSubject.parseBinResponse(fixture('job-list-empty.html'))).toThrow(AddressNotFoundError);
+    });
+
+    test('keeps collections with an unrecognised service as unknown', () => {
+        const testSubject = new CheshireEastClient();
+
+        const result = testSubject.parseBinResponse(fixture('job-list-unknown-service.html'));
+
+        expect(result).toHaveLength(9);
+        expect(result[2]).toEqual(new BinCollectionData("Tuesday", "27/10/2026", "Unknown", "Empty Standard Textiles"));
+    });
+
+    test('reports changed markup as a format change', () => {
+        const testSubject = new CheshireEastClient();
+
+        expect(() => testSubject.parseBinResponse(fixture('job-list-changed-markup.html'))).toThrow(CouncilFormatChangedError);
+    });
+
+    test('reports invalid dates with diagnostics', () => {
+        const testSubject = new CheshireEastClient();
+
+        expect.assertions(2);
+        try {
+            testSubject.parseBinResponse(fixture('job-list-invalid-date.html'));
+        } catch (err) {
+            expect(err).toBeInstanceOf(CouncilFormatChangedError);
+            expect(err.diagnostics).toEqual(["Row 2: invalid collection date 2026-10-27 in [Tuesday | 2026-10-27 | Empty Standard General Waste]"]);
+        }
+    });
+});
+
+test('reports http failures as the council being unreachable', async () => {
+    const testSubject = new CheshireEastClient({ get: jest.fn().mockRejectedValue(new Error("ETIMEDOUT")) });
+
+    await expect(testSubject.getBinDataFromWebService("100010123456")).rejects.toBeInstanceOf(CouncilUnreachableError);
 });
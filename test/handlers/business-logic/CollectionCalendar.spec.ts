@@ -0,0 +1,50 @@
+import * as moment from 'moment';
+import { buildCollectionCalendarDatasource } from '../../../src/handlers/business-logic/CollectionCalendar';
+import { BinCollectionData } from '../../../src/models/BinCollectionData';
+import { PropertyData } from '../../../src/models/PropertyData';
+import { translatorFor } from '../../../src/i18n/Translator';
+
+const TODAY = moment.utc("2026-10-19");
+
+function weeklyCollections(weeks: number): BinCollectionData[] {
+    const collections: BinCollectionData[] = [];
+    for (let week = 0; week < weeks; week++) {
+        const date = moment.utc("2026-10-20").add(week, 'week');
+        collections.push(new BinCollectionData("Tuesday", date.format("DD/MM/YYYY"), week % 2 === 0 ? "Silver" : "Black"));
+    }
+    return collections;
+}
+
+test('lists the next few collection dates', () => {
+    const datasource = buildCollectionCalendarDatasource(new PropertyData("TEST", "1", weeklyCollections(10)), TODAY, translatorFor("en-GB"));
+
+    expect(datasource.calendar.days).toHaveLength(6);
+    expect(datasource.calendar.days[1]).toEqual({
+        date: "27/10/2026",
+        label: "Tuesday 27th October",
+        highlighted: false,
+        bins: [{ name: "Black", colour: "#212121" }]
+    });
+});
+
+test('highlights today and tomorrow', () => {
+    const propertyData = new PropertyData("TEST", "1", [
+        new BinCollectionData("Sunday", "18/10/2026", "Black"),
+        new BinCollectionData("Monday", "19/10/2026", "Glass"),
+        new BinCollectionData("Tuesday", "20/10/2026", "Silver"),
+        new BinCollectionData("Tuesday", "20/10/2026", "Green"),
+        new BinCollectionData("Wednesday", "21/10/2026", "Food")
+    ]);
+
+    const days = buildCollectionCalendarDatasource(propertyData, TODAY, translatorFor("en-GB")).calendar.days;
+
+    expect(days.map(day => day.label)).toEqual(["Today", "Tomorrow", "Wednesday 21st October"]);
+    expect(days.map(day => day.highlighted)).toEqual([true, true, false]);
+    expect(days[1].bins).toEqual([{ name: "Silver", colour: "#B0BEC5" }, { name: "Green", colour: "#2E7D32" }]);
+});
+
+test('shows unrecognised collections with a neutral colour', () => {
+    const propertyData = new PropertyData("TEST", "1", [new BinCollectionData("Tuesday", "20/10/2026", "Unknown", "Textiles")]);
+
+    expect(buildCollectionCalendarDatasource(propertyData, TODAY, translatorFor("en-GB")).calendar.days[0].bins).toEqual([{ name: "Textiles", colour: "#9E9E9E" }]);
+});
@@ -0,0 +1,146 @@
+import * as moment from 'moment';
+import { findRescheduling, inferUsualWeekday, predictCollections } from '../../../src/handlers/business-logic/CollectionPattern';
+import { buildBinString, findCollectionsBetween } from '../../../src/handlers/business-logic/BinCollectionFinder';
+import { ENGLAND_AND_WALES_BANK_HOLIDAYS } from '../../../src/handlers/business-logic/BankHolidays';
+import { BinCollectionData } from '../../../src/models/BinCollectionData';
+import { PropertyData } from '../../../src/models/PropertyData';
+import { Rescheduling } from '../../../src/models/Rescheduling';
+import { translatorFor } from '../../../src/i18n/Translator';
+
+/** Friday collections over Christmas 2026, when Christmas Day and New Year's Day are both Fridays. */
+function christmasCollections(): PropertyData {
+    return new PropertyData("TEST", "1", [
+        new BinCollectionData("Friday", "11/12/2026", "Black"),
+        new BinCollectionData("Friday", "18/12/2026", "Silver"),
+        new BinCollectionData("Saturday", "26/12/2026", "Black"),
+        new BinCollectionData("Saturday", "02/01/2027", "Silver"),
+        new BinCollectionData("Friday", "08/01/2027", "Black"),
+        new BinCollectionData("Friday", "15/01/2027", "Silver")
+    ]);
+}
+
+test('infers the usual weekday from the collection history', () => {
+    expect(inferUsualWeekday(christmasCollections().binCollectionData)).toBe(5);
+});
+
+test('finds no usual weekday without a clear majority of dates', () => {
+    expect(inferUsualWeekday([
+        new BinCollectionData("Friday", "11/12/2026", "Black"),
+        new BinCollectionData("Friday", "11/12/2026", "Silver"),
+        new BinCollectionData("Saturday", "26/12/2026", "Black")
+    ])).toBeNull();
+
+    expect(inferUsualWeekday([
+        new BinCollectionData("Monday", "14/12/2026", "Black"),
+        new BinCollectionData("Monday", "21/12/2026", "Black"),
+        new BinCollectionData("Thursday", "17/12/2026", "Silver"),
+        new BinCollectionData("Thursday", "24/12/2026", "Silver")
+    ])).toBeNull();
+});
+
+test('flags collections moved from the usual day, with the bank holiday when known', () => {
+    const propertyData = christmasCollections();
+    expect(findRescheduling("26/12/2026", propertyData)).toEqual(new Rescheduling("25/12/2026", 1));
+
+    propertyData.collectionRules = { bankHolidays: ENGLAND_AND_WALES_BANK_HOLIDAYS };
+    expect(findRescheduling("26/12/2026", propertyData)).toEqual(new Rescheduling("25/12/2026", 1, "2026-12-25"));
+    expect(findRescheduling("08/01/2027", propertyData)).toBeNull();
+
+    const groups = findCollectionsBetween(propertyData, moment.utc("2026-12-14"), moment.utc("2027-01-10"));
+    expect(groups.map(group => group.rescheduling && group.rescheduling.usualDate)).toEqual([null, "25/12/2026", "01/01/2027", null]);
+});
+
+test('says when the next collection is late because of a bank holiday', () => {
+    const propertyData = christmasCollections();
+    const today = moment.utc("2026-12-22");
+
+    expect(buildBinString(propertyData, today, translatorFor("en-GB"))).toBe("Your Black bin is a day late this week, on Saturday.");
+
+    propertyData.collectionRules = { bankHolidays: ENGLAND_AND_WALES_BANK_HOLIDAYS };
+    expect(buildBinString(propertyData, today, translatorFor("en-GB")))
+        .toBe("Your Black bin is a day late this week, on Saturday, because of the bank holiday.");
+});
+
+test('says when the next collection is early', () => {
+    const propertyData = new PropertyData("TEST", "1", [
+        new BinCollectionData("Wednesday", "16/12/2026", "Black"),
+        new BinCollectionData("Monday", "21/12/2026", "Silver"),
+        new BinCollectionData("Monday", "21/12/2026", "Green"),
+        new BinCollectionData("Wednesday", "30/12/2026", "Black"),
+        new BinCollectionData("Wednesday", "06/01/2027", "Silver")
+    ]);
+
+    expect(buildBinString(propertyData, moment.utc("2026-12-17"), translatorFor("en-GB")))
+        .toBe("Your Silver and Green bins are 2 days early this week, on Monday.");
+});
+
+test('judges a bin on a round of its own by its own usual weekday', () => {
+    const propertyData = new PropertyData("TEST", "1", [
+        new BinCollectionData("Thursday", "03/12/2026", "Black"),
+        new BinCollectionData("Monday", "07/12/2026", "Green"),
+        new BinCollectionData("Thursday", "10/12/2026", "Silver"),
+        new BinCollectionData("Thursday", "17/12/2026", "Black"),
+        new BinCollectionData("Monday", "21/12/2026", "Green"),
+        new BinCollectionData("Thursday", "24/12/2026", "Silver"),
+        new BinCollectionData("Monday", "04/01/2027", "Green"),
+        new BinCollectionData("Friday", "08/01/2027", "Black")
+    ]);
+
+    const groups = findCollectionsBetween(propertyData, moment.utc("2026-12-01"), moment.utc("2027-01-10"));
+    expect(groups.filter(group => group.rescheduling !== null).map(group => group.collectionDate)).toEqual(["08/01/2027"]);
+
+    const predicted = predictCollections(propertyData, moment.utc("2027-01-11")).binCollectionData
+        .filter(item => item.predicted && item.binType === "Green");
+    expect(predicted.map(item => item.collectionDay + " " + item.collectionDate)).toEqual([
+        "Monday 18/01/2027", "Monday 01/02/2027", "Monday 15/02/2027"
+    ]);
+});
+
+test('predicts each bin type at its usual interval after the last stored collection', () => {
+    const propertyData = christmasCollections();
+    propertyData.binCollectionData.push(new BinCollectionData("Friday", "22/01/2027", "Black"));
+
+    const predicted = predictCollections(propertyData, moment.utc("2027-01-27")).binCollectionData.filter(item => item.predicted);
+
+    expect(predicted.map(item => item.binType + " " + item.collectionDay + " " + item.collectionDate)).toEqual([
+        "Black Friday 05/02/2027", "Black Friday 19/02/2027", "Black Friday 05/03/2027",
+        "Silver Friday 29/01/2027", "Silver Friday 12/02/2027", "Silver Friday 26/02/2027"
+    ]);
+    expect(propertyData.binCollectionData.some(item => item.predicted)).toBe(false);
+});
+
+test('predicts from the usual day when the last collection was moved', () => {
+    const propertyData = new PropertyData("TEST", "1", [
+        new BinCollectionData("Friday", "27/11/2026", "Black"),
+        new BinCollectionData("Friday", "04/12/2026", "Silver"),
+        new BinCollectionData("Friday", "11/12/2026", "Black"),
+        new BinCollectionData("Friday", "18/12/2026", "Silver"),
+        new BinCollectionData("Saturday", "26/12/2026", "Black")
+    ]);
+
+    const predicted = predictCollections(propertyData, moment.utc("2027-01-04")).binCollectionData
+        .filter(item => item.predicted && item.binType === "Black");
+
+    expect(predicted[0].collectionDate).toBe("08/01/2027");
+});
+
+test('predicts nothing for bins without a regular interval', () => {
+    const propertyData = new PropertyData("TEST", "1", [
+        new BinCollectionData("Friday", "02/10/2026", "Bulky"),
+        new BinCollectionData("Friday", "16/10/2026", "Bulky"),
+        new BinCollectionData("Friday", "13/11/2026", "Bulky")
+    ]);
+
+    expect(predictCollections(propertyData, moment.utc("2026-11-20")).binCollectionData).toHaveLength(3);
+});
+
+test('says a predicted collection is only probable', () => {
+    const propertyData = new PropertyData("TEST", "1", [
+        new BinCollectionData("Tuesday", "06/10/2026", "Black"),
+        new BinCollectionData("Tuesday", "20/10/2026", "Black"),
+        new BinCollectionData("Tuesday", "03/11/2026", "Black")
+    ]);
+
+    expect(buildBinString(predictCollections(propertyData, moment.utc("2026-11-10")), moment.utc("2026-11-10"), translatorFor("en-GB")))
+        .toBe("Your Black bin is probably due on Tuesday. I couldn't check with your council, so that's going by your usual collections.");
+});
@@ -0,0 +1,90 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CouncilProvider } from '../../../src/handlers/business-logic/CouncilProvider';
+import { CouncilProviderRegistry, buildCouncilProviderRegistry } from '../../../src/handlers/business-logic/CouncilProviderRegistry';
+import { loadIcsFeedConfigs } from '../../../src/handlers/business-logic/IcsFeedClient';
+import { ShortAddress } from '../../../src/models/ShortAddress';
+
+function fakeProvider(name: string, postcodeAreas: string[]): CouncilProvider {
+    return {
+        name,
+        postcodeAreas,
+        getPropertyDataFromWebservice: jest.fn(),
+        getPropertyIdFromWebservice: jest.fn(),
+        findPropertyCandidates: jest.fn(),
+        getBinDataFromWebService: jest.fn(),
+        parseBinType: jest.fn()
+    };
+}
+
+test('routes Cheshire East postcodes to the Cheshire East provider', () => {
+    const registry = buildCouncilProviderRegistry();
+
+    expect(registry.getProviderForAddress(new ShortAddress("1 TEST STREET", "SK11 3AB")).name).toBe("Cheshire East");
+    expect(registry.getProviderForAddress(new ShortAddress("1 TEST STREET", "CW12 1AA")).name).toBe("Cheshire East");
+});
+
+test('returns null for an unsupported postcode', () => {
+    const registry = buildCouncilProviderRegistry();
+
+    expect(registry.getProviderForAddress(new ShortAddress("1 TEST STREET", "CW8 1AA"))).toBeNull();
+    expect(registry.getProviderForAddress(new ShortAddress("1 TEST STREET", "SW1A 1AA"))).toBeNull();
+});
+
+test('prefers an outward code over a postcode area', () => {
+    const areaProvider = fakeProvider("Area", ["SK"]);
+    const districtProvider = fakeProvider("District", ["SK11"]);
+    const registry = new CouncilProviderRegistry().register(areaProvider).register(districtProvider);
+
+    expect(registry.getProviderForAddress(new ShortAddress("1 TEST STREET", "SK11 3AB"))).toBe(districtProvider);
+    expect(registry.getProviderForAddress(new ShortAddress("1 TEST STREET", "SK4 1AA"))).toBe(areaProvider);
+});
+
+test('rejects two providers for the same area', () => {
+    const registry = new CouncilProviderRegistry().register(fakeProvider("First", ["CW"]));
+
+    expect(() => registry.register(fakeProvider("Second", ["CW"]))).toThrow();
+});
+
+describe('councils with iCalendar feeds', () => {
+    let directory: string;
+
+    beforeEach(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), "council-feeds-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    function writeFeeds(feeds: object[]): string {
+        const filePath: string = path.join(directory, "council-feeds.json");
+        fs.writeFileSync(filePath, JSON.stringify(feeds));
+        return filePath;
+    }
+
+    test('registers the feeds in COUNCIL_FEEDS_FILE alongside Cheshire East', () => {
+        const filePath: string = writeFeeds([{
+            name: "Sample Borough",
+            postcodeAreas: ["ZZ"],
+            feedUrl: "https://example.gov.uk/bins/{propertyId}.ics",
+            binTypes: { "general waste": "Black" }
+        }]);
+
+        const registry = buildCouncilProviderRegistry(undefined, loadIcsFeedConfigs({ COUNCIL_FEEDS_FILE: filePath }));
+
+        expect(registry.getProviderForAddress(new ShortAddress("1 TEST STREET", "ZZ1 1AA")).name).toBe("Sample Borough");
+        expect(registry.getProviderForAddress(new ShortAddress("1 TEST STREET", "SK11 3AB")).name).toBe("Cheshire East");
+    });
+
+    test('has no feeds without COUNCIL_FEEDS_FILE', () => {
+        expect(loadIcsFeedConfigs({})).toEqual([]);
+    });
+
+    test('rejects a feed missing its URL', () => {
+        const filePath: string = writeFeeds([{ name: "Sample Borough", postcodeAreas: ["ZZ"], binTypes: { "general waste": "Black" } }]);
+
+        expect(() => loadIcsFeedConfigs({ COUNCIL_FEEDS_FILE: filePath })).toThrow("Council feed 0 in " + filePath + " is missing feedUrl");
+    });
+});
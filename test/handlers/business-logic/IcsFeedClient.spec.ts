@@ -0,0 +1,70 @@
+import * as moment from 'moment';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { IcsFeedClient } from '../../../src/handlers/business-logic/IcsFeedClient';
+import { BinCollectionData } from '../../../src/models/BinCollectionData';
+import { ShortAddress } from '../../../src/models/ShortAddress';
+import { AddressNotFoundError } from '../../../src/errors/AddressNotFoundError';
+
+const NOW = moment("19/10/2026", "DD/MM/YYYY");
+
+const fixture = (name: string) => readFileSync(join(__dirname, '../../fixtures/ics', name), 'utf8');
+
+const testSubject = new IcsFeedClient({
+    name: "Sample Borough",
+    postcodeAreas: ["ZZ"],
+    feedUrl: "https://example.gov.uk/bins/{propertyId}.ics",
+    binTypes: {
+        "general waste": "Black",
+        "recycling": "Silver",
+        "garden waste": "Green"
+    }
+});
+
+function collectionsOn(binCollectionData: BinCollectionData[], date: string): string[] {
+    return binCollectionData.filter(item => item.collectionDate === date).map(item => item.binType);
+}
+
+test('maps feed events to bin collections', () => {
+    const result = testSubject.parseIcsResponse(fixture('sample-council.ics'), NOW);
+
+    expect(result[0]).toEqual(new BinCollectionData("Tuesday", "06/10/2026", "Black", "General Waste Collection"));
+    expect(collectionsOn(result, "13/10/2026")).toEqual(["Silver", "Green"]);
+    expect(collectionsOn(result, "20/10/2026")).toEqual(["Black"]);
+});
+
+test('stops garden waste collections at the end of the season', () => {
+    const result = testSubject.parseIcsResponse(fixture('sample-council.ics'), NOW);
+
+    expect(collectionsOn(result, "24/11/2026")).toEqual(["Silver", "Green"]);
+    expect(collectionsOn(result, "08/12/2026")).toEqual(["Silver"]);
+});
+
+test('applies cancelled and moved collections', () => {
+    const result = testSubject.parseIcsResponse(fixture('sample-council.ics'), NOW);
+
+    expect(collectionsOn(result, "22/12/2026")).toEqual([]);
+    expect(collectionsOn(result, "29/12/2026")).toEqual([]);
+    expect(collectionsOn(result, "30/12/2026")).toEqual(["Black"]);
+});
+
+test('keeps events with no bin mapping as unknown collections', () => {
+    const result = testSubject.parseIcsResponse(fixture('sample-council.ics'), NOW);
+
+    expect(collectionsOn(result, "08/01/2027")).toEqual(["Unknown"]);
+    expect(result.filter(item => item.collectionDate === "08/01/2027")[0].councilLabel).toBe("Real Christmas Tree Collection");
+});
+
+test('defaults the property id to the postcode, prefixed with the council', async () => {
+    expect(await testSubject.getPropertyIdFromWebservice(new ShortAddress("1 TEST STREET", "ZZ1 1AA"))).toBe("sample-borough-ZZ11AA");
+});
+
+test('requests the feed by the id without its prefix', async () => {
+    const httpClient = { get: jest.fn().mockResolvedValue("BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n") };
+    const client = new IcsFeedClient({ name: "Sample Borough", postcodeAreas: ["ZZ"], feedUrl: "https://example.gov.uk/bins/{propertyId}.ics",
+        binTypes: { "general waste": "Black" } }, httpClient);
+
+    await expect(client.getBinDataFromWebService("sample-borough-ZZ11AA")).rejects.toBeInstanceOf(AddressNotFoundError);
+
+    expect(httpClient.get).toHaveBeenCalledWith("https://example.gov.uk/bins/ZZ11AA.ics");
+});
@@ -0,0 +1,65 @@
+import * as moment from 'moment';
+import { expandIcsEvents, parseIcs } from '../../../src/handlers/business-logic/IcsParser';
+
+const FROM = moment("01/10/2026", "DD/MM/YYYY");
+const TO = moment("31/12/2026", "DD/MM/YYYY");
+
+function calendar(...eventLines: string[]): string {
+    return ["BEGIN:VCALENDAR", "VERSION:2.0", "BEGIN:VEVENT"]
+        .concat(eventLines)
+        .concat(["END:VEVENT", "END:VCALENDAR"])
+        .join("\r\n");
+}
+
+function expandedDates(ics: string): string[] {
+    return expandIcsEvents(parseIcs(ics), FROM, TO).map(occurrence => occurrence.date.format("YYYY-MM-DD"));
+}
+
+test('parses a single all-day event', () => {
+    const events = parseIcs(calendar("UID:1", "DTSTART;VALUE=DATE:20261020", "SUMMARY:Black bin\\, general waste"));
+
+    expect(events).toHaveLength(1);
+    expect(events[0].summary).toBe("Black bin, general waste");
+    expect(events[0].start.format("YYYY-MM-DD")).toBe("2026-10-20");
+});
+
+test('unfolds long lines', () => {
+    const events = parseIcs(calendar("UID:1", "DTSTART;VALUE=DATE:20261020", "SUMMARY:Mixed Recyc", " ling"));
+
+    expect(events[0].summary).toBe("Mixed Recycling");
+});
+
+test('stops a recurrence after COUNT occurrences', () => {
+    expect(expandedDates(calendar("UID:1", "DTSTART;VALUE=DATE:20261006", "RRULE:FREQ=WEEKLY;INTERVAL=2;COUNT=3")))
+        .toEqual(["2026-10-06", "2026-10-20", "2026-11-03"]);
+});
+
+test('expands several weekdays per week', () => {
+    expect(expandedDates(calendar("UID:1", "DTSTART;VALUE=DATE:20261007", "RRULE:FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20261019")))
+        .toEqual(["2026-10-07", "2026-10-12", "2026-10-14", "2026-10-19"]);
+});
+
+test('removes EXDATEs from a recurrence', () => {
+    expect(expandedDates(calendar("UID:1", "DTSTART:20261201T070000Z", "RRULE:FREQ=WEEKLY", "EXDATE:20261222T070000Z,20261229T070000Z")))
+        .toEqual(["2026-12-01", "2026-12-08", "2026-12-15"]);
+});
+
+test('takes the date of a UTC start time in the feed\'s time zone', () => {
+    // 23:00 UTC is just after midnight the next day in British Summer Time.
+    const events = parseIcs(calendar("UID:1", "DTSTART:20261019T230000Z"));
+
+    expect(events[0].start.format("YYYY-MM-DD")).toBe("2026-10-20");
+    expect(parseIcs(calendar("UID:1", "DTSTART:20261201T230000Z"))[0].start.format("YYYY-MM-DD")).toBe("2026-12-01");
+});
+
+test('converts start times to the time zone the feed names', () => {
+    const ics = calendar("UID:1", "DTSTART;TZID=America/New_York:20261019T210000", "RRULE:FREQ=WEEKLY;COUNT=2",
+        "EXDATE;TZID=America/New_York:20261026T210000").replace("VERSION:2.0", "VERSION:2.0\r\nX-WR-TIMEZONE:Europe/Berlin");
+
+    expect(expandedDates(ics)).toEqual(["2026-10-20"]);
+    expect(parseIcs(calendar("UID:1", "DTSTART;TZID=Europe/London:20261019T230000"))[0].start.format("YYYY-MM-DD")).toBe("2026-10-19");
+});
+
+test('ignores events without a start date', () => {
+    expect(parseIcs(calendar("UID:1", "SUMMARY:Broken"))).toHaveLength(0);
+});
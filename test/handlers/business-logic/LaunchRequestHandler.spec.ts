@@ -1,10 +1,20 @@
-import { mocked } from 'ts-jest/utils'
 import { LaunchRequestHandler } from '../../../src/handlers/LaunchRequestHandler'
+import { inMemoryLookupDependencies } from '../../support/InMemoryLookupDependencies'
 import { HandlerInput } from 'ask-sdk'
+import { RequestEnvelopeBuilder } from '../../support/RequestEnvelopeBuilder'
 
-test('test1', () => {
-    let testsubject = new LaunchRequestHandler()
+function handlerInputFor(builder: RequestEnvelopeBuilder): HandlerInput {
+    return { requestEnvelope: builder.build() } as HandlerInput;
+}
 
+test('handles launch requests', () => {
+    const testSubject = new LaunchRequestHandler(inMemoryLookupDependencies());
 
-})
+    expect(testSubject.canHandle(handlerInputFor(new RequestEnvelopeBuilder("http://127.0.0.1")))).toBe(true);
+});
 
+test('leaves intents to their own handlers', () => {
+    const testSubject = new LaunchRequestHandler(inMemoryLookupDependencies());
+
+    expect(testSubject.canHandle(handlerInputFor(new RequestEnvelopeBuilder("http://127.0.0.1").intent("NextBinOfTypeIntent")))).toBe(false);
+});
@@ -0,0 +1,54 @@
+import { findUtcOffset, isValidTimeZone, localNow, localToday } from '../../../src/handlers/business-logic/LocalDates';
+import { findCollectionDay, findNextCollectionGroup } from '../../../src/handlers/business-logic/BinCollectionFinder';
+import { BinCollectionData } from '../../../src/models/BinCollectionData';
+import { PropertyData } from '../../../src/models/PropertyData';
+import { translatorFor } from '../../../src/i18n/Translator';
+
+const clockAt = (isoTime: string) => () => new Date(isoTime);
+
+test('finds the UTC offset either side of the DST changes', () => {
+    expect(findUtcOffset("Europe/London", new Date("2026-03-29T00:59:59Z"))).toBe(0);
+    expect(findUtcOffset("Europe/London", new Date("2026-03-29T01:00:00Z"))).toBe(60);
+    expect(findUtcOffset("Europe/London", new Date("2026-10-25T00:59:59Z"))).toBe(60);
+    expect(findUtcOffset("Europe/London", new Date("2026-10-25T01:00:00Z"))).toBe(0);
+    expect(findUtcOffset("America/New_York", new Date("2026-01-15T12:00:00Z"))).toBe(-300);
+});
+
+test('reads the wall clock time in the time zone', () => {
+    expect(localNow("Europe/London", clockAt("2026-03-29T01:30:00Z")).format("YYYY-MM-DD HH:mm")).toBe("2026-03-29 02:30");
+    expect(localNow("Europe/London", clockAt("2026-10-25T01:30:00Z")).format("YYYY-MM-DD HH:mm")).toBe("2026-10-25 01:30");
+});
+
+test('moves to the next day at local midnight rather than UTC midnight', () => {
+    expect(localToday("Europe/London", clockAt("2026-06-09T22:59:00Z")).format("DD/MM/YYYY")).toBe("09/06/2026");
+    expect(localToday("Europe/London", clockAt("2026-06-09T23:30:00Z")).format("DD/MM/YYYY")).toBe("10/06/2026");
+    expect(localToday("Europe/London", clockAt("2026-12-09T23:30:00Z")).format("DD/MM/YYYY")).toBe("09/12/2026");
+});
+
+test('says today and tomorrow relative to the local date during BST', () => {
+    const today = localToday("Europe/London", clockAt("2026-06-09T23:30:00Z"));
+    const propertyData = new PropertyData("TEST", "1", [
+        new BinCollectionData("Tuesday", "09/06/2026", "Black"),
+        new BinCollectionData("Wednesday", "10/06/2026", "Silver"),
+        new BinCollectionData("Thursday", "11/06/2026", "Green")
+    ]);
+
+    const nextCollection = findNextCollectionGroup(propertyData, today);
+
+    expect(nextCollection.binTypes[0].id).toBe("Silver");
+    expect(findCollectionDay(nextCollection, today, translatorFor("en-GB"))).toBe("Today");
+    expect(findCollectionDay(propertyData.binCollectionData[2], today, translatorFor("en-GB"))).toBe("Tomorrow");
+});
+
+test('counts tomorrow across the clocks going back', () => {
+    const today = localToday("Europe/London", clockAt("2026-10-24T23:30:00Z"));
+
+    expect(today.format("DD/MM/YYYY")).toBe("25/10/2026");
+    expect(findCollectionDay(new BinCollectionData("Monday", "26/10/2026", "Black"), today, translatorFor("en-GB"))).toBe("Tomorrow");
+});
+
+test('recognises time zone names', () => {
+    expect(isValidTimeZone("Europe/London")).toBe(true);
+    expect(isValidTimeZone("Not/AZone")).toBe(false);
+    expect(isValidTimeZone(undefined)).toBe(false);
+});
@@ -0,0 +1,117 @@
+import { BinCollectionData } from '../../../src/models/BinCollectionData';
+import { PropertyData } from '../../../src/models/PropertyData';
+import { FakeHttpServer } from '../../support/FakeHttpServer';
+import { addCheshireEastRoutes, CHESHIRE_EAST_PATH } from '../../support/FakeCheshireEast';
+import { CheshireEastClient } from '../../../src/handlers/business-logic/CheshireEastClient';
+import { CouncilProviderRegistry } from '../../../src/handlers/business-logic/CouncilProviderRegistry';
+import { DEFAULT_CACHE_POLICY } from '../../../src/handlers/business-logic/CachePolicy';
+import { loadPreRefreshPolicy, preRefreshProperties, PreRefreshSummary } from '../../../src/handlers/business-logic/PreRefresh';
+import { InMemoryPropertyRepository } from '../../../src/handlers/dao/InMemoryPropertyRepository';
+
+const NOW: Date = new Date("2026-10-19T09:00:00Z");
+
+const clock = () => NOW;
+
+function storedData(key: string, propertyId: string, binCollectionData: BinCollectionData[], fetchedAt: string): PropertyData {
+    const propertyData = new PropertyData(key, propertyId, binCollectionData);
+    propertyData.fetchedAt = fetchedAt;
+    return propertyData;
+}
+
+function weeklyCollections(collectionDates: string[]): BinCollectionData[] {
+    return collectionDates.map(date => new BinCollectionData("Tuesday", date, "Black", "Empty Standard General Waste"));
+}
+
+describe('refreshing stored properties before they go stale', () => {
+    const server = addCheshireEastRoutes(new FakeHttpServer());
+    let client: CheshireEastClient;
+    let registry: CouncilProviderRegistry;
+
+    beforeAll(async () => {
+        client = new CheshireEastClient(undefined, (await server.start()) + CHESHIRE_EAST_PATH);
+        registry = new CouncilProviderRegistry().register(client);
+    });
+
+    afterAll(() => server.stop());
+
+    test('refreshes properties going stale within the look-ahead, reporting how each went', async () => {
+        const repository = new InMemoryPropertyRepository(DEFAULT_CACHE_POLICY);
+        const councilData: BinCollectionData[] = await client.getBinDataFromWebService("100010123456");
+        const laterCollections: BinCollectionData[] = weeklyCollections(["20/10/2026", "27/10/2026", "03/11/2026", "10/11/2026"]);
+
+        // Fresh now, stale in six hours, and the council still has the same collections.
+        await repository.putPropertyDataInDatabase(storedData("1%20ACACIA%20AVENUE:SK11 3AB", "100010123456",
+            councilData, "2026-10-18T12:00:00.000Z"));
+        // Stale, and the council has moved on.
+        await repository.putPropertyDataInDatabase(storedData("12%20ACACIA%20AVENUE:SK11 7XX", "100010000001",
+            weeklyCollections(["20/10/2026", "27/10/2026"]), "2026-10-17T09:00:00.000Z"));
+        // The council's page can't be read.
+        await repository.putPropertyDataInDatabase(storedData("3%20ACACIA%20AVENUE:SK11 3AB", "100010888888",
+            laterCollections, "2026-10-17T09:00:00.000Z"));
+        // No council covers the postcode.
+        await repository.putPropertyDataInDatabase(storedData("4%20HIGH%20STREET:ZZ1 1AA", "100010444444",
+            laterCollections, "2026-10-17T09:00:00.000Z"));
+        // Fresh for longer than the look-ahead.
+        await repository.putPropertyDataInDatabase(storedData("FLAT%202%2C%2012%20ACACIA%20AVENUE:SK11 7XX", "100010000002",
+            laterCollections, "2026-10-19T08:00:00.000Z"));
+        // Expired: left for the next lookup.
+        await repository.putPropertyDataInDatabase(storedData("5%20ACACIA%20AVENUE:SK11 3AB", "100010999999",
+            weeklyCollections(["13/10/2026"]), "2026-10-12T09:00:00.000Z"));
+        const requestCount: number = server.requests.length;
+
+        const summary: PreRefreshSummary = await preRefreshProperties(repository, registry, DEFAULT_CACHE_POLICY,
+            loadPreRefreshPolicy({}), clock);
+
+        expect(summary).toEqual({ scanned: 6, due: 4, deferred: 0, refreshed: 1, unchanged: 1, failed: 1, formatChanged: 1 });
+        expect(server.requests.slice(requestCount).sort()).toEqual([
+            CHESHIRE_EAST_PATH + "/SearchByAjax/GetBartecJobList?uprn=100010000001",
+            CHESHIRE_EAST_PATH + "/SearchByAjax/GetBartecJobList?uprn=100010123456",
+            CHESHIRE_EAST_PATH + "/SearchByAjax/GetBartecJobList?uprn=100010888888"
+        ]);
+
+        const refreshed: PropertyData = await repository.getPropertyDataFromDatabase("12%20ACACIA%20AVENUE", "SK11 7XX", true);
+        expect(refreshed.fetchedAt).toBe(NOW.toISOString());
+        expect(refreshed.binCollectionData).toHaveLength(9);
+        expect(refreshed.changedAt).toBe(NOW.toISOString());
+
+        const unchanged: PropertyData = await repository.getPropertyDataFromDatabase("1%20ACACIA%20AVENUE", "SK11 3AB", true);
+        expect(unchanged.fetchedAt).toBe(NOW.toISOString());
+        expect(unchanged.changedAt).toBeNull();
+
+        const unreadable: PropertyData = await repository.getPropertyDataFromDatabase("3%20ACACIA%20AVENUE", "SK11 3AB", true);
+        expect(unreadable.fetchedAt).toBe("2026-10-17T09:00:00.000Z");
+    });
+
+    test('refreshes the oldest fetches first within the budget, deferring the rest', async () => {
+        const repository = new InMemoryPropertyRepository(DEFAULT_CACHE_POLICY);
+        await repository.putPropertyDataInDatabase(storedData("12%20ACACIA%20AVENUE:SK11 7XX", "100010000001",
+            weeklyCollections(["20/10/2026"]), "2026-10-18T09:00:00.000Z"));
+        await repository.putPropertyDataInDatabase(storedData("FLAT%202%2C%2012%20ACACIA%20AVENUE:SK11 7XX", "100010000002",
+            weeklyCollections(["20/10/2026"]), "2026-10-17T09:00:00.000Z"));
+
+        const summary: PreRefreshSummary = await preRefreshProperties(repository, registry, DEFAULT_CACHE_POLICY,
+            loadPreRefreshPolicy({ PRE_REFRESH_MAX_PROPERTIES: "1", PRE_REFRESH_CONCURRENCY: "0" }), clock);
+
+        expect(summary).toMatchObject({ due: 2, deferred: 1, refreshed: 1 });
+        expect((await repository.getPropertyDataByPropertyId("FLAT%202%2C%2012%20ACACIA%20AVENUE:SK11 7XX", "100010000002", true)).fetchedAt)
+            .toBe(NOW.toISOString());
+        expect((await repository.getPropertyDataByPropertyId("12%20ACACIA%20AVENUE:SK11 7XX", "100010000001", true)).fetchedAt)
+            .toBe("2026-10-18T09:00:00.000Z");
+    });
+
+    test('stops starting refreshes when the run is running out of time, deferring the rest', async () => {
+        const repository = new InMemoryPropertyRepository(DEFAULT_CACHE_POLICY);
+        await repository.putPropertyDataInDatabase(storedData("12%20ACACIA%20AVENUE:SK11 7XX", "100010000001",
+            weeklyCollections(["20/10/2026"]), "2026-10-18T09:00:00.000Z"));
+        await repository.putPropertyDataInDatabase(storedData("FLAT%202%2C%2012%20ACACIA%20AVENUE:SK11 7XX", "100010000002",
+            weeklyCollections(["20/10/2026"]), "2026-10-17T09:00:00.000Z"));
+        const remainingTimes: number[] = [60000, 9000];
+
+        const summary: PreRefreshSummary = await preRefreshProperties(repository, registry, DEFAULT_CACHE_POLICY,
+            loadPreRefreshPolicy({ PRE_REFRESH_CONCURRENCY: "1" }), clock, () => remainingTimes.shift());
+
+        expect(summary).toMatchObject({ due: 2, deferred: 1, refreshed: 1 });
+        expect((await repository.getPropertyDataByPropertyId("12%20ACACIA%20AVENUE:SK11 7XX", "100010000001", true)).fetchedAt)
+            .toBe("2026-10-18T09:00:00.000Z");
+    });
+});
@@ -0,0 +1,26 @@
+import { PropertyData } from '../../../src/models/PropertyData';
+import { refreshInBackground, settleBackgroundRefreshes } from '../../../src/handlers/business-logic/PropertyDataCache';
+
+function refreshAfter(delayMs: number, finished: string[]): () => Promise<PropertyData> {
+    return () => new Promise(resolve => setTimeout(() => {
+        finished.push("1%20ACACIA%20AVENUE:SK11 3AB");
+        resolve(new PropertyData("1%20ACACIA%20AVENUE:SK11 3AB", "100010123456", []));
+    }, delayMs));
+}
+
+test('waits for background refreshes that finish within the time allowed', async () => {
+    const finished: string[] = [];
+    refreshInBackground("1%20ACACIA%20AVENUE:SK11 3AB", refreshAfter(10, finished));
+
+    expect(await settleBackgroundRefreshes(1000)).toBe(true);
+    expect(finished).toEqual(["1%20ACACIA%20AVENUE:SK11 3AB"]);
+});
+
+test('stops waiting for background refreshes still running when the time allowed runs out', async () => {
+    const finished: string[] = [];
+    refreshInBackground("1%20ACACIA%20AVENUE:SK11 3AB", refreshAfter(200, finished));
+
+    expect(await settleBackgroundRefreshes(10)).toBe(false);
+    expect(finished).toEqual([]);
+    await settleBackgroundRefreshes();
+});
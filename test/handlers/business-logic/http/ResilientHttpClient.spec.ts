@@ -0,0 +1,127 @@
+import { HttpResponse, HttpStatusError, HttpTransport } from '../../../../src/handlers/business-logic/http/HttpClient';
+import { CircuitBreaker, CircuitOpenError } from '../../../../src/handlers/business-logic/http/CircuitBreaker';
+import { DEFAULT_HTTP_OPTIONS, ResilientHttpClient } from '../../../../src/handlers/business-logic/http/ResilientHttpClient';
+
+const URI = "https://council.example.gov.uk/bins?uprn=1";
+
+class FakeClock {
+    time = 0;
+    now = () => this.time;
+    sleep = async (ms: number) => { this.time += ms; };
+}
+
+function fakeTransport(...results: Array<HttpResponse | Error>): HttpTransport & { get: jest.Mock } {
+    const get = jest.fn();
+    for (const result of results) {
+        if (result instanceof Error) {
+            get.mockRejectedValueOnce(result);
+        } else {
+            get.mockResolvedValueOnce(result);
+        }
+    }
+    return { get };
+}
+
+function buildClient(transport: HttpTransport, clock: FakeClock, circuitBreaker = new CircuitBreaker(3, 60000, clock.now)) {
+    return new ResilientHttpClient(transport, circuitBreaker, DEFAULT_HTTP_OPTIONS, clock.now, clock.sleep);
+}
+
+test('returns the body of a successful response with a timeout', async () => {
+    const transport = fakeTransport(new HttpResponse(200, "<html/>"));
+
+    expect(await buildClient(transport, new FakeClock()).get(URI)).toBe("<html/>");
+    expect(transport.get).toHaveBeenCalledWith(URI, DEFAULT_HTTP_OPTIONS.timeoutMs);
+});
+
+test('retries a network error', async () => {
+    const clock = new FakeClock();
+    const transport = fakeTransport(new Error("ESOCKETTIMEDOUT"), new HttpResponse(200, "ok"));
+
+    expect(await buildClient(transport, clock).get(URI)).toBe("ok");
+    expect(transport.get).toHaveBeenCalledTimes(2);
+    expect(clock.time).toBe(DEFAULT_HTTP_OPTIONS.backoffMs);
+});
+
+test('retries server errors but not client errors', async () => {
+    const serverErrorTransport = fakeTransport(new HttpResponse(503, ""), new HttpResponse(200, "ok"));
+    expect(await buildClient(serverErrorTransport, new FakeClock()).get(URI)).toBe("ok");
+
+    const clientErrorTransport = fakeTransport(new HttpResponse(404, ""));
+    await expect(buildClient(clientErrorTransport, new FakeClock()).get(URI)).rejects.toBeInstanceOf(HttpStatusError);
+    expect(clientErrorTransport.get).toHaveBeenCalledTimes(1);
+});
+
+test('gives up after the maximum attempts', async () => {
+    const transport = fakeTransport(new Error("ECONNRESET"), new Error("ECONNRESET"), new HttpResponse(200, "too late"));
+
+    await expect(buildClient(transport, new FakeClock()).get(URI)).rejects.toThrow("ECONNRESET");
+    expect(transport.get).toHaveBeenCalledTimes(DEFAULT_HTTP_OPTIONS.maxAttempts);
+});
+
+test('does not retry when the attempt would overrun the budget', async () => {
+    const clock = new FakeClock();
+    const transport: HttpTransport & { get: jest.Mock } = {
+        get: jest.fn().mockImplementation(async () => {
+            clock.time += 4000;
+            throw new Error("ETIMEDOUT");
+        })
+    };
+
+    await expect(buildClient(transport, clock).get(URI)).rejects.toThrow("ETIMEDOUT");
+    expect(transport.get).toHaveBeenCalledTimes(1);
+});
+
+test('keeps the two gets of a lookup inside Alexa\'s response limit, however slowly they fail', async () => {
+    const clock = new FakeClock();
+    const slowFailure = async (uri: string, timeoutMs: number): Promise<HttpResponse> => {
+        clock.time += timeoutMs;
+        throw new Error("ETIMEDOUT");
+    };
+    const quickServerError = async (): Promise<HttpResponse> => {
+        clock.time += 1000;
+        return new HttpResponse(503, "");
+    };
+    const transport: HttpTransport & { get: jest.Mock } = { get: jest.fn().mockImplementation(slowFailure) };
+    transport.get.mockImplementationOnce(quickServerError);
+    const client = buildClient(transport, clock);
+
+    await expect(client.get(URI)).rejects.toThrow("ETIMEDOUT");
+    await expect(client.get(URI)).rejects.toThrow("ETIMEDOUT");
+
+    expect(transport.get).toHaveBeenCalledTimes(3);
+    expect(clock.time).toBeLessThan(8000);
+});
+
+test('keeps the circuit closed however many client errors the site answers with', async () => {
+    const clock = new FakeClock();
+    const circuitBreaker = new CircuitBreaker(2, 60000, clock.now);
+    const transport = fakeTransport(new HttpResponse(404, "not found"), new HttpResponse(404, "not found"),
+        new HttpResponse(404, "not found"), new HttpResponse(200, "ok"));
+    const client = buildClient(transport, clock, circuitBreaker);
+
+    for (let i = 0; i < 3; i++) {
+        await expect(client.get(URI)).rejects.toBeInstanceOf(HttpStatusError);
+    }
+
+    expect(circuitBreaker.isOpen("council.example.gov.uk")).toBe(false);
+    expect(await client.get(URI)).toBe("ok");
+});
+
+test('fails fast once the circuit is open and recovers after the reset timeout', async () => {
+    const clock = new FakeClock();
+    const circuitBreaker = new CircuitBreaker(2, 60000, clock.now);
+    const transport: HttpTransport & { get: jest.Mock } = { get: jest.fn().mockRejectedValue(new Error("ECONNREFUSED")) };
+    const client = buildClient(transport, clock, circuitBreaker);
+
+    await expect(client.get(URI)).rejects.toThrow("ECONNREFUSED");
+    await expect(client.get(URI)).rejects.toThrow("ECONNREFUSED");
+    transport.get.mockClear();
+
+    await expect(client.get(URI)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(transport.get).not.toHaveBeenCalled();
+
+    clock.time += 60000;
+    transport.get.mockResolvedValue(new HttpResponse(200, "back"));
+    expect(await client.get(URI)).toBe("back");
+    expect(circuitBreaker.isOpen("council.example.gov.uk")).toBe(false);
+});
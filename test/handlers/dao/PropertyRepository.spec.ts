@@ -0,0 +1,183 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonFilePropertyRepository } from '../../../src/handlers/dao/JsonFilePropertyRepository';
+import { AddressItems, InMemoryPropertyRepository } from '../../../src/handlers/dao/InMemoryPropertyRepository';
+import { DynamoDBDao } from '../../../src/handlers/dao/DynamoDBDao';
+import { buildPropertyRepository } from '../../../src/handlers/dao/PropertyRepositoryFactory';
+import { DEFAULT_CACHE_POLICY } from '../../../src/handlers/business-logic/CachePolicy';
+import { StorageError } from '../../../src/errors/StorageError';
+import { StoredProperty } from '../../../src/handlers/dao/PropertyRepository';
+import { BinCollectionData } from '../../../src/models/BinCollectionData';
+import { PropertyData } from '../../../src/models/PropertyData';
+
+const KEY = "1%20ACACIA%20AVENUE:SK11 3AB";
+
+let directory: string;
+
+function councilData(collectionDates: string[], fetchedAt: string): PropertyData {
+    const propertyData = new PropertyData(KEY, "100010123456", collectionDates.map(date => new BinCollectionData("Tuesday", date, "Black")));
+    propertyData.fetchedAt = fetchedAt;
+    return propertyData;
+}
+
+beforeAll(() => {
+    jest.useFakeTimers({
+        now: new Date("2026-10-19T09:00:00Z"),
+        doNotFake: ["nextTick", "setImmediate", "clearImmediate", "setTimeout", "clearTimeout",
+            "setInterval", "clearInterval", "queueMicrotask", "hrtime", "performance"]
+    });
+});
+
+beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "bin-data-"));
+});
+
+afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+});
+
+afterAll(() => {
+    jest.useRealTimers();
+});
+
+test('keeps bin data in a JSON file between instances, without predictions', async () => {
+    const filePath: string = path.join(directory, "bin-data.json");
+    const propertyData = councilData(["20/10/2026", "27/10/2026", "03/11/2026", "10/11/2026"], "2026-10-19T08:00:00.000Z");
+    propertyData.binCollectionData.push(Object.assign(new BinCollectionData("Tuesday", "17/11/2026", "Black"), { predicted: true }));
+
+    expect(await new JsonFilePropertyRepository(filePath, DEFAULT_CACHE_POLICY).getPropertyDataFromDatabase("1%20ACACIA%20AVENUE", "SK11 3AB"))
+        .toBeNull();
+
+    await new JsonFilePropertyRepository(filePath, DEFAULT_CACHE_POLICY).putPropertyDataInDatabase(propertyData);
+
+    const stored: PropertyData = await new JsonFilePropertyRepository(filePath, DEFAULT_CACHE_POLICY)
+        .getPropertyDataFromDatabase("1%20ACACIA%20AVENUE", "SK11 3AB");
+    expect(stored.propertyId).toBe("100010123456");
+    expect(stored.fetchedAt).toBe("2026-10-19T08:00:00.000Z");
+    expect(stored.binCollectionData.map(item => item.collectionDate)).toEqual(["20/10/2026", "27/10/2026", "03/11/2026", "10/11/2026"]);
+
+    const file = JSON.parse(fs.readFileSync(filePath, "utf8"));
+    expect(file.addresses[KEY]).toMatchObject({ schemaVersion: 2, uprn: "100010123456" });
+    expect(file.schedules["100010123456"]).toMatchObject({
+        schemaVersion: 2,
+        fetchedAt: "2026-10-19T08:00:00.000Z",
+        expiresAt: Date.parse("2027-01-17T08:00:00Z") / 1000
+    });
+    expect(file.schedules["100010123456"].collections[0]).toEqual({ date: "2026-10-20", binType: "Black", councilLabel: null });
+});
+
+test('upgrades a legacy item when it is read', async () => {
+    const filePath: string = path.join(directory, "bin-data.json");
+    fs.writeFileSync(filePath, JSON.stringify({
+        [KEY]: { propertyId: "100010123456", binCollectionData: JSON.stringify(councilData(["20/10/2026"], null).binCollectionData) }
+    }));
+
+    const stored: PropertyData = await new JsonFilePropertyRepository(filePath, DEFAULT_CACHE_POLICY)
+        .getPropertyDataFromDatabase("1%20ACACIA%20AVENUE", "SK11 3AB", true);
+
+    expect(stored.binCollectionData).toEqual([new BinCollectionData("Tuesday", "20/10/2026", "Black")]);
+    const file = JSON.parse(fs.readFileSync(filePath, "utf8"));
+    expect(file.addresses[KEY]).toMatchObject({ schemaVersion: 2, uprn: "100010123456" });
+    expect(file.schedules["100010123456"]).toMatchObject({ fetchedAt: null, collections: [{ date: "2026-10-20", binType: "Black", councilLabel: null }] });
+});
+
+test('shares one schedule between spellings of an address', async () => {
+    const repository = new InMemoryPropertyRepository(DEFAULT_CACHE_POLICY);
+    await repository.putPropertyDataInDatabase(councilData(["20/10/2026", "27/10/2026", "03/11/2026", "10/11/2026"], "2026-10-19T08:00:00.000Z"));
+
+    expect(await repository.getPropertyDataFromDatabase("1%2C%20ACACIA%20AVE", "SK11 3AB")).toBeNull();
+    expect((await repository.getPropertyDataByPropertyId("1%2C%20ACACIA%20AVE:SK11 3AB", "100010123456")).binCollectionData).toHaveLength(4);
+
+    await repository.linkAddressToProperty("1%2C%20ACACIA%20AVE:SK11 3AB", "100010123456");
+    await repository.putPropertyDataInDatabase(councilData(["27/10/2026", "03/11/2026", "10/11/2026", "17/11/2026"], "2026-10-19T09:00:00.000Z"));
+
+    expect((await repository.getPropertyDataFromDatabase("1%2C%20ACACIA%20AVE", "SK11 3AB")).binCollectionData[0].collectionDate).toBe("27/10/2026");
+});
+
+test('migrates every legacy item in a batch, keeping newer schedules', async () => {
+    const legacyData: string = JSON.stringify(councilData(["13/10/2026", "20/10/2026"], null).binCollectionData);
+    const addresses = {
+        "1%20ACACIA%20AVENUE": { propertyId: "100010123456", binCollectionData: legacyData },
+        [KEY]: { propertyId: "100010123456", binCollectionData: legacyData, fetchedAt: "2026-10-01T09:00:00.000Z" },
+        "2%20ACACIA%20AVENUE:SK11 3AB": { binCollectionData: legacyData },
+        "3%20ACACIA%20AVENUE:SK11 3AB": { schemaVersion: 2, uprn: "100010000003", expiresAt: 1800000000 }
+    };
+    const schedules = {
+        "100010123456": { uprn: "100010123456", schemaVersion: 2, fetchedAt: "2026-10-18T09:00:00.000Z", expiresAt: 1800000000, collections: [] }
+    };
+    const repository = new InMemoryPropertyRepository(DEFAULT_CACHE_POLICY, addresses as any, schedules);
+
+    expect(await repository.migrateLegacyItems()).toEqual({ scanned: 4, upgraded: 2, current: 1, unusable: 1, failed: 0 });
+
+    expect(Object.keys(addresses)).not.toContain("1%20ACACIA%20AVENUE");
+    expect(addresses[KEY]).toMatchObject({ schemaVersion: 2, uprn: "100010123456" });
+    expect(schedules["100010123456"].fetchedAt).toBe("2026-10-18T09:00:00.000Z");
+    expect(await repository.migrateLegacyItems()).toEqual({ scanned: 3, upgraded: 0, current: 2, unusable: 1, failed: 0 });
+});
+
+test('only returns stale data when allowed to, like the database', async () => {
+    const repositories = [
+        new InMemoryPropertyRepository(DEFAULT_CACHE_POLICY),
+        new JsonFilePropertyRepository(path.join(directory, "bin-data.json"), DEFAULT_CACHE_POLICY)
+    ];
+
+    for (const repository of repositories) {
+        await repository.putPropertyDataInDatabase(councilData(["20/10/2026"], "2026-10-19T08:00:00.000Z"));
+
+        expect(await repository.getPropertyDataFromDatabase("1%20ACACIA%20AVENUE", "SK11 3AB")).toBeNull();
+        expect(await repository.getPropertyDataFromDatabase("1%20ACACIA%20AVENUE", "SK11 3AB", true)).not.toBeNull();
+    }
+});
+
+test('keeps a requested schedule and its address for ttlDays from the request, like the database', async () => {
+    const repositories = [
+        new InMemoryPropertyRepository(DEFAULT_CACHE_POLICY),
+        new JsonFilePropertyRepository(path.join(directory, "bin-data.json"), DEFAULT_CACHE_POLICY)
+    ];
+    const expiresAt: number = Date.parse("2027-01-17T09:00:00Z") / 1000;
+
+    for (const repository of repositories) {
+        await repository.putPropertyDataInDatabase(councilData(["20/10/2026"], "2026-08-01T09:00:00.000Z"));
+
+        await repository.recordRequest("100010123456", KEY);
+        await repository.recordRequest("100010999999", KEY);
+
+        const stored: StoredProperty[] = await repository.listStoredProperties();
+        expect(stored).toHaveLength(1);
+        expect(stored[0].expiresAt).toBe(expiresAt);
+        expect(stored[0].propertyData).toMatchObject({ fetchedAt: "2026-08-01T09:00:00.000Z", requestedAt: "2026-10-19T09:00:00.000Z" });
+        expect(stored[0].propertyData.binCollectionData).toHaveLength(1);
+    }
+
+    const file = JSON.parse(fs.readFileSync(path.join(directory, "bin-data.json"), "utf8"));
+    expect(file.schedules["100010999999"]).toBeUndefined();
+});
+
+test('extends the expiry of the address a request came through, leaving it alone for a chosen property', async () => {
+    const addresses: AddressItems = {
+        [KEY]: { addressLine1: KEY, schemaVersion: 2, uprn: "100010123456", expiresAt: 1761000000 },
+        "1%2C%20ACACIA%20AVE:SK11 3AB": { addressLine1: "1%2C%20ACACIA%20AVE:SK11 3AB", schemaVersion: 2, uprn: "100010123456", expiresAt: 1761000000 }
+    };
+    const repository = new InMemoryPropertyRepository(DEFAULT_CACHE_POLICY, addresses);
+    await repository.putScheduleInDatabase(councilData(["20/10/2026"], "2026-08-01T09:00:00.000Z"), null);
+
+    await repository.recordRequest("100010123456", KEY);
+    await repository.recordRequest("100010123456", null);
+
+    expect(addresses[KEY].expiresAt).toBe(Date.parse("2027-01-17T09:00:00Z") / 1000);
+    expect(addresses["1%2C%20ACACIA%20AVE:SK11 3AB"].expiresAt).toBe(1761000000);
+});
+
+test('reports an unreadable file as a storage error', async () => {
+    const filePath: string = path.join(directory, "bin-data.json");
+    fs.writeFileSync(filePath, "{ not json");
+
+    await expect(new JsonFilePropertyRepository(filePath, DEFAULT_CACHE_POLICY).getPropertyDataFromDatabase("1%20ACACIA%20AVENUE", "SK11 3AB"))
+        .rejects.toBeInstanceOf(StorageError);
+});
+
+test('uses the JSON file named in the environment, otherwise the DynamoDB table', () => {
+    expect(buildPropertyRepository({ PROPERTY_DATA_FILE: path.join(directory, "bin-data.json") })).toBeInstanceOf(JsonFilePropertyRepository);
+    expect(buildPropertyRepository({ DYNAMODB_TABLE: "bin-data" })).toBeInstanceOf(DynamoDBDao);
+});
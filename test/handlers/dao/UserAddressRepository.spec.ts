@@ -0,0 +1,57 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonFileUserAddressRepository } from '../../../src/handlers/dao/JsonFileUserAddressRepository';
+import { InMemoryUserAddressRepository } from '../../../src/handlers/dao/InMemoryUserAddressRepository';
+import { UserAddressDao } from '../../../src/handlers/dao/UserAddressDao';
+import { UserAddressRepository } from '../../../src/handlers/dao/UserAddressRepository';
+import { buildUserAddressRepository } from '../../../src/handlers/dao/UserAddressRepositoryFactory';
+import { StorageError } from '../../../src/errors/StorageError';
+import { UserAddress } from '../../../src/models/UserAddress';
+
+const USER_ID = "amzn1.ask.account.TEST";
+
+let directory: string;
+
+beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "user-addresses-"));
+});
+
+afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+});
+
+test('stores, finds and forgets a user address in memory and in a JSON file', async () => {
+    const filePath: string = path.join(directory, "user-addresses.json");
+    const repositories: UserAddressRepository[] = [
+        new InMemoryUserAddressRepository(),
+        new JsonFileUserAddressRepository(filePath)
+    ];
+
+    for (const repository of repositories) {
+        expect(await repository.getUserAddress(USER_ID)).toBeNull();
+
+        await repository.putUserAddress(new UserAddress(USER_ID, "1 ACACIA AVENUE", "SK11 3AB", "100010123456"));
+        expect(await repository.getUserAddress(USER_ID)).toEqual(new UserAddress(USER_ID, "1 ACACIA AVENUE", "SK11 3AB", "100010123456"));
+
+        await repository.deleteUserAddress(USER_ID);
+        expect(await repository.getUserAddress(USER_ID)).toBeNull();
+    }
+
+    expect(JSON.parse(fs.readFileSync(filePath, "utf8"))).toEqual({});
+});
+
+test('reports an unreadable file as a storage error', async () => {
+    const filePath: string = path.join(directory, "user-addresses.json");
+    fs.writeFileSync(filePath, "{ not json");
+
+    await expect(new JsonFileUserAddressRepository(filePath).getUserAddress(USER_ID)).rejects.toBeInstanceOf(StorageError);
+});
+
+test('uses the JSON file named in the environment, memory when only bin data is local, otherwise the DynamoDB table', () => {
+    expect(buildUserAddressRepository({ USER_ADDRESS_DATA_FILE: path.join(directory, "user-addresses.json") }))
+        .toBeInstanceOf(JsonFileUserAddressRepository);
+    expect(buildUserAddressRepository({ PROPERTY_DATA_FILE: path.join(directory, "bin-data.json") }))
+        .toBeInstanceOf(InMemoryUserAddressRepository);
+    expect(buildUserAddressRepository({ USER_ADDRESS_TABLE: "user-addresses" })).toBeInstanceOf(UserAddressDao);
+});
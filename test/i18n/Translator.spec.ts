@@ -0,0 +1,62 @@
+import * as moment from 'moment';
+import { translatorFor } from '../../src/i18n/Translator';
+import { englishOrdinal, EN_GB } from '../../src/i18n/resources/en-GB';
+import { EN_US } from '../../src/i18n/resources/en-US';
+import { EN_IN } from '../../src/i18n/resources/en-IN';
+import { findBinType, resolveBinType } from '../../src/handlers/business-logic/BinTypeCatalogue';
+import { BinCollectionData } from '../../src/models/BinCollectionData';
+
+const TUESDAY = moment.utc("2026-10-20T19:05:00");
+
+test('every locale has all the messages', () => {
+    for (const bundle of [EN_US, EN_IN]) {
+        expect(Object.keys(bundle.messages).sort()).toEqual(Object.keys(EN_GB.messages).sort());
+    }
+});
+
+test('falls back to another bundle in the same language and then to British English', () => {
+    expect(translatorFor("en-AU").locale).toBe("en-AU");
+    expect(translatorFor("en-AU").t("collection.today")).toBe("Today");
+    expect(translatorFor("cy-GB").t("collection.tomorrow")).toBe("Tomorrow");
+    expect(translatorFor(undefined).locale).toBe("en-GB");
+});
+
+test('fills in placeholders', () => {
+    expect(translatorFor("en-GB").t("errors.councilUnreachable", { council: "Cheshire East" }))
+        .toBe("Sorry, I couldn't reach the Cheshire East website just now. Please try again in a little while.");
+});
+
+test('picks the plural form for the count', () => {
+    const translator = translatorFor("en-GB");
+
+    expect(translator.plural("reminders.cancelled", 1)).toBe("OK, I've cancelled your 1 bin reminder.");
+    expect(translator.plural("reminders.cancelled", 3)).toBe("OK, I've cancelled your 3 bin reminders.");
+});
+
+test('describes bins with the locale list style', () => {
+    const bins = [findBinType("Silver"), findBinType("Green"), findBinType("Bulky")];
+
+    expect(translatorFor("en-GB").describeBins(bins)).toBe("Silver, Green and Bulky Waste bins");
+    expect(translatorFor("en-US").describeBins(bins)).toBe("Silver, Green, and Bulky Waste bins");
+    expect(translatorFor("en-GB").describeBins([findBinType("Black")])).toBe("Black bin");
+});
+
+test('names unrecognised bins by the council label', () => {
+    const textiles = resolveBinType(new BinCollectionData("Tuesday", "20/10/2026", "Unknown", "Textiles"));
+
+    expect(translatorFor("en-GB").binName(textiles)).toBe("Textiles");
+});
+
+test('formats dates in each locale', () => {
+    expect(translatorFor("en-GB").formatDate(TUESDAY, "fullDate")).toBe("Tuesday 20th October");
+    expect(translatorFor("en-US").formatDate(TUESDAY, "fullDate")).toBe("Tuesday, October 20th");
+    expect(translatorFor("en-IN").formatDate(TUESDAY, "fullDate")).toBe("Tuesday, 20 October");
+    expect(translatorFor("en-GB").formatDate(TUESDAY, "dateTime")).toBe("Tuesday the 20th at 7:05 PM");
+    expect(translatorFor("en-IN").formatDate(TUESDAY, "time")).toBe("7:05 pm");
+    expect(translatorFor("en-GB").formatDate(moment.utc("2026-10-20T00:30:00"), "time")).toBe("12:30 AM");
+});
+
+test('speaks English ordinals', () => {
+    expect([1, 2, 3, 4, 11, 12, 13, 21, 22, 23, 31].map(englishOrdinal))
+        .toEqual(["1st", "2nd", "3rd", "4th", "11th", "12th", "13th", "21st", "22nd", "23rd", "31st"]);
+});
@@ -0,0 +1,423 @@
+import { interfaces, RequestEnvelope, ResponseEnvelope } from "ask-sdk-model";
+import { FakeHttpServer } from './support/FakeHttpServer';
+import { addCheshireEastRoutes, CHESHIRE_EAST_PATH, POSTCODES } from './support/FakeCheshireEast';
+import { addDeviceAddress, addDeviceTimeZone, addReminders } from './support/FakeAlexaApi';
+import { DEVICE_ID, RequestEnvelopeBuilder, USER_ID } from './support/RequestEnvelopeBuilder';
+import { InMemoryDao } from './support/InMemoryDao';
+import { clearPropertyDataCache, getCacheEventCounts, settleBackgroundRefreshes } from '../src/handlers/business-logic/PropertyDataCache';
+import { InMemoryUserAddressDao } from './support/InMemoryUserAddressDao';
+import { inMemoryLookupDependencies } from './support/InMemoryLookupDependencies';
+
+const server = new FakeHttpServer();
+let baseUrl: string;
+let handler: (event: RequestEnvelope, context: any, callback: (err: Error, result?: ResponseEnvelope) => void) => void;
+
+function invoke(envelope: RequestEnvelope): Promise<ResponseEnvelope> {
+    return new Promise((resolve, reject) => handler(envelope, {}, (err, result) => err ? reject(err) : resolve(result)));
+}
+
+function speechOf(responseEnvelope: ResponseEnvelope): string {
+    return (responseEnvelope.response.outputSpeech as { ssml: string }).ssml
+        .replace("<speak>", "").replace("</speak>", "");
+}
+
+function deviceAt(postalCode: string, addressLine1: string = "1 ACACIA AVENUE") {
+    addDeviceAddress(server, DEVICE_ID, { addressLine1, postalCode, countryCode: "GB" });
+}
+
+beforeAll(async () => {
+    jest.useFakeTimers({
+        now: new Date("2026-10-19T09:00:00Z"),
+        doNotFake: ["nextTick", "setImmediate", "clearImmediate", "setTimeout", "clearTimeout",
+            "setInterval", "clearInterval", "queueMicrotask", "hrtime", "performance"]
+    });
+
+    baseUrl = await addCheshireEastRoutes(server).start();
+    process.env.CHESHIRE_EAST_BASE_URL = baseUrl + CHESHIRE_EAST_PATH;
+    handler = require('../src/index').buildSkillHandler(inMemoryLookupDependencies());
+});
+
+afterAll(async () => {
+    await server.stop();
+    jest.useRealTimers();
+    delete process.env.CHESHIRE_EAST_BASE_URL;
+});
+
+beforeEach(async () => {
+    await settleBackgroundRefreshes();
+    clearPropertyDataCache();
+    InMemoryDao.clear();
+    InMemoryUserAddressDao.clear();
+    server.requests = [];
+});
+
+test('asks for permission when the address permission is missing', async () => {
+    const response = await invoke(new RequestEnvelopeBuilder(baseUrl).build());
+
+    expect(speechOf(response)).toContain("No Permissions found");
+    expect(response.response.card.type).toBe("AskForPermissionsConsent");
+});
+
+test('asks only for the reminders permission when that is the one missing', async () => {
+    deviceAt(POSTCODES.SINGLE_MATCH);
+    const response = await invoke(new RequestEnvelopeBuilder(baseUrl).withAddressPermission()
+        .intent("SetBinRemindersIntent", { time: "19:00" }).build());
+
+    expect(speechOf(response)).toContain("I need permission to set reminders");
+    expect(response.response.card).toMatchObject({ type: "AskForPermissionsConsent", permissions: ["alexa::alerts:reminders:skill:readwrite"] });
+});
+
+test('answers a launch request from the council website and caches the result', async () => {
+    deviceAt(POSTCODES.SINGLE_MATCH);
+    const envelope = new RequestEnvelopeBuilder(baseUrl).withAddressPermission().build();
+
+    expect(speechOf(await invoke(envelope))).toBe("Your Silver and Green bins are due Tomorrow.");
+    expect(server.requests.filter(url => url.indexOf(CHESHIRE_EAST_PATH) === 0)).toHaveLength(2);
+
+    server.requests = [];
+    expect(speechOf(await invoke(envelope))).toBe("Your Silver and Green bins are due Tomorrow.");
+    expect(server.requests.filter(url => url.indexOf(CHESHIRE_EAST_PATH) === 0)).toHaveLength(0);
+});
+
+test('answers from stale stored data while refreshing it, then from memory', async () => {
+    deviceAt(POSTCODES.SINGLE_MATCH);
+    InMemoryDao.items["1%20ACACIA%20AVENUE:SK11 3AB"] = {
+        propertyId: "100010123456",
+        fetchedAt: "2026-10-17T09:00:00.000Z",
+        binCollectionData: JSON.stringify(["21/10/2026", "28/10/2026", "04/11/2026", "11/11/2026"]
+            .map(date => ({ collectionDay: "Wednesday", collectionDate: date, binType: "Black" })))
+    };
+    const envelope = new RequestEnvelopeBuilder(baseUrl).withAddressPermission().build();
+
+    // The response waits for the refresh, as Lambda may freeze the container once it has gone.
+    expect(speechOf(await invoke(envelope))).toBe("Your Black bin is due on Wednesday.");
+
+    expect(InMemoryDao.schedules["100010123456"]).toMatchObject({
+        fetchedAt: "2026-10-19T09:00:00.000Z",
+        expiresAt: Date.parse("2027-01-17T09:00:00Z") / 1000
+    });
+    expect(speechOf(await invoke(envelope))).toBe("Your Silver and Green bins are due Tomorrow.");
+    expect(getCacheEventCounts()).toEqual({ "stale-hit": 1, "refreshed": 1, "memory-hit": 1, "hit": 1 });
+});
+
+test('keeps stored data that lookups answer from, however it was refreshed, from expiring', async () => {
+    deviceAt(POSTCODES.SINGLE_MATCH);
+    // Kept fresh by the scheduled refresh, which leaves the expiry alone.
+    InMemoryDao.schedules["100010123456"] = {
+        uprn: "100010123456",
+        schemaVersion: 2,
+        fetchedAt: "2026-10-19T08:00:00.000Z",
+        requestedAt: "2026-07-21T08:00:00.000Z",
+        expiresAt: Date.parse("2026-10-19T08:00:00Z") / 1000 + 3600,
+        collections: ["2026-10-21", "2026-10-28", "2026-11-04", "2026-11-11"].map(date => ({ date, binType: "Black", councilLabel: null }))
+    };
+    InMemoryDao.items["1%20ACACIA%20AVENUE:SK11 3AB"] = { schemaVersion: 2, uprn: "100010123456", expiresAt: Date.parse("2026-10-19T08:00:00Z") / 1000 + 3600 };
+    const envelope = new RequestEnvelopeBuilder(baseUrl).withAddressPermission().build();
+
+    expect(speechOf(await invoke(envelope))).toBe("Your Black bin is due on Wednesday.");
+
+    const expiresAt: number = Date.parse("2027-01-17T09:00:00Z") / 1000;
+    expect(InMemoryDao.schedules["100010123456"]).toMatchObject({ fetchedAt: "2026-10-19T08:00:00.000Z", requestedAt: "2026-10-19T09:00:00.000Z", expiresAt });
+    expect(InMemoryDao.items["1%20ACACIA%20AVENUE:SK11 3AB"].expiresAt).toBe(expiresAt);
+    expect(server.requests.filter(url => url.indexOf(CHESHIRE_EAST_PATH) === 0)).toHaveLength(0);
+});
+
+test('re-syncs reminders on the next request after the scheduled refresh changed the collections', async () => {
+    deviceAt(POSTCODES.SINGLE_MATCH);
+    addReminders(server, []);
+    InMemoryDao.schedules["100010123456"] = {
+        uprn: "100010123456",
+        schemaVersion: 2,
+        fetchedAt: "2026-10-19T08:00:00.000Z",
+        requestedAt: "2026-10-19T08:00:00.000Z",
+        changedAt: "2026-10-19T08:00:00.000Z",
+        remindersSyncedAt: "2026-10-12T08:00:00.000Z",
+        expiresAt: Date.parse("2027-01-17T08:00:00Z") / 1000,
+        collections: ["2026-10-21", "2026-10-28", "2026-11-04", "2026-11-11"].map(date => ({ date, binType: "Black", councilLabel: null }))
+    };
+    InMemoryDao.items["1%20ACACIA%20AVENUE:SK11 3AB"] = { schemaVersion: 2, uprn: "100010123456", expiresAt: Date.parse("2027-01-17T08:00:00Z") / 1000 };
+    const envelope = new RequestEnvelopeBuilder(baseUrl).withAddressPermission().withReminderPermission().build();
+
+    expect(speechOf(await invoke(envelope))).toBe("Your Black bin is due on Wednesday.");
+    expect(server.requests.filter(url => url.indexOf("/v1/alerts/reminders") === 0)).toHaveLength(1);
+    expect(InMemoryDao.schedules["100010123456"].remindersSyncedAt).toBe("2026-10-19T09:00:00.000Z");
+
+    server.requests = [];
+    expect(speechOf(await invoke(envelope))).toBe("Your Black bin is due on Wednesday.");
+    expect(server.requests.filter(url => url.indexOf("/v1/alerts/reminders") === 0)).toHaveLength(0);
+});
+
+test('answers from the schedule stored for the property under another spelling of the address', async () => {
+    deviceAt(POSTCODES.SINGLE_MATCH);
+    InMemoryDao.schedules["100010123456"] = {
+        uprn: "100010123456",
+        schemaVersion: 2,
+        fetchedAt: "2026-10-19T08:00:00.000Z",
+        expiresAt: Date.parse("2027-01-17T08:00:00Z") / 1000,
+        collections: ["2026-10-21", "2026-10-28", "2026-11-04", "2026-11-11"].map(date => ({ date, binType: "Black", councilLabel: null }))
+    };
+    InMemoryDao.items["1%2C%20ACACIA%20AVE:SK11 3AB"] = { schemaVersion: 2, uprn: "100010123456", expiresAt: 1800000000 };
+    const envelope = new RequestEnvelopeBuilder(baseUrl).withAddressPermission().build();
+
+    expect(speechOf(await invoke(envelope))).toBe("Your Black bin is due on Wednesday.");
+    expect(server.requests.filter(url => url.indexOf(CHESHIRE_EAST_PATH + "/SearchByAjax/GetBartecJobList") === 0)).toHaveLength(0);
+    expect(InMemoryDao.items["1%20ACACIA%20AVENUE:SK11 3AB"].uprn).toBe("100010123456");
+    expect(getCacheEventCounts()).toEqual({ "shared-hit": 1 });
+});
+
+test('shows the collection calendar on screen devices as well as the card', async () => {
+    deviceAt(POSTCODES.SINGLE_MATCH);
+    const envelope = new RequestEnvelopeBuilder(baseUrl).withAddressPermission().withAplSupport().build();
+
+    const response = await invoke(envelope);
+
+    expect(response.response.card).toMatchObject({ type: "Simple", title: "Next Bin Collection" });
+    const directive = response.response.directives[0] as interfaces.alexa.presentation.apl.RenderDocumentDirective;
+    expect(directive.type).toBe("Alexa.Presentation.APL.RenderDocument");
+    expect(directive.datasources.calendar.days[0]).toMatchObject({ date: "20/10/2026", label: "Tomorrow", highlighted: true });
+});
+
+test('shows a card on devices without a screen', async () => {
+    deviceAt(POSTCODES.SINGLE_MATCH);
+    const envelope = new RequestEnvelopeBuilder(baseUrl).withAddressPermission().build();
+
+    const response = await invoke(envelope);
+
+    expect(response.response.card).toMatchObject({ type: "Simple", title: "Next Bin Collection" });
+    expect(response.response.directives).toBeUndefined();
+});
+
+test('links the card to the calendar feed when the API is deployed, on screen devices too', async () => {
+    deviceAt(POSTCODES.SINGLE_MATCH);
+    process.env.API_BASE_URL = "https://api.example.com/prod";
+    try {
+        const response = await invoke(new RequestEnvelopeBuilder(baseUrl).withAddressPermission().withAplSupport().build());
+
+        expect((response.response.card as { content: string }).content).toBe("Your Silver and Green bins are due Tomorrow.\n\n"
+            + "Add your bin days to your calendar: https://api.example.com/prod/properties/100010123456/collections.ics"
+            + "?postcode=SK11%203AB&address=1%20ACACIA%20AVENUE");
+    } finally {
+        delete process.env.API_BASE_URL;
+    }
+});
+
+test('answers a bin-specific intent', async () => {
+    deviceAt(POSTCODES.SINGLE_MATCH);
+    const envelope = new RequestEnvelopeBuilder(baseUrl).withAddressPermission()
+        .intent("NextBinOfTypeIntent", { binType: "black" }).build();
+
+    expect(speechOf(await invoke(envelope))).toBe("Your Black bin is due on Tuesday.");
+});
+
+test('speaks dates in the device locale', async () => {
+    deviceAt(POSTCODES.SINGLE_MATCH);
+    const envelope = new RequestEnvelopeBuilder(baseUrl).withAddressPermission().withLocale("en-IN")
+        .intent("CollectionScheduleIntent", { duration: "P10D" }).build();
+
+    expect(speechOf(await invoke(envelope))).toBe("Your collections are Silver and Green on Tuesday, 20 October, "
+        + "then Black on Tuesday, 27 October.");
+});
+
+test('picks the property matching the device address when the search finds several', async () => {
+    deviceAt(POSTCODES.MULTIPLE_MATCHES, "FLAT 2, 12 ACACIA AVENUE");
+    const envelope = new RequestEnvelopeBuilder(baseUrl).withAddressPermission().build();
+
+    await invoke(envelope);
+
+    expect(server.requests).toContain(CHESHIRE_EAST_PATH + "/SearchByAjax/GetBartecJobList?uprn=100010000002");
+});
+
+test('asks which property is meant and remembers the choice', async () => {
+    deviceAt(POSTCODES.MULTIPLE_MATCHES, "12 ACACIA AVENUE");
+    const launch = await invoke(new RequestEnvelopeBuilder(baseUrl).withAddressPermission().build());
+
+    expect(speechOf(launch)).toBe("I found more than one address like yours. Which is your address? " +
+        "1: Flat 1, 12 Acacia Avenue, Macclesfield. 2: Flat 2, 12 Acacia Avenue, Macclesfield. Say the number of your address.");
+    expect(launch.response.shouldEndSession).toBeFalsy();
+
+    const choice = await invoke(new RequestEnvelopeBuilder(baseUrl).withAddressPermission()
+        .withSessionAttributes(launch.sessionAttributes)
+        .intent("ChoosePropertyIntent", { choice: "1" }).build());
+
+    expect(speechOf(choice)).toBe("Thanks, I'll remember that. Your Silver and Green bins are due Tomorrow.");
+    expect(server.requests).toContain(CHESHIRE_EAST_PATH + "/SearchByAjax/GetBartecJobList?uprn=100010000001");
+
+    server.requests = [];
+    Object.keys(InMemoryDao.schedules).forEach(uprn => InMemoryDao.schedules[uprn].collections = []);
+    clearPropertyDataCache();
+    await invoke(new RequestEnvelopeBuilder(baseUrl).withAddressPermission().build());
+
+    expect(server.requests.filter(url => url.indexOf(CHESHIRE_EAST_PATH) === 0))
+        .toEqual([CHESHIRE_EAST_PATH + "/SearchByAjax/GetBartecJobList?uprn=100010000001"]);
+});
+
+test('asks again when the choice is not one of the addresses offered', async () => {
+    deviceAt(POSTCODES.MULTIPLE_MATCHES, "12 ACACIA AVENUE");
+    const launch = await invoke(new RequestEnvelopeBuilder(baseUrl).withAddressPermission().build());
+
+    const choice = await invoke(new RequestEnvelopeBuilder(baseUrl).withAddressPermission()
+        .withSessionAttributes(launch.sessionAttributes)
+        .intent("ChoosePropertyIntent", { choice: "3" }).build());
+
+    expect(speechOf(choice)).toContain("that isn't one of the addresses I found");
+    expect(choice.sessionAttributes).toEqual(launch.sessionAttributes);
+});
+
+test('works out today from the device time zone', async () => {
+    deviceAt(POSTCODES.SINGLE_MATCH);
+    addDeviceTimeZone(server, DEVICE_ID, "Europe/London");
+    jest.setSystemTime(new Date("2026-10-19T23:30:00Z"));
+
+    try {
+        const envelope = new RequestEnvelopeBuilder(baseUrl).withAddressPermission().build();
+
+        expect(speechOf(await invoke(envelope))).toBe("Your Silver and Green bins are due Today.");
+        expect(server.requests).toContain("/v2/devices/" + DEVICE_ID + "/settings/System.timeZone");
+    } finally {
+        jest.setSystemTime(new Date("2026-10-19T09:00:00Z"));
+    }
+});
+
+test('explains when the council has no record of the address', async () => {
+    deviceAt(POSTCODES.NO_MATCHES);
+    const envelope = new RequestEnvelopeBuilder(baseUrl).withAddressPermission().build();
+
+    expect(speechOf(await invoke(envelope))).toContain("couldn't find your bin collections in Cheshire East's records");
+});
+
+test('explains when the council has no collections for the address', async () => {
+    deviceAt(POSTCODES.NO_COLLECTIONS, "2 NEW BUILD CLOSE");
+    const envelope = new RequestEnvelopeBuilder(baseUrl).withAddressPermission().build();
+
+    expect(speechOf(await invoke(envelope))).toContain("couldn't find your bin collections in Cheshire East's records");
+});
+
+test('explains when the council website is failing', async () => {
+    deviceAt(POSTCODES.SERVER_ERROR);
+    const envelope = new RequestEnvelopeBuilder(baseUrl).withAddressPermission().build();
+
+    expect(speechOf(await invoke(envelope))).toContain("couldn't reach the Cheshire East website");
+});
+
+test('predicts collections from stored history when the council is failing', async () => {
+    deviceAt(POSTCODES.SERVER_ERROR);
+    InMemoryDao.items["1%20ACACIA%20AVENUE:" + POSTCODES.SERVER_ERROR] = {
+        propertyId: "100010555555",
+        binCollectionData: JSON.stringify([
+            { collectionDay: "Tuesday", collectionDate: "08/09/2026", binType: "Black" },
+            { collectionDay: "Tuesday", collectionDate: "15/09/2026", binType: "Silver" },
+            { collectionDay: "Tuesday", collectionDate: "22/09/2026", binType: "Black" },
+            { collectionDay: "Tuesday", collectionDate: "29/09/2026", binType: "Silver" },
+            { collectionDay: "Tuesday", collectionDate: "06/10/2026", binType: "Black" },
+            { collectionDay: "Tuesday", collectionDate: "13/10/2026", binType: "Silver" }
+        ])
+    };
+    const envelope = new RequestEnvelopeBuilder(baseUrl).withAddressPermission().build();
+
+    expect(speechOf(await invoke(envelope))).toBe("Your Black bin is probably due Tomorrow. " +
+        "I couldn't check with your council, so that's going by your usual collections.");
+    expect(InMemoryDao.schedules["100010555555"].collections).toHaveLength(6);
+});
+
+test('asks for permission again when the address service refuses', async () => {
+    addDeviceAddress(server, DEVICE_ID, null);
+    const envelope = new RequestEnvelopeBuilder(baseUrl).withAddressPermission().build();
+
+    expect((await invoke(envelope)).response.card.type).toBe("AskForPermissionsConsent");
+});
+
+test('sets up an address by voice and uses it without the address permission', async () => {
+    const setAddress = await invoke(new RequestEnvelopeBuilder(baseUrl)
+        .intent("SetMyAddressIntent", { postcode: "s k 11 3 a b", houseNameOrNumber: "1" }).build());
+
+    expect(speechOf(setAddress)).toBe("Thanks, I've saved your address as 1 Acacia Avenue, Macclesfield. " +
+        "Your Silver and Green bins are due Tomorrow.");
+    expect(InMemoryUserAddressDao.items[USER_ID].propertyId).toBe("100010123456");
+
+    const launch = await invoke(new RequestEnvelopeBuilder(baseUrl).build());
+
+    expect(speechOf(launch)).toBe("Your Silver and Green bins are due Tomorrow.");
+});
+
+test('asks for the postcode and house when setting up an address', async () => {
+    const noPostcode = await invoke(new RequestEnvelopeBuilder(baseUrl).intent("SetMyAddressIntent").build());
+
+    expect(speechOf(noPostcode)).toBe("What's your postcode?");
+    expect(noPostcode.response.directives[0]).toMatchObject({ type: "Dialog.ElicitSlot", slotToElicit: "postcode" });
+
+    const noHouse = await invoke(new RequestEnvelopeBuilder(baseUrl)
+        .intent("SetMyAddressIntent", { postcode: POSTCODES.SINGLE_MATCH }).build());
+
+    expect(speechOf(noHouse)).toBe("What's your house name or number?");
+    expect(noHouse.response.directives[0]).toMatchObject({ type: "Dialog.ElicitSlot", slotToElicit: "houseNameOrNumber" });
+});
+
+test('starts again when the council has no record of the address being set up', async () => {
+    const response = await invoke(new RequestEnvelopeBuilder(baseUrl)
+        .intent("SetMyAddressIntent", { postcode: POSTCODES.NO_MATCHES, houseNameOrNumber: "1" }).build());
+
+    expect(speechOf(response)).toBe("Sorry, I couldn't find 1 at that postcode. Let's try again. What's your postcode?");
+    expect(response.response.directives[0]).toMatchObject({ type: "Dialog.ElicitSlot", slotToElicit: "postcode" });
+    expect(InMemoryUserAddressDao.items[USER_ID]).toBeUndefined();
+});
+
+test('asks the user to confirm the only property the council lists when it does not match the address', async () => {
+    const setAddress = await invoke(new RequestEnvelopeBuilder(baseUrl)
+        .intent("SetMyAddressIntent", { postcode: POSTCODES.SINGLE_MATCH, houseNameOrNumber: "rose cottage" }).build());
+
+    expect(speechOf(setAddress)).toBe("I couldn't find your exact address, but found one like it. "
+        + "Is this your address? 1: 1 Acacia Avenue, Macclesfield. If it is, say the number 1.");
+    expect(InMemoryUserAddressDao.items[USER_ID]).toBeUndefined();
+
+    await invoke(new RequestEnvelopeBuilder(baseUrl)
+        .withSessionAttributes(setAddress.sessionAttributes)
+        .intent("ChoosePropertyIntent", { choice: "1" }).build());
+
+    expect(InMemoryUserAddressDao.items[USER_ID].propertyId).toBe("100010123456");
+});
+
+test('asks which property is meant when setting up an address and stores the choice for the user', async () => {
+    const setAddress = await invoke(new RequestEnvelopeBuilder(baseUrl)
+        .intent("SetMyAddressIntent", { postcode: POSTCODES.MULTIPLE_MATCHES, houseNameOrNumber: "flat" }).build());
+
+    expect(speechOf(setAddress)).toContain("Which is your address?");
+
+    await invoke(new RequestEnvelopeBuilder(baseUrl)
+        .withSessionAttributes(setAddress.sessionAttributes)
+        .intent("ChoosePropertyIntent", { choice: "2" }).build());
+
+    expect(InMemoryUserAddressDao.items[USER_ID].propertyId).toBe("100010000002");
+});
+
+test('keeps to the property the user chose when the same words point at another property', async () => {
+    const setAddress = await invoke(new RequestEnvelopeBuilder(baseUrl)
+        .intent("SetMyAddressIntent", { postcode: POSTCODES.MULTIPLE_MATCHES, houseNameOrNumber: "flat" }).build());
+    await invoke(new RequestEnvelopeBuilder(baseUrl)
+        .withSessionAttributes(setAddress.sessionAttributes)
+        .intent("ChoosePropertyIntent", { choice: "2" }).build());
+
+    const addressKey: string = encodeURIComponent(InMemoryUserAddressDao.items[USER_ID].addressLine1) + ":" + POSTCODES.MULTIPLE_MATCHES;
+    expect(InMemoryDao.items[addressKey]).toBeUndefined();
+
+    // Someone else chose flat 1 for the same words.
+    InMemoryDao.items[addressKey] = { addressLine1: addressKey, schemaVersion: 2, uprn: "100010000001", expiresAt: 1900000000 };
+    InMemoryDao.schedules["100010000001"] = {
+        uprn: "100010000001", schemaVersion: 2, fetchedAt: "2026-10-19T08:00:00.000Z", expiresAt: 1900000000,
+        collections: ["2026-10-20", "2026-10-27", "2026-11-03", "2026-11-10"].map(date => ({ date, binType: "Black", councilLabel: null }))
+    };
+    clearPropertyDataCache();
+    server.requests = [];
+
+    expect(speechOf(await invoke(new RequestEnvelopeBuilder(baseUrl).build()))).toBe("Your Silver and Green bins are due Tomorrow.");
+    expect(server.requests.filter(url => url.indexOf(CHESHIRE_EAST_PATH) === 0)).toHaveLength(0);
+});
+
+test('forgets an address set up by voice', async () => {
+    await invoke(new RequestEnvelopeBuilder(baseUrl)
+        .intent("SetMyAddressIntent", { postcode: POSTCODES.SINGLE_MATCH, houseNameOrNumber: "1" }).build());
+
+    const clear = await invoke(new RequestEnvelopeBuilder(baseUrl).intent("ClearMyAddressIntent").build());
+
+    expect(speechOf(clear)).toContain("I've forgotten the address you gave me");
+    expect((await invoke(new RequestEnvelopeBuilder(baseUrl).build())).response.card.type).toBe("AskForPermissionsConsent");
+});
@@ -0,0 +1,29 @@
+import { services } from "ask-sdk-model";
+import { FakeHttpServer, FakeResponse } from './FakeHttpServer';
+
+/**
+ * Stubs the Alexa settings service's time zone for a device.
+ */
+export function addDeviceTimeZone(server: FakeHttpServer, deviceId: string, timeZone: string): FakeHttpServer {
+    return server.respond("/v2/devices/" + deviceId + "/settings/System.timeZone", () =>
+        new FakeResponse(200, JSON.stringify(timeZone), "application/json"));
+}
+
+/**
+ * Stubs the device address service for a device. A null address answers 403, as Alexa does when
+ * the user has revoked the address permission.
+ */
+export function addDeviceAddress(server: FakeHttpServer, deviceId: string, address: services.deviceAddress.Address): FakeHttpServer {
+    return server.respond("/v1/devices/" + deviceId + "/settings/address", () => address === null
+        ? new FakeResponse(403, JSON.stringify({ type: "FORBIDDEN", message: "Access denied" }), "application/json")
+        : new FakeResponse(200, JSON.stringify(address), "application/json"));
+}
+
+/**
+ * Stubs the reminders API's list of the skill's reminders. The fake routes by path alone, so creating a reminder
+ * gets the same answer.
+ */
+export function addReminders(server: FakeHttpServer, reminders: services.reminderManagement.Reminder[]): FakeHttpServer {
+    return server.respond("/v1/alerts/reminders", () =>
+        new FakeResponse(200, JSON.stringify({ alerts: reminders, totalCount: String(reminders.length) }), "application/json"));
+}
@@ -0,0 +1,50 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { FakeHttpServer, FakeResponse } from './FakeHttpServer';
+
+export const CHESHIRE_EAST_PATH = "/MyCollectionDay";
+
+/** Postcodes the fake council knows about, one per recorded scenario. */
+export const POSTCODES = {
+    SINGLE_MATCH: "SK11 3AB",
+    MULTIPLE_MATCHES: "SK11 7XX",
+    NO_MATCHES: "SK11 9ZZ",
+    NO_COLLECTIONS: "SK11 8NN",
+    SERVER_ERROR: "SK11 5EE"
+};
+
+const SEARCH_FIXTURES: { [postCode: string]: string } = {
+    [POSTCODES.SINGLE_MATCH]: "search-single-match.html",
+    [POSTCODES.MULTIPLE_MATCHES]: "search-multiple-matches.html",
+    [POSTCODES.NO_MATCHES]: "search-no-results.html",
+    [POSTCODES.NO_COLLECTIONS]: "search-no-collections.html"
+};
+
+const JOB_LIST_FIXTURES: { [uprn: string]: string } = {
+    "100010123456": "job-list.html",
+    "100010000001": "job-list.html",
+    "100010000002": "job-list.html",
+    "100010999999": "job-list-empty.html",
+    "100010888888": "job-list-changed-markup.html"
+};
+
+export function cheshireEastFixture(name: string): string {
+    return readFileSync(join(__dirname, '../fixtures/cheshire-east', name), 'utf8');
+}
+
+/**
+ * Serves the recorded SearchByAjax responses from the fake server.
+ */
+export function addCheshireEastRoutes(server: FakeHttpServer): FakeHttpServer {
+    return server
+        .respond(CHESHIRE_EAST_PATH + "/SearchByAjax/Search", query => {
+            if (query.postcode === POSTCODES.SERVER_ERROR) {
+                return new FakeResponse(500, "<h1>Server Error</h1>");
+            }
+            return new FakeResponse(200, cheshireEastFixture(SEARCH_FIXTURES[query.postcode] || "search-no-results.html"));
+        })
+        .respond(CHESHIRE_EAST_PATH + "/SearchByAjax/GetBartecJobList", query => {
+            const fixture: string = JOB_LIST_FIXTURES[query.uprn];
+            return fixture ? new FakeResponse(200, cheshireEastFixture(fixture)) : new FakeResponse(500, "<h1>Server Error</h1>");
+        });
+}
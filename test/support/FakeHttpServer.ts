@@ -0,0 +1,60 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { parse } from 'url';
+
+export class FakeResponse {
+    statusCode: number;
+    body: string;
+    contentType: string;
+
+    constructor(statusCode: number, body: string, contentType: string = "text/html") {
+        this.statusCode = statusCode;
+        this.body = body;
+        this.contentType = contentType;
+    }
+}
+
+export type FakeRoute = (query: { [name: string]: string }, request: IncomingMessage) => FakeResponse;
+
+/**
+ * A local HTTP server standing in for the council website and the Alexa APIs, so tests never
+ * touch the network. Unknown paths get a 404.
+ */
+export class FakeHttpServer {
+    requests: string[] = [];
+    private server: Server = null;
+    private routes: { [path: string]: FakeRoute } = {};
+
+    respond(path: string, route: FakeRoute): FakeHttpServer {
+        this.routes[path] = route;
+        return this;
+    }
+
+    start(): Promise<string> {
+        this.server = createServer((request, response) => this.handle(request, response));
+
+        return new Promise(resolve => {
+            this.server.listen(0, "127.0.0.1", () => {
+                const address = this.server.address() as AddressInfo;
+                resolve("http://127.0.0.1:" + address.port);
+            });
+        });
+    }
+
+    stop(): Promise<void> {
+        return new Promise(resolve => this.server.close(() => resolve()));
+    }
+
+    private handle(request: IncomingMessage, response: ServerResponse) {
+        this.requests.push(request.url);
+
+        const url = parse(request.url, true);
+        const route: FakeRoute = this.routes[url.pathname];
+        const fakeResponse: FakeResponse = route
+            ? route(url.query as { [name: string]: string }, request)
+            : new FakeResponse(404, "Not found: " + url.pathname);
+
+        response.writeHead(fakeResponse.statusCode, { "Content-Type": fakeResponse.contentType });
+        response.end(fakeResponse.body);
+    }
+}
@@ -0,0 +1,29 @@
+import { AddressItems, InMemoryPropertyRepository, ScheduleItems } from '../../src/handlers/dao/InMemoryPropertyRepository';
+import { CachePolicy, loadCachePolicy } from '../../src/handlers/business-logic/CachePolicy';
+
+/**
+ * InMemoryPropertyRepository with the maps shared by every instance, so tests can reach the data the
+ * entry points store. items holds the address items, which tests may also fill with legacy items.
+ */
+export class InMemoryDao extends InMemoryPropertyRepository {
+    static items: { [addressKey: string]: any } = {};
+
+    static schedules: ScheduleItems = {};
+
+    static clear() {
+        InMemoryDao.items = {};
+        InMemoryDao.schedules = {};
+    }
+
+    constructor(cachePolicy: CachePolicy = loadCachePolicy()) {
+        super(cachePolicy);
+    }
+
+    protected addressItems(): AddressItems {
+        return InMemoryDao.items;
+    }
+
+    protected scheduleItems(): ScheduleItems {
+        return InMemoryDao.schedules;
+    }
+}
@@ -0,0 +1,18 @@
+import { LookupDependencies } from '../../src/handlers/business-logic/LookupDependencies';
+import { buildCouncilProviderRegistry } from '../../src/handlers/business-logic/CouncilProviderRegistry';
+import { loadCachePolicy } from '../../src/handlers/business-logic/CachePolicy';
+import { InMemoryDao } from './InMemoryDao';
+import { InMemoryUserAddressDao } from './InMemoryUserAddressDao';
+
+/**
+ * Dependencies for the entry points that store into InMemoryDao and InMemoryUserAddressDao. Build them after
+ * pointing CHESHIRE_EAST_BASE_URL at the fake council.
+ */
+export function inMemoryLookupDependencies(): LookupDependencies {
+    return {
+        propertyRepository: new InMemoryDao(),
+        userAddressRepository: new InMemoryUserAddressDao(),
+        councilProviderRegistry: buildCouncilProviderRegistry(undefined, []),
+        cachePolicy: loadCachePolicy()
+    };
+}
@@ -0,0 +1,17 @@
+import { InMemoryUserAddressRepository, UserAddressItems } from '../../src/handlers/dao/InMemoryUserAddressRepository';
+
+/**
+ * InMemoryUserAddressRepository with the map shared by every instance, so tests can reach the addresses the
+ * entry points store.
+ */
+export class InMemoryUserAddressDao extends InMemoryUserAddressRepository {
+    static items: UserAddressItems = {};
+
+    static clear() {
+        InMemoryUserAddressDao.items = {};
+    }
+
+    protected userAddressItems(): UserAddressItems {
+        return InMemoryUserAddressDao.items;
+    }
+}
@@ -0,0 +1,98 @@
+import { IntentRequest, RequestEnvelope, Slot } from "ask-sdk-model";
+
+export const DEVICE_ID = "amzn1.ask.device.TEST";
+
+export const USER_ID = "amzn1.ask.account.TEST";
+
+const ADDRESS_PERMISSION = "read::alexa:device:all:address";
+
+const REMINDER_PERMISSION = "alexa::alerts:reminders:skill:readwrite";
+
+/**
+ * Builds Alexa request envelopes for driving the skill handler, pointing the Alexa APIs at apiEndpoint.
+ */
+export class RequestEnvelopeBuilder {
+    private envelope: RequestEnvelope;
+
+    constructor(apiEndpoint: string) {
+        this.envelope = {
+            version: "1.0",
+            session: {
+                new: true,
+                sessionId: "amzn1.echo-api.session.TEST",
+                application: { applicationId: "amzn1.ask.skill.TEST" },
+                user: { userId: USER_ID },
+                attributes: {}
+            },
+            context: {
+                System: {
+                    application: { applicationId: "amzn1.ask.skill.TEST" },
+                    user: { userId: USER_ID },
+                    device: { deviceId: DEVICE_ID, supportedInterfaces: {} },
+                    apiEndpoint,
+                    apiAccessToken: "TEST_ACCESS_TOKEN"
+                }
+            },
+            request: {
+                type: "LaunchRequest",
+                requestId: "amzn1.echo-api.request.TEST",
+                timestamp: new Date().toISOString(),
+                locale: "en-GB"
+            }
+        };
+    }
+
+    intent(name: string, slotValues: { [name: string]: string } = {}): RequestEnvelopeBuilder {
+        const slots: { [name: string]: Slot } = {};
+        for (const slotName of Object.keys(slotValues)) {
+            slots[slotName] = { name: slotName, value: slotValues[slotName], confirmationStatus: "NONE" };
+        }
+
+        const request: IntentRequest = {
+            type: "IntentRequest",
+            requestId: "amzn1.echo-api.request.TEST",
+            timestamp: new Date().toISOString(),
+            locale: this.envelope.request.locale,
+            dialogState: "STARTED",
+            intent: { name, confirmationStatus: "NONE", slots }
+        };
+        this.envelope.request = request;
+
+        return this;
+    }
+
+    withAddressPermission(): RequestEnvelopeBuilder {
+        return this.withPermission(ADDRESS_PERMISSION);
+    }
+
+    withReminderPermission(): RequestEnvelopeBuilder {
+        return this.withPermission(REMINDER_PERMISSION);
+    }
+
+    withLocale(locale: string): RequestEnvelopeBuilder {
+        this.envelope.request.locale = locale;
+        return this;
+    }
+
+    withAplSupport(): RequestEnvelopeBuilder {
+        this.envelope.context.System.device.supportedInterfaces["Alexa.Presentation.APL"] = { runtime: { maxVersion: "1.6" } };
+        return this;
+    }
+
+    withSessionAttributes(attributes: { [key: string]: any }): RequestEnvelopeBuilder {
+        this.envelope.session.new = false;
+        this.envelope.session.attributes = attributes;
+        return this;
+    }
+
+    build(): RequestEnvelope {
+        return JSON.parse(JSON.stringify(this.envelope));
+    }
+
+    private withPermission(scope: string): RequestEnvelopeBuilder {
+        const user = this.envelope.context.System.user;
+        user.permissions = user.permissions || { consentToken: "TEST_CONSENT_TOKEN", scopes: {} };
+        user.permissions.scopes[scope] = { status: "GRANTED" };
+        return this;
+    }
+}